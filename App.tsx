@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useCallback, Suspense } from 'react';
-import { AiProvider, Project } from './types';
+import { AiProvider, Project, ProjectSummary } from './types';
+import { syncService } from './services/syncService';
 import { useAuth } from './contexts/AuthContext';
 
 // Lazy load components for code splitting
@@ -89,9 +90,19 @@ function App() {
     }
   }, [session]);
 
-  const handleLoadProject = useCallback((project: Project) => {
-    setProjectStartData(project);
-    setView('ide');
+  const handleLoadProject = useCallback(async (summary: ProjectSummary) => {
+    try {
+      setProjectStartData(await syncService.openProject(summary.id));
+      setView('ide');
+    } catch (e) {
+      console.error("Failed to open project:", e);
+      alert(`Couldn't open "${summary.name}": ${e instanceof Error ? e.message : 'Unknown error'}`);
+    }
+  }, []);
+
+  // Updates from the IDE can be partial, e.g. new model settings without the files.
+  const handleProjectDataChange = useCallback((changes: Partial<Project>) => {
+    setProjectStartData(prev => ({ ...prev, ...changes }));
   }, []);
 
   const handleExitIde = useCallback(() => {
@@ -129,7 +140,7 @@ function App() {
           <IdeLayout 
             initialProjectData={projectStartData}
             onExit={handleExitIde}
-            onProjectDataChange={setProjectStartData} // This allows IDE to update project data (e.g., with ID after save)
+            onProjectDataChange={handleProjectDataChange} // This allows IDE to update project data (e.g., with ID after save)
             onManageKeysClick={openApiKeyModal}
             onOpenSettings={openSettingsModal}
             onOpenGithubModal={openGithubModal}
@@ -0,0 +1,33 @@
+// api/_lib/auth.ts
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient, SupabaseClient, User } from '@supabase/supabase-js';
+
+export interface AuthenticatedRequest {
+    user: User;
+    supabaseAdmin: SupabaseClient;
+}
+
+// Verifies the caller's Supabase session from the `Authorization: Bearer <token>` header.
+// On failure the error response has already been sent and null is returned.
+export async function authenticateRequest(req: VercelRequest, res: VercelResponse): Promise<AuthenticatedRequest | null> {
+    const supabaseUrl = process.env.VITE_SUPABASE_URL;
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    if (!supabaseUrl || !supabaseServiceKey) {
+        console.error("Supabase environment variables not set");
+        res.status(500).json({ error: 'Server configuration error.' });
+        return null;
+    }
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        res.status(401).json({ error: 'No authorization token provided.' });
+        return null;
+    }
+    const token = authHeader.split(' ')[1];
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(token);
+    if (userError || !user) {
+        res.status(401).json({ error: 'Unauthorized: Invalid token.' });
+        return null;
+    }
+    return { user, supabaseAdmin };
+}
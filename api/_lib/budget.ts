@@ -0,0 +1,35 @@
+// api/_lib/budget.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// The user's monthly budget, enforced before a request is paid for with one of the server's shared
+// keys. Spend comes from the usage_events the client records after each turn. Returns the error
+// to send once the budget is used up, else null; a failed lookup is logged and lets the request through.
+export async function getBudgetExceededMessage(supabaseAdmin: SupabaseClient, userId: string): Promise<string | null> {
+    try {
+        const { data: budget, error: budgetError } = await supabaseAdmin
+            .from('usage_budgets')
+            .select('monthly_limit_usd')
+            .eq('user_id', userId)
+            .maybeSingle();
+        if (budgetError) throw budgetError;
+        if (budget?.monthly_limit_usd == null) return null;
+        const limit = Number(budget.monthly_limit_usd);
+
+        const now = new Date();
+        const since = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString();
+        const { data: events, error: spendError } = await supabaseAdmin
+            .from('usage_events')
+            .select('cost_usd')
+            .eq('user_id', userId)
+            .gte('created_at', since);
+        if (spendError) throw spendError;
+        const spent = (events || []).reduce((sum, row) => sum + Number(row.cost_usd), 0);
+
+        return spent >= limit
+            ? `Monthly AI budget of $${limit.toFixed(2)} reached ($${spent.toFixed(2)} spent). Raise the limit in Settings to continue.`
+            : null;
+    } catch (error) {
+        console.error("Supabase error checking the monthly budget:", error);
+        return null;
+    }
+}
@@ -0,0 +1,74 @@
+// api/_lib/keyVault.ts
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Providers whose keys users may store, and the server-wide environment key used when they haven't.
+// OPENROUTER_API_KEYS may hold several comma-separated keys, which are rotated between requests.
+export const VAULT_PROVIDERS: Record<string, string> = {
+    claude: 'CLAUDE_API_KEY',
+    openai: 'OPENAI_API_KEY',
+    groq: 'GROQ_API_KEY',
+    openrouter: 'OPENROUTER_API_KEYS',
+    pexels: 'PEXELS_API_KEY',
+};
+
+const getVaultKey = (): Buffer => {
+    const secret = process.env.KEY_VAULT_SECRET;
+    if (!secret) throw new Error('KEY_VAULT_SECRET is not set.');
+    // Any secret string works; hashing it yields the 32 bytes AES-256 needs.
+    return createHash('sha256').update(secret).digest();
+};
+
+export const encryptKey = (plaintext: string) => {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', getVaultKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return {
+        ciphertext: ciphertext.toString('base64'),
+        iv: iv.toString('base64'),
+        auth_tag: cipher.getAuthTag().toString('base64'),
+    };
+};
+
+export const decryptKey = (row: { ciphertext: string; iv: string; auth_tag: string }): string => {
+    const decipher = createDecipheriv('aes-256-gcm', getVaultKey(), Buffer.from(row.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(row.auth_tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(row.ciphertext, 'base64')), decipher.final()]).toString('utf8');
+};
+
+// Last four characters, so users can tell which key is stored without it being revealed.
+export const keyHint = (key: string) => `…${key.slice(-4)}`;
+
+let sharedKeyIndex = 0;
+
+const getSharedKeys = (provider: string): string[] =>
+    (process.env[VAULT_PROVIDERS[provider]] || '').split(',').map(k => k.trim()).filter(Boolean);
+
+export const hasSharedKey = (provider: string) => getSharedKeys(provider).length > 0;
+
+export const getSharedKey = (provider: string): string | null => {
+    const keys = getSharedKeys(provider);
+    if (keys.length === 0) return null;
+    return keys[sharedKeyIndex++ % keys.length];
+};
+
+// The key the user stored for the provider, or null if they haven't stored one.
+export async function getUserKey(supabaseAdmin: SupabaseClient, userId: string, provider: string): Promise<string | null> {
+    const { data, error } = await supabaseAdmin
+        .from('provider_keys')
+        .select('ciphertext, iv, auth_tag')
+        .eq('user_id', userId)
+        .eq('provider', provider)
+        .maybeSingle();
+
+    if (error) {
+        console.error("Supabase error reading provider key:", error);
+        throw error;
+    }
+    return data ? decryptKey(data) : null;
+}
+
+// The user's own key if they stored one, otherwise the server's shared key for the provider.
+export async function getProviderKey(supabaseAdmin: SupabaseClient, userId: string, provider: string): Promise<string | null> {
+    return (await getUserKey(supabaseAdmin, userId, provider)) ?? getSharedKey(provider);
+}
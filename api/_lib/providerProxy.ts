@@ -0,0 +1,80 @@
+// api/_lib/providerProxy.ts
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { authenticateRequest } from './auth';
+import { getBudgetExceededMessage } from './budget';
+import { getSharedKey, getUserKey } from './keyVault';
+
+interface ProviderProxyConfig {
+    // Vault id of the provider whose key is attached, e.g. 'claude'.
+    provider: string;
+    name: string;
+    url: string;
+    buildHeaders: (apiKey: string) => Record<string, string>;
+}
+
+// Builds an authenticated proxy for a provider's JSON API. The browser sends the provider request
+// body as-is; the function looks up the caller's key in the vault, attaches it, and relays the
+// upstream response, streaming Server-Sent Events through unchanged.
+export const createProviderProxy = (config: ProviderProxyConfig) =>
+    async function handler(req: VercelRequest, res: VercelResponse) {
+        if (req.method !== 'POST') {
+            res.setHeader('Allow', ['POST']);
+            return res.status(405).end(`Method ${req.method} Not Allowed`);
+        }
+
+        // Cancels the upstream request if the client goes away (e.g. the user stops the agent), so
+        // the provider stops generating, and billing, a reply nobody will read.
+        const upstreamAbort = new AbortController();
+        res.on('close', () => {
+            if (!res.writableEnded) upstreamAbort.abort();
+        });
+
+        try {
+            // 1. Authenticate user
+            const auth = await authenticateRequest(req, res);
+            if (!auth) return;
+
+            // 2. Get the provider key
+            const userKey = await getUserKey(auth.supabaseAdmin, auth.user.id, config.provider);
+            const apiKey = userKey ?? getSharedKey(config.provider);
+            if (!apiKey) {
+                return res.status(400).json({ error: `${config.name} API key not found. Add one in Manage API Keys.` });
+            }
+            // Requests on a shared key are the server's spend, so the budget is enforced here too.
+            if (!userKey) {
+                const budgetError = await getBudgetExceededMessage(auth.supabaseAdmin, auth.user.id);
+                if (budgetError) return res.status(402).json({ error: budgetError });
+            }
+
+            // 3. Forward the request
+            const upstream = await fetch(config.url, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', ...config.buildHeaders(apiKey) },
+                body: JSON.stringify(req.body),
+                signal: upstreamAbort.signal,
+            });
+
+            res.status(upstream.status);
+            res.setHeader('Content-Type', upstream.headers.get('content-type') || 'application/json');
+            if (!upstream.body) {
+                return res.end();
+            }
+            if (upstream.headers.get('content-type')?.includes('text/event-stream')) {
+                res.setHeader('Cache-Control', 'no-cache, no-transform');
+            }
+            for await (const chunk of upstream.body as unknown as AsyncIterable<Uint8Array>) {
+                res.write(chunk);
+            }
+            return res.end();
+
+        } catch (error) {
+            if (upstreamAbort.signal.aborted) return res.end();
+            console.error(`Error in ${config.name} proxy:`, error);
+            const errorMessage = error instanceof Error ? error.message : 'An internal server error occurred.';
+            if (!res.headersSent) {
+                res.status(500).json({ error: errorMessage });
+            } else {
+                res.end();
+            }
+        }
+    };
@@ -0,0 +1,12 @@
+// api/generate-claude.ts
+import { createProviderProxy } from './_lib/providerProxy';
+
+export default createProviderProxy({
+    provider: 'claude',
+    name: 'Claude',
+    url: 'https://api.anthropic.com/v1/messages',
+    buildHeaders: (apiKey) => ({
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+    }),
+});
@@ -0,0 +1,9 @@
+// api/generate-groq.ts
+import { createProviderProxy } from './_lib/providerProxy';
+
+export default createProviderProxy({
+    provider: 'groq',
+    name: 'Groq',
+    url: 'https://api.groq.com/openai/v1/chat/completions',
+    buildHeaders: (apiKey) => ({ 'Authorization': `Bearer ${apiKey}` }),
+});
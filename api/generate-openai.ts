@@ -0,0 +1,9 @@
+// api/generate-openai.ts
+import { createProviderProxy } from './_lib/providerProxy';
+
+export default createProviderProxy({
+    provider: 'openai',
+    name: 'OpenAI',
+    url: 'https://api.openai.com/v1/chat/completions',
+    buildHeaders: (apiKey) => ({ 'Authorization': `Bearer ${apiKey}` }),
+});
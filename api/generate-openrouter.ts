@@ -0,0 +1,13 @@
+// api/generate-openrouter.ts
+import { createProviderProxy } from './_lib/providerProxy';
+
+export default createProviderProxy({
+    provider: 'openrouter',
+    name: 'OpenRouter',
+    url: 'https://openrouter.ai/api/v1/chat/completions',
+    buildHeaders: (apiKey) => ({
+        'Authorization': `Bearer ${apiKey}`,
+        'HTTP-Referer': 'https://mominai.vercel.app/',
+        'X-Title': 'MominAI',
+    }),
+});
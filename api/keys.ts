@@ -0,0 +1,67 @@
+// api/keys.ts
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { authenticateRequest } from './_lib/auth';
+import { encryptKey, hasSharedKey, keyHint, VAULT_PROVIDERS } from './_lib/keyVault';
+
+// Manages the caller's stored provider keys. Keys are write-only from the browser's point of view:
+// GET reports which providers have a key (with a short hint), never the key itself.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+    if (!['GET', 'PUT', 'DELETE'].includes(req.method || '')) {
+        res.setHeader('Allow', ['GET', 'PUT', 'DELETE']);
+        return res.status(405).end(`Method ${req.method} Not Allowed`);
+    }
+
+    try {
+        const auth = await authenticateRequest(req, res);
+        if (!auth) return;
+        const { user, supabaseAdmin } = auth;
+
+        if (req.method === 'GET') {
+            const { data, error } = await supabaseAdmin
+                .from('provider_keys')
+                .select('provider, key_hint, updated_at')
+                .eq('user_id', user.id);
+            if (error) throw error;
+
+            // Providers the server can serve with its own key, for users who haven't added one.
+            const shared = Object.keys(VAULT_PROVIDERS).filter(hasSharedKey);
+            return res.status(200).json({ keys: data || [], shared });
+        }
+
+        const provider = req.method === 'PUT' ? req.body?.provider : req.query.provider;
+        if (typeof provider !== 'string' || !(provider in VAULT_PROVIDERS)) {
+            return res.status(400).json({ error: `Unknown provider: ${provider}` });
+        }
+
+        if (req.method === 'DELETE') {
+            const { error } = await supabaseAdmin
+                .from('provider_keys')
+                .delete()
+                .eq('user_id', user.id)
+                .eq('provider', provider);
+            if (error) throw error;
+            return res.status(204).end();
+        }
+
+        const key = typeof req.body?.key === 'string' ? req.body.key.trim() : '';
+        if (!key) {
+            return res.status(400).json({ error: 'Missing key.' });
+        }
+        const { error } = await supabaseAdmin
+            .from('provider_keys')
+            .upsert({
+                user_id: user.id,
+                provider,
+                ...encryptKey(key),
+                key_hint: keyHint(key),
+                updated_at: new Date().toISOString(),
+            });
+        if (error) throw error;
+        return res.status(200).json({ provider, key_hint: keyHint(key) });
+
+    } catch (error) {
+        console.error('Error in key vault function:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An internal server error occurred.';
+        return res.status(500).json({ error: errorMessage });
+    }
+}
@@ -0,0 +1,45 @@
+// api/search-pexels.ts
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { authenticateRequest } from './_lib/auth';
+import { getProviderKey } from './_lib/keyVault';
+
+const ORIENTATIONS = ['landscape', 'portrait', 'square'];
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+    if (req.method !== 'GET') {
+        res.setHeader('Allow', ['GET']);
+        return res.status(405).end(`Method ${req.method} Not Allowed`);
+    }
+
+    try {
+        // 1. Authenticate user
+        const auth = await authenticateRequest(req, res);
+        if (!auth) return;
+
+        // 2. Validate query
+        const query = typeof req.query.query === 'string' ? req.query.query : '';
+        if (!query) {
+            return res.status(400).json({ error: 'Missing query parameter.' });
+        }
+        const orientation = ORIENTATIONS.includes(req.query.orientation as string) ? req.query.orientation as string : 'landscape';
+
+        // 3. Get the Pexels key
+        const apiKey = await getProviderKey(auth.supabaseAdmin, auth.user.id, 'pexels');
+        if (!apiKey) {
+            return res.status(400).json({ error: 'Pexels API key not found. Add one in Manage API Keys.' });
+        }
+
+        // 4. Search
+        const params = new URLSearchParams({ query, orientation, per_page: '1' });
+        const upstream = await fetch(`https://api.pexels.com/v1/search?${params}`, {
+            headers: { 'Authorization': apiKey },
+        });
+        const data = await upstream.json();
+        return res.status(upstream.status).json(data);
+
+    } catch (error) {
+        console.error('Error in Pexels search:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An internal server error occurred.';
+        return res.status(500).json({ error: errorMessage });
+    }
+}
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import type { AIAction, AITask, TaskStatus } from '../types';
 import {
     SparklesIcon, ListChecksIcon, TerminalIcon, EyeIcon, FilePlus2Icon,
@@ -138,6 +138,34 @@ const TaskJournal: React.FC<{ tasks: AITask[], isLoading: boolean }> = ({ tasks,
 
 // --- Action Journal (Original) ---
 
+// Output of a `run_command` call, streamed in while it runs. Long output is scrolled to its end,
+// where errors and summaries usually are.
+const CommandOutput: React.FC<{ action: AIAction }> = ({ action }) => {
+    const [isOpen, setIsOpen] = useState(true);
+    const preRef = useRef<HTMLPreElement>(null);
+
+    useEffect(() => {
+        if (preRef.current) preRef.current.scrollTop = preRef.current.scrollHeight;
+    }, [action.output, isOpen]);
+
+    const exitLabel = action.exitCode === undefined ? null : action.exitCode === null ? 'killed' : `exit ${action.exitCode}`;
+
+    return (
+        <div className="mb-2 ml-8 text-xs">
+            <div className="flex items-center text-gray-400 dark:text-gray-400 cursor-pointer" onClick={() => setIsOpen(!isOpen)}>
+                {isOpen ? <ChevronUpIcon className="w-4 h-4" /> : <ChevronDownIcon className="w-4 h-4" />}
+                <span className="ml-1">Output</span>
+                {exitLabel && (
+                    <span className={`ml-2 font-mono ${action.exitCode === 0 ? 'text-green-400' : 'text-red-400'}`}>{exitLabel}</span>
+                )}
+            </div>
+            {isOpen && action.output && (
+                <pre ref={preRef} className="mt-1 max-h-48 overflow-auto bg-black/30 rounded p-2 font-mono text-gray-300 whitespace-pre-wrap break-all">{action.output}</pre>
+            )}
+        </div>
+    );
+};
+
 const ActionRow: React.FC<{ action: AIAction }> = ({ action }) => {
     const { icon, text, pill } = getActionDetails(action);
     const hasLink = action.type === 'WRITE' || action.type === 'EDIT';
@@ -145,12 +173,15 @@ const ActionRow: React.FC<{ action: AIAction }> = ({ action }) => {
     if (!text) return null;
 
     return (
-        <div className="flex items-center text-sm mb-2 group">
-            <div className="w-6">{icon}</div>
-            <span className="ml-2 text-gray-200 dark:text-gray-200">{text}</span>
-            {pill && <span className="ml-2 px-2 py-0.5 bg-black/20 dark:bg-black/30 text-gray-200 dark:text-gray-200 rounded-md font-mono text-xs">{pill}</span>}
-            <div className="flex-grow"></div>
-        </div>
+        <>
+            <div className="flex items-center text-sm mb-2 group">
+                <div className="w-6">{icon}</div>
+                <span className="ml-2 text-gray-200 dark:text-gray-200">{text}</span>
+                {pill && <span className="ml-2 px-2 py-0.5 bg-black/20 dark:bg-black/30 text-gray-200 dark:text-gray-200 rounded-md font-mono text-xs">{pill}</span>}
+                <div className="flex-grow"></div>
+            </div>
+            {action.type === 'COMMAND' && action.output !== undefined && <CommandOutput action={action} />}
+        </>
     );
 };
 
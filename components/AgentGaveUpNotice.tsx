@@ -0,0 +1,72 @@
+import React from 'react';
+import { AiProvider } from '../types';
+import { listProviders } from '../services/providers/registry';
+import { XCircleIcon } from './icons/Icons';
+
+export interface AgentGaveUpState {
+  reason: string;
+  lastBuildError?: string;
+}
+
+interface AgentGaveUpNoticeProps {
+  state: AgentGaveUpState;
+  aiProvider: AiProvider;
+  onAiProviderChange: (provider: AiProvider) => void;
+  onContinue: () => void;
+  onRollBack: () => void;
+  onDismiss: () => void;
+}
+
+// Build logs can be long; the end of the output is where the errors are.
+const MAX_ERROR_CHARS = 2000;
+
+// Shown above the prompt when a run hits one of the limits in Settings > Run Limits.
+const AgentGaveUpNotice: React.FC<AgentGaveUpNoticeProps> = ({
+  state,
+  aiProvider,
+  onAiProviderChange,
+  onContinue,
+  onRollBack,
+  onDismiss
+}) => {
+  const buildError = state.lastBuildError && state.lastBuildError.length > MAX_ERROR_CHARS
+    ? `...${state.lastBuildError.slice(-MAX_ERROR_CHARS)}`
+    : state.lastBuildError;
+
+  return (
+    <div className="mb-3 bg-red-900/20 border border-red-500/40 rounded-lg p-3 text-sm">
+      <div className="flex items-start justify-between">
+        <div>
+          <p className="font-medium text-red-300">MominAI gave up</p>
+          <p className="text-brand-muted mt-0.5">{state.reason}</p>
+        </div>
+        <button type="button" onClick={onDismiss} className="text-brand-muted hover:text-white" title="Dismiss">
+          <XCircleIcon className="w-4 h-4" />
+        </button>
+      </div>
+      {buildError && (
+        <pre className="mt-2 max-h-40 overflow-auto bg-black/30 rounded p-2 text-xs text-red-200 whitespace-pre-wrap">{buildError}</pre>
+      )}
+      <div className="flex flex-wrap items-center gap-2 mt-3">
+        <button type="button" onClick={onContinue} className="bg-gray-200 text-black rounded-md px-3 py-1 hover:bg-white">
+          Continue
+        </button>
+        <select
+          value={aiProvider}
+          onChange={e => onAiProviderChange(e.target.value as AiProvider)}
+          className="bg-brand-surface text-white rounded-md px-2 py-1 border border-brand-subtle"
+          title="Switch provider before continuing"
+        >
+          {listProviders().filter(a => a.id === aiProvider || a.hasApiKey()).map(adapter => (
+            <option key={adapter.id} value={adapter.id}>{adapter.name}</option>
+          ))}
+        </select>
+        <button type="button" onClick={onRollBack} className="text-red-300 border border-red-500/40 rounded-md px-3 py-1 hover:bg-red-900/30">
+          Roll back this run
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AgentGaveUpNotice;
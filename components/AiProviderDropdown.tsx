@@ -1,41 +1,45 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { AiProvider } from '../types';
-import { GeminiIcon, OpenAIIcon, ClaudeIcon, GroqIcon, OpenRouterIcon, ChevronDownIcon, SettingsIcon } from './icons/Icons';
+import { AiProvider, ModelSettings } from '../types';
+import { GeminiIcon, OpenAIIcon, ClaudeIcon, GroqIcon, OpenRouterIcon, ChevronDownIcon, SettingsIcon, TerminalIcon } from './icons/Icons';
+import { getProvider, listProviders, resolveProvider } from '../services/providers/registry';
+import { keyVaultService } from '../services/keyVaultService';
 
 interface AiProviderDropdownProps {
   selectedProvider: AiProvider;
   onProviderChange: (provider: AiProvider) => void;
   onManageKeysClick: () => void;
+  // When provided, the dropdown also lets the user pick the model and tune its parameters.
+  modelSettings?: ModelSettings;
+  onModelSettingsChange?: (settings: ModelSettings) => void;
 }
 
-const providerDetails: Record<AiProvider, { name: string; icon: React.FC<{className?:string}> }> = {
-  gemini: { name: 'Gemini', icon: GeminiIcon },
-  openrouter: { name: 'OpenRouter', icon: OpenRouterIcon },
-  openai: { name: 'OpenAI', icon: OpenAIIcon },
-  claude: { name: 'Claude', icon: ClaudeIcon },
-  groq: { name: 'Groq', icon: GroqIcon },
+// Brand icons for the built-in providers; configured local servers get a generic icon.
+const providerIcons: Record<string, React.FC<{className?:string}>> = {
+  gemini: GeminiIcon,
+  openrouter: OpenRouterIcon,
+  openai: OpenAIIcon,
+  claude: ClaudeIcon,
+  groq: GroqIcon,
 };
 
-const AiProviderDropdown: React.FC<AiProviderDropdownProps> = ({ selectedProvider, onProviderChange, onManageKeysClick }) => {
+const getProviderIcon = (provider: AiProvider) => providerIcons[provider] || TerminalIcon;
+
+const checkAvailableKeys = (): Record<string, boolean> =>
+  Object.fromEntries(listProviders().map(adapter => [adapter.id, adapter.hasApiKey()]));
+
+const tierLabels: Record<string, string> = { fast: 'Fast', balanced: 'Balanced', strong: 'Strong' };
+
+const AiProviderDropdown: React.FC<AiProviderDropdownProps> = ({ selectedProvider, onProviderChange, onManageKeysClick, modelSettings, onModelSettingsChange }) => {
   const [isOpen, setIsOpen] = useState(false);
-  const [availableKeys, setAvailableKeys] = useState<Record<AiProvider, boolean>>({
-      gemini: true, // Always available
-      openrouter: true, // Always available
-      openai: false,
-      claude: false,
-      groq: false,
-  });
+  const [availableKeys, setAvailableKeys] = useState<Record<string, boolean>>(checkAvailableKeys);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     const checkKeys = () => {
-        setAvailableKeys({
-            gemini: true,
-            openrouter: true,
-            openai: !!localStorage.getItem('openai_api_key'),
-            claude: !!localStorage.getItem('claude_api_key'),
-            groq: !!localStorage.getItem('groq_api_key'),
-        });
+      setAvailableKeys(checkAvailableKeys());
+      keyVaultService.refresh()
+        .then(() => setAvailableKeys(checkAvailableKeys()))
+        .catch(() => { /* Signed out (e.g. on the landing page): keep the cached status. */ });
     };
     checkKeys();
     // Re-check when window is focused in case user added a key in another tab
@@ -61,7 +65,16 @@ const AiProviderDropdown: React.FC<AiProviderDropdownProps> = ({ selectedProvide
     }
   };
 
-  const currentProvider = providerDetails[selectedProvider];
+  const currentAdapter = getProvider(resolveProvider(selectedProvider));
+  const CurrentIcon = getProviderIcon(currentAdapter.id);
+  const currentModel = modelSettings && currentAdapter.models.find(m => m.id === modelSettings.model);
+
+  const updateSettings = (update: Partial<ModelSettings>) => {
+    if (!modelSettings || !onModelSettingsChange) return;
+    onModelSettingsChange({ ...modelSettings, ...update });
+  };
+
+  const parseOptionalNumber = (value: string): number | undefined => value === '' ? undefined : Number(value);
 
   return (
     <div className="relative" ref={dropdownRef}>
@@ -69,29 +82,79 @@ const AiProviderDropdown: React.FC<AiProviderDropdownProps> = ({ selectedProvide
         onClick={() => setIsOpen(!isOpen)}
         className="flex items-center space-x-2 bg-brand-surface text-white rounded-md py-1 px-2 border border-brand-subtle hover:border-brand-muted"
       >
-        <currentProvider.icon className="w-4 h-4" />
-        <span className="text-sm">{currentProvider.name}</span>
+        <CurrentIcon className="w-4 h-4" />
+        <span className="text-sm">{currentAdapter.name}</span>
+        {currentModel && <span className="text-xs text-brand-muted hidden sm:inline">{currentModel.name}</span>}
         <ChevronDownIcon className={`w-4 h-4 text-brand-muted transition-transform ${isOpen ? 'rotate-180' : ''}`} />
       </button>
 
       {isOpen && (
-        <div className="absolute bottom-full mb-2 w-48 bg-brand-surface rounded-lg border border-brand-subtle shadow-2xl z-20 overflow-hidden">
+        <div className={`absolute bottom-full mb-2 ${modelSettings ? 'w-64' : 'w-48'} bg-brand-surface rounded-lg border border-brand-subtle shadow-2xl z-20 overflow-hidden`}>
           <div className="p-1">
-            {(Object.keys(providerDetails) as AiProvider[]).map((provider) => {
-              const details = providerDetails[provider];
+            {listProviders().map((adapter) => {
+              const Icon = getProviderIcon(adapter.id);
               return (
                 <button
-                  key={provider}
-                  onClick={() => handleSelect(provider)}
+                  key={adapter.id}
+                  onClick={() => handleSelect(adapter.id)}
                   className="w-full flex items-center space-x-2 p-2 text-left text-sm text-white rounded-md hover:bg-brand-accent/30"
                 >
-                  <details.icon className="w-4 h-4" />
-                  <span>{details.name}</span>
-                  {!availableKeys[provider] && <div className="w-2 h-2 rounded-full bg-yellow-500 ml-auto" title="API Key missing"></div>}
+                  <Icon className="w-4 h-4" />
+                  <span>{adapter.name}</span>
+                  {!availableKeys[adapter.id] && <div className="w-2 h-2 rounded-full bg-yellow-500 ml-auto" title="API Key missing"></div>}
                 </button>
               );
             })}
           </div>
+          {modelSettings && onModelSettingsChange && (
+            <div className="border-t border-brand-subtle p-2 space-y-2 text-xs text-brand-muted">
+              <label className="block">
+                <span>Model</span>
+                <select
+                  value={modelSettings.model}
+                  onChange={e => updateSettings({ model: e.target.value })}
+                  className="mt-1 w-full bg-brand-bg text-white rounded-md p-1 border border-brand-subtle"
+                >
+                  {currentAdapter.models.map(model => (
+                    <option key={model.id} value={model.id}>
+                      {model.name}{model.tier ? ` · ${tierLabels[model.tier]}` : ''}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block">
+                <span>Temperature {modelSettings.temperature ?? 'default'}</span>
+                <input
+                  type="range" min={0} max={1} step={0.05}
+                  value={modelSettings.temperature ?? 0.5}
+                  onChange={e => updateSettings({ temperature: Number(e.target.value) })}
+                  className="w-full"
+                />
+              </label>
+              <label className="block">
+                <span>Max output tokens</span>
+                <input
+                  type="number" min={256} max={currentModel?.maxOutputTokens}
+                  placeholder="default"
+                  value={modelSettings.maxOutputTokens ?? ''}
+                  onChange={e => updateSettings({ maxOutputTokens: parseOptionalNumber(e.target.value) })}
+                  className="mt-1 w-full bg-brand-bg text-white rounded-md p-1 border border-brand-subtle"
+                />
+              </label>
+              {currentModel?.supportsThinking && (
+                <label className="block">
+                  <span>Thinking budget (tokens)</span>
+                  <input
+                    type="number" min={0} step={1024}
+                    placeholder="off"
+                    value={modelSettings.thinkingBudget ?? ''}
+                    onChange={e => updateSettings({ thinkingBudget: parseOptionalNumber(e.target.value) })}
+                    className="mt-1 w-full bg-brand-bg text-white rounded-md p-1 border border-brand-subtle"
+                  />
+                </label>
+              )}
+            </div>
+          )}
           <div className="border-t border-brand-subtle p-1">
              <button
                 onClick={() => {
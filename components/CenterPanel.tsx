@@ -2,7 +2,11 @@ import React, { useState, useRef, useCallback } from 'react';
 import FileExplorer from './FileExplorer';
 import CodeEditor from './CodeEditor';
 import WebContainerPreview from './WebContainerPreview';
-import { FileSystem } from '../types';
+import TerminalPanel from './TerminalPanel';
+import { Diagnostic, FileSystem, RuntimeError, TestRunResult } from '../types';
+import { TerminalSessions } from '../hooks/useTerminalSessions';
+import { TestFilter } from '../utils/testResultsUtils';
+import { RemoteCursor } from '../hooks/useCollaboration';
 
 interface CenterPanelProps {
   fileSystem: FileSystem;
@@ -14,6 +18,21 @@ interface CenterPanelProps {
   isBuilding: boolean;
   iframeUrl: string;
   previewStatus: string;
+  terminal: TerminalSessions;
+  canOpenShell: boolean;
+  onOpenShell: () => Promise<string | null>;
+  diagnostics: Diagnostic[];
+  testResults: TestRunResult | null;
+  isRunningTests: boolean;
+  testRunError: string | null;
+  onRunTests: (filter: TestFilter) => void;
+  runtimeErrors: RuntimeError[];
+  onClearRuntimeErrors: () => void;
+  onFixRuntimeErrors?: () => void;
+  // Collaboration: whether the files can't be edited right now, and where collaborators' cursors are.
+  isReadOnly?: boolean;
+  remoteCursors?: RemoteCursor[];
+  onCursorChange?: (path: string, anchor: number, head: number) => void;
 }
 
 const CenterPanel: React.FC<CenterPanelProps> = ({
@@ -26,9 +45,26 @@ const CenterPanel: React.FC<CenterPanelProps> = ({
   isBuilding,
   iframeUrl,
   previewStatus,
+  terminal,
+  canOpenShell,
+  onOpenShell,
+  diagnostics,
+  testResults,
+  isRunningTests,
+  testRunError,
+  onRunTests,
+  runtimeErrors,
+  onClearRuntimeErrors,
+  onFixRuntimeErrors,
+  isReadOnly,
+  remoteCursors,
+  onCursorChange,
 }) => {
   const [explorerWidth, setExplorerWidth] = useState(256);
   const [mobileCodeView, setMobileCodeView] = useState<'explorer' | 'editor'>('explorer');
+  // Line to scroll to in the editor after picking a search result. `key` makes picking the same
+  // line twice reveal it again.
+  const [revealLine, setRevealLine] = useState<{ path: string; line: number; key: number } | null>(null);
 
   const isResizing = useRef(false);
 
@@ -57,6 +93,13 @@ const CenterPanel: React.FC<CenterPanelProps> = ({
   }, [handleResize, stopResize]);
 
 
+  const openAtLine = (path: string, line: number) => {
+    onFileSelect(path);
+    setRevealLine({ path, line, key: Date.now() });
+    setMobileCodeView('editor');
+    onViewModeChange('code');
+  };
+
   const handleCodeChange = (newContent: string) => {
     if (activeFile) {
         onFileSystemChange({
@@ -86,6 +129,7 @@ const CenterPanel: React.FC<CenterPanelProps> = ({
                   onFileSelect(path); 
                   setMobileCodeView('editor'); 
                 }}
+                onSearchResultSelect={openAtLine}
             />
           </div>
           <div onMouseDown={startResize} className="resizer hidden md:block" />
@@ -100,18 +144,40 @@ const CenterPanel: React.FC<CenterPanelProps> = ({
                 code={activeFile ? fileSystem[activeFile] : '// Select a file to view its content'}
                 onCodeChange={handleCodeChange}
                 filePath={activeFile}
+                revealLine={revealLine}
+                diagnostics={diagnostics.filter(d => d.file === activeFile)}
                 onShowExplorer={() => setMobileCodeView('explorer')}
+                readOnly={isReadOnly}
+                remoteCursors={remoteCursors?.filter(cursor => cursor.path === activeFile)}
+                onCursorChange={onCursorChange}
             />
           </div>
         </div>
       ) : (
-        <div className="flex-grow p-4 h-full">
+        <div className="flex-grow p-4 min-h-0">
             <WebContainerPreview 
               iframeUrl={iframeUrl}
               status={previewStatus}
+              runtimeErrors={runtimeErrors}
+              onFixRuntimeErrors={onFixRuntimeErrors}
             />
         </div>
       )}
+      <TerminalPanel
+        terminal={terminal}
+        canOpenShell={canOpenShell}
+        onOpenShell={onOpenShell}
+        diagnostics={diagnostics}
+        onDiagnosticSelect={openAtLine}
+        testResults={testResults}
+        isRunningTests={isRunningTests}
+        testRunError={testRunError}
+        onRunTests={onRunTests}
+        onTestFileSelect={path => openAtLine(path, 1)}
+        runtimeErrors={runtimeErrors}
+        onClearRuntimeErrors={onClearRuntimeErrors}
+        onFixRuntimeErrors={onFixRuntimeErrors}
+      />
     </div>
   );
 };
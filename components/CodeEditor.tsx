@@ -1,12 +1,28 @@
-import React from 'react';
+import React, { useCallback, useEffect, useLayoutEffect, useRef } from 'react';
 import { ChevronLeft } from 'lucide-react';
-import { Editor } from '@monaco-editor/react';
+import { Editor, OnMount } from '@monaco-editor/react';
+import { Diagnostic } from '../types';
+import { RemoteCursor } from '../hooks/useCollaboration';
+import { diffText } from '../utils/yjsUtils';
+
+type MonacoEditor = Parameters<OnMount>[0];
+type Monaco = Parameters<OnMount>[1];
+type Decorations = NonNullable<Parameters<MonacoEditor['createDecorationsCollection']>[0]>;
 
 interface CodeEditorProps {
   code: string;
   onCodeChange: (newCode: string | undefined) => void;
   filePath: string | null;
+  revealLine?: { path: string; line: number; key: number } | null;
+  // Diagnostics for this file, shown as markers.
+  diagnostics?: Diagnostic[];
   onShowExplorer?: () => void;
+  // Set while a collaborator's agent run is changing the files.
+  readOnly?: boolean;
+  // Collaborators' cursors in this file.
+  remoteCursors?: RemoteCursor[];
+  // Offsets of the selection's anchor and head whenever it moves.
+  onCursorChange?: (path: string, anchor: number, head: number) => void;
 }
 
 const getLanguageForPath = (path: string | null): string => {
@@ -32,7 +48,117 @@ const getLanguageForPath = (path: string | null): string => {
   }
 };
 
-const CodeEditor: React.FC<CodeEditorProps> = ({ code, onCodeChange, filePath, onShowExplorer }) => {
+const CodeEditor: React.FC<CodeEditorProps> = ({ code, onCodeChange, filePath, revealLine, diagnostics, onShowExplorer, readOnly, remoteCursors, onCursorChange }) => {
+  const editorRef = useRef<MonacoEditor | null>(null);
+  const monacoRef = useRef<Monaco | null>(null);
+  const revealedKeyRef = useRef<number | null>(null);
+  const decorationsRef = useRef<ReturnType<MonacoEditor['createDecorationsCollection']> | null>(null);
+  const codeRef = useRef(code);
+  codeRef.current = code;
+  const filePathRef = useRef(filePath);
+  filePathRef.current = filePath;
+  const renderedPathRef = useRef(filePath);
+  const onCursorChangeRef = useRef(onCursorChange);
+  onCursorChangeRef.current = onCursorChange;
+
+  // Changes that didn't come from typing here (collaborators, the agent) are applied as the
+  // smallest edit rather than by replacing the whole text, so the cursor and scroll position stay.
+  // Runs before the Editor's own value sync, which then finds nothing to do.
+  useLayoutEffect(() => {
+    const model = editorRef.current?.getModel();
+    const monaco = monacoRef.current;
+    const isSameFile = renderedPathRef.current === filePath;
+    renderedPathRef.current = filePath;
+    if (!model || !monaco || !isSameFile) return;
+    const change = diffText(model.getValue(), code);
+    if (!change) return;
+    const start = model.getPositionAt(change.index);
+    const end = model.getPositionAt(change.index + change.deleteCount);
+    model.applyEdits([{ range: new monaco.Range(start.lineNumber, start.column, end.lineNumber, end.column), text: change.insert }]);
+  }, [code, filePath]);
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    const model = editor?.getModel();
+    const monaco = monacoRef.current;
+    if (!editor || !model || !monaco) return;
+    if (!decorationsRef.current) decorationsRef.current = editor.createDecorationsCollection();
+    decorationsRef.current.set((remoteCursors || []).flatMap(cursor => {
+      const length = model.getValueLength();
+      const head = model.getPositionAt(Math.min(cursor.head, length));
+      const anchor = model.getPositionAt(Math.min(cursor.anchor, length));
+      const [from, to] = cursor.anchor <= cursor.head ? [anchor, head] : [head, anchor];
+      const decorations: Decorations = [{
+        range: new monaco.Range(head.lineNumber, head.column, head.lineNumber, head.column),
+        options: {
+          beforeContentClassName: `remote-cursor remote-cursor-${cursor.color}`,
+          stickiness: monaco.editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges,
+        },
+      }, {
+        range: new monaco.Range(head.lineNumber, 1, head.lineNumber, model.getLineMaxColumn(head.lineNumber)),
+        options: { hoverMessage: { value: cursor.name } },
+      }];
+      if (cursor.anchor !== cursor.head) {
+        decorations.push({
+          range: new monaco.Range(from.lineNumber, from.column, to.lineNumber, to.column),
+          options: { className: `remote-selection remote-selection-${cursor.color}` },
+        });
+      }
+      return decorations;
+    }));
+  }, [remoteCursors, code, filePath]);
+
+  // Ignores the change events from applying `code` above, which aren't edits made here.
+  const handleChange = useCallback((value: string | undefined) => {
+    if (value !== codeRef.current) onCodeChange(value);
+  }, [onCodeChange]);
+
+  const handleMount: OnMount = (editor, monaco) => {
+    editorRef.current = editor;
+    monacoRef.current = monaco;
+    editor.onDidChangeCursorSelection(event => {
+      const model = editor.getModel();
+      const path = filePathRef.current;
+      if (!model || !path) return;
+      const { selection } = event;
+      onCursorChangeRef.current?.(
+        path,
+        model.getOffsetAt({ lineNumber: selection.selectionStartLineNumber, column: selection.selectionStartColumn }),
+        model.getOffsetAt(selection.getPosition())
+      );
+    });
+  };
+
+  useEffect(() => {
+    const model = editorRef.current?.getModel();
+    const monaco = monacoRef.current;
+    if (!model || !monaco) return;
+    monaco.editor.setModelMarkers(model, 'mominai', (diagnostics || []).map(d => {
+      const line = Math.min(Math.max(d.line, 1), model.getLineCount());
+      const word = model.getWordAtPosition({ lineNumber: line, column: d.column });
+      return {
+        startLineNumber: line,
+        startColumn: d.column,
+        endLineNumber: line,
+        endColumn: word ? word.endColumn : model.getLineMaxColumn(line),
+        message: d.message,
+        code: d.code,
+        source: d.source,
+        severity: d.severity === 'error' ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
+      };
+    }));
+  }, [diagnostics, filePath]);
+
+  // Waits until the Editor has switched to the target file's model, and reveals each request once.
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor || !revealLine || revealLine.path !== filePath || revealedKeyRef.current === revealLine.key) return;
+    revealedKeyRef.current = revealLine.key;
+    editor.revealLineInCenter(revealLine.line);
+    editor.setSelection({ startLineNumber: revealLine.line, startColumn: 1, endLineNumber: revealLine.line, endColumn: editor.getModel()?.getLineMaxColumn(revealLine.line) ?? 1 });
+    editor.focus();
+  }, [revealLine, filePath]);
+
   return (
     <div className="flex-grow flex flex-col h-full bg-ide-bg-darker">
        <div className="flex-shrink-0 h-10 bg-ide-bg border-b border-brand-subtle flex items-center">
@@ -49,7 +175,8 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ code, onCodeChange, filePath, o
           path={filePath || 'untitled'}
           language={getLanguageForPath(filePath)}
           value={code}
-          onChange={onCodeChange}
+          onChange={handleChange}
+          onMount={handleMount}
           theme="vs-dark"
           defaultValue="// Select a file to view its content"
           options={{
@@ -59,6 +186,8 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ code, onCodeChange, filePath, o
             wordWrap: 'on',
             scrollBeyondLastLine: false,
             automaticLayout: true,
+            readOnly,
+            readOnlyMessage: { value: 'A collaborator is running MominAI. The files can be edited again once it has finished.' },
           }}
           loading={<div className="text-brand-muted">Loading editor...</div>}
         />
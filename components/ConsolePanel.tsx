@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { RuntimeError } from '../types';
+import { getRuntimeErrorLabel } from '../utils/previewUtils';
+import { XCircleIcon, AlertTriangleIcon, ChevronDownIcon, ChevronRightIcon, SparklesIcon } from './icons/Icons';
+
+interface ConsolePanelProps {
+  errors: RuntimeError[];
+  onClear: () => void;
+  // Absent while the agent is busy.
+  onFix?: () => void;
+}
+
+// Runtime errors reported by the preview since it last loaded.
+const ConsolePanel: React.FC<ConsolePanelProps> = ({ errors, onClear, onFix }) => {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const toggle = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <div className="h-full flex flex-col text-xs">
+      <div className="flex items-center space-x-2 px-2 py-1 border-b border-brand-subtle text-brand-muted">
+        <button
+          type="button"
+          onClick={onFix}
+          disabled={!onFix || errors.length === 0}
+          className="flex items-center space-x-1 px-2 py-0.5 rounded bg-brand-surface text-white hover:bg-brand-surface/70 disabled:opacity-50"
+          title={onFix ? 'Send these errors to MominAI' : 'Available once MominAI has finished'}
+        >
+          <SparklesIcon className="w-3 h-3" />
+          <span>Fix with MominAI</span>
+        </button>
+        <button type="button" onClick={onClear} disabled={errors.length === 0} className="px-2 py-0.5 rounded hover:text-white disabled:opacity-50">
+          Clear
+        </button>
+      </div>
+      <div className="flex-grow overflow-y-auto p-1">
+        {errors.length === 0 && <p className="p-2 text-brand-muted">No runtime errors reported by the preview.</p>}
+        {errors.map(error => {
+          const isExpanded = expanded.has(error.id);
+          return (
+            <div key={error.id}>
+              <div
+                onClick={() => error.stack && toggle(error.id)}
+                className={`flex items-start space-x-1.5 px-1 py-0.5 rounded hover:bg-brand-surface/50 ${error.stack ? 'cursor-pointer' : ''}`}
+              >
+                {error.kind === 'console'
+                  ? <AlertTriangleIcon className="w-3.5 h-3.5 mt-px text-yellow-400 flex-shrink-0" />
+                  : <XCircleIcon className="w-3.5 h-3.5 mt-px text-red-400 flex-shrink-0" />}
+                <span className="text-brand-muted whitespace-nowrap">{getRuntimeErrorLabel(error)}</span>
+                <span className="text-gray-200 break-words min-w-0 flex-grow">{error.message}</span>
+                {error.count > 1 && <span className="px-1.5 rounded-full bg-brand-surface text-brand-muted">{error.count}</span>}
+                {error.stack && (isExpanded
+                  ? <ChevronDownIcon className="w-3.5 h-3.5 mt-px text-brand-muted flex-shrink-0" />
+                  : <ChevronRightIcon className="w-3.5 h-3.5 mt-px text-brand-muted flex-shrink-0" />)}
+              </div>
+              {isExpanded && error.stack && (
+                <pre className="ml-5 mr-1 mb-1 p-2 rounded bg-black/30 text-red-200 whitespace-pre-wrap break-words">{error.stack}</pre>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ConsolePanel;
@@ -1,10 +1,10 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { AiProvider, Project } from '../types';
+import { AiProvider, ProjectSummary } from '../types';
 import AiProviderDropdown from './AiProviderDropdown';
 // FIX: Changed import from Settings to SettingsIcon to match the exported component from ./icons/Icons.
 import { ArrowUpIcon, CodeBracketIcon, PlusIcon, MicrophoneIcon, XCircleIcon, SettingsIcon } from './icons/Icons';
-import { projectService } from '../services/projectService';
+import { syncService } from '../services/syncService';
 import { fileToBase64 } from '../utils/fileUtils';
 
 // SpeechRecognition types for browsers that support it.
@@ -28,25 +28,29 @@ declare global {
 
 interface DashboardProps {
   onNewProject: (prompt: string, provider: AiProvider, attachments: { mimeType: string; data: string }[]) => void;
-  onLoadProject: (project: Project) => void;
+  onLoadProject: (project: ProjectSummary) => void;
   onManageKeysClick: () => void;
 }
 
-const ProjectList: React.FC<{ projects: Project[], onLoadProject: (p: Project) => void }> = ({ projects, onLoadProject }) => (
-    <div className="mt-8 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-        {projects.map(p => (
-            <div key={p.id} className="bg-brand-surface border border-brand-subtle rounded-lg p-4 text-left hover:border-brand-accent/50 transition-colors cursor-pointer group" onClick={() => onLoadProject(p)}>
-                <div className="w-full aspect-video bg-ide-bg-darker rounded-md mb-4 flex items-center justify-center">
-                    <CodeBracketIcon className="w-10 h-10 text-brand-subtle group-hover:text-brand-accent transition-colors"/>
+const ProjectList: React.FC<{ projects: ProjectSummary[], onLoadProject: (p: ProjectSummary) => void }> = ({ projects, onLoadProject }) => {
+    const { user } = useAuth();
+    return (
+        <div className="mt-8 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+            {projects.map(p => (
+                <div key={p.id} className="bg-brand-surface border border-brand-subtle rounded-lg p-4 text-left hover:border-brand-accent/50 transition-colors cursor-pointer group" onClick={() => onLoadProject(p)}>
+                    <div className="w-full aspect-video bg-ide-bg-darker rounded-md mb-4 flex items-center justify-center">
+                        <CodeBracketIcon className="w-10 h-10 text-brand-subtle group-hover:text-brand-accent transition-colors"/>
+                    </div>
+                    <h3 className="font-semibold text-white truncate">{p.name}</h3>
+                    <p className="text-xs text-brand-muted">
+                        Edited {new Date(p.updated_at).toLocaleDateString()}
+                        {p.user_id !== user?.id && <span className="ml-2 px-1.5 py-0.5 rounded bg-brand-accent/20 text-brand-accent">Shared</span>}
+                    </p>
                 </div>
-                <h3 className="font-semibold text-white truncate">{p.name}</h3>
-                <p className="text-xs text-brand-muted">
-                    Edited {new Date(p.updated_at).toLocaleDateString()}
-                </p>
-            </div>
-        ))}
-    </div>
-);
+            ))}
+        </div>
+    );
+};
 
 
 const UserProfile: React.FC<{ onManageKeysClick: () => void }> = ({ onManageKeysClick }) => {
@@ -105,7 +109,7 @@ const UserProfile: React.FC<{ onManageKeysClick: () => void }> = ({ onManageKeys
 const Dashboard: React.FC<DashboardProps> = ({ onNewProject, onLoadProject, onManageKeysClick }) => {
   const [prompt, setPrompt] = useState('');
   const [aiProvider, setAiProvider] = useState<AiProvider>('gemini');
-  const [projects, setProjects] = useState<Project[]>([]);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
   const [isLoadingProjects, setIsLoadingProjects] = useState(true);
   
   const [attachments, setAttachments] = useState<File[]>([]);
@@ -118,7 +122,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onNewProject, onLoadProject, onMa
   useEffect(() => {
       const fetchProjects = async () => {
           try {
-              const userProjects = await projectService.getProjectsForUser();
+              const userProjects = await syncService.getProjects();
               setProjects(userProjects);
           } catch (error) {
               console.error("Failed to fetch projects:", error);
@@ -1,11 +1,13 @@
 import React, { useMemo, useState } from 'react';
 import { FileSystem, FileNode } from '../types';
 import { FileIcon, FolderIcon, ChevronDownIcon, ChevronRightIcon, MagnifyingGlassIcon } from './icons/Icons';
+import SearchPanel from './SearchPanel';
 
 interface FileExplorerProps {
   fileSystem: FileSystem;
   activeFile: string | null;
   onFileSelect: (path: string) => void;
+  onSearchResultSelect: (path: string, line: number) => void;
 }
 
 const buildFileTree = (fileSystem: FileSystem): FileNode[] => {
@@ -82,26 +84,44 @@ const FileTree: React.FC<{ node: FileNode; activeFile: string | null; onFileSele
   }
 };
 
-const FileExplorer: React.FC<FileExplorerProps> = ({ fileSystem, activeFile, onFileSelect }) => {
-  const fileTree = useMemo(() => buildFileTree(fileSystem), [fileSystem]);
+const FileExplorer: React.FC<FileExplorerProps> = ({ fileSystem, activeFile, onFileSelect, onSearchResultSelect }) => {
+  const [tab, setTab] = useState<'files' | 'search'>('files');
+  const [fileFilter, setFileFilter] = useState('');
+
+  // The Files tab filter narrows the tree to paths containing the typed text.
+  const fileTree = useMemo(() => {
+    const filter = fileFilter.trim().toLowerCase();
+    if (!filter) return buildFileTree(fileSystem);
+    const filtered = Object.fromEntries(Object.entries(fileSystem).filter(([path]) => path.toLowerCase().includes(filter)));
+    return buildFileTree(filtered);
+  }, [fileSystem, fileFilter]);
+
+  const tabClass = (value: 'files' | 'search') =>
+    `flex-1 p-1.5 rounded-md text-sm ${tab === value ? 'bg-ide-bg-darker shadow-sm' : 'text-brand-muted hover:bg-ide-bg-darker/50'}`;
 
   return (
     <div className="h-full w-full flex-shrink-0 bg-ide-bg border-r border-brand-subtle flex flex-col text-sm">
         <div className="p-2 border-b border-brand-subtle">
             <div className="flex items-center space-x-2 bg-brand-surface p-1 rounded-lg">
-                <button className="flex-1 bg-ide-bg-darker shadow-sm p-1.5 rounded-md text-sm">Files</button>
-                <button className="flex-1 p-1.5 rounded-md text-sm text-brand-muted hover:bg-ide-bg-darker/50">Search</button>
-            </div>
-            <div className="relative mt-2">
-                <MagnifyingGlassIcon className="w-4 h-4 absolute left-2.5 top-1/2 -translate-y-1/2 text-brand-muted" />
-                <input type="text" placeholder="Search files" className="w-full bg-brand-surface/80 border border-brand-subtle rounded-lg pl-8 pr-2 py-1.5 text-sm focus:outline-none focus:ring-1 focus:ring-brand-accent"/>
+                <button className={tabClass('files')} onClick={() => setTab('files')}>Files</button>
+                <button className={tabClass('search')} onClick={() => setTab('search')}>Search</button>
             </div>
+            {tab === 'files' && (
+                <div className="relative mt-2">
+                    <MagnifyingGlassIcon className="w-4 h-4 absolute left-2.5 top-1/2 -translate-y-1/2 text-brand-muted" />
+                    <input type="text" value={fileFilter} onChange={e => setFileFilter(e.target.value)} placeholder="Filter files" className="w-full bg-brand-surface/80 border border-brand-subtle rounded-lg pl-8 pr-2 py-1.5 text-sm focus:outline-none focus:ring-1 focus:ring-brand-accent"/>
+                </div>
+            )}
         </div>
-      <div className="flex-grow p-2 overflow-y-auto">
-        {fileTree.map(node => (
-          <FileTree key={node.path} node={node} activeFile={activeFile} onFileSelect={onFileSelect} level={0} />
-        ))}
-      </div>
+      {tab === 'files' ? (
+        <div className="flex-grow p-2 overflow-y-auto">
+          {fileTree.map(node => (
+            <FileTree key={node.path} node={node} activeFile={activeFile} onFileSelect={onFileSelect} level={0} />
+          ))}
+        </div>
+      ) : (
+        <SearchPanel fileSystem={fileSystem} onResultSelect={onSearchResultSelect} />
+      )}
     </div>
   );
 };
@@ -1,7 +1,8 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { 
     ChevronLeft,
-    Settings
+    Settings,
+    History
 } from 'lucide-react';
 import { 
     EyeIcon, 
@@ -11,6 +12,9 @@ import {
     SettingsIcon
 } from './icons/Icons';
 import { useAuth } from '../contexts/AuthContext';
+import { SyncStatus } from '../services/syncService';
+import { Collaborator } from '../types';
+import { COLLABORATOR_COLORS } from '../hooks/useCollaboration';
 
 interface HeaderProps {
   projectName: string;
@@ -21,10 +25,25 @@ interface HeaderProps {
   projectUpdatedAt?: string;
   onOpenSettings: () => void;
   onOpenGithubModal: () => void;
+  onOpenVersionHistory: () => void;
+  onOpenShare: () => void;
+  // Everyone else who has the project open.
+  collaborators: Collaborator[];
   mobileView: 'chat' | 'editor';
   onMobileViewChange: (view: 'chat' | 'editor') => void;
+  syncStatus: SyncStatus;
+  syncError: string | null;
 }
 
+// Shown instead of the last save time while the project isn't in sync with Supabase.
+const SYNC_STATUS_LABELS: Record<Exclude<SyncStatus, 'synced'>, { label: string; className: string }> = {
+  pending: { label: 'Saving...', className: 'text-brand-muted' },
+  syncing: { label: 'Saving...', className: 'text-brand-muted' },
+  offline: { label: 'Offline, saved on this device', className: 'text-yellow-300' },
+  conflict: { label: 'Changed elsewhere', className: 'text-yellow-300' },
+  error: { label: 'Sync failed, retrying', className: 'text-red-300' },
+};
+
 const UserProfile: React.FC<{ onOpenSettings: () => void }> = ({ onOpenSettings }) => {
     const { user, signOut } = useAuth();
     const [isOpen, setIsOpen] = useState(false);
@@ -86,8 +105,13 @@ const Header: React.FC<HeaderProps> = ({
     projectUpdatedAt, 
     onOpenSettings,
     onOpenGithubModal,
+    onOpenVersionHistory,
+    onOpenShare,
+    collaborators,
     mobileView,
     onMobileViewChange,
+    syncStatus,
+    syncError,
 }) => {
   const [timeAgo, setTimeAgo] = useState('');
 
@@ -125,9 +149,15 @@ const Header: React.FC<HeaderProps> = ({
         </button>
         <div className="min-w-0">
           <h1 className="font-semibold text-white truncate max-w-[80px] sm:max-w-[120px] md:max-w-xs">{projectName}</h1>
-          <p className="text-xs text-brand-muted hidden sm:block">
-            {timeAgo}
-          </p>
+          {syncStatus === 'synced' ? (
+            <p className="text-xs text-brand-muted hidden sm:block">
+              {timeAgo}
+            </p>
+          ) : (
+            <p className={`text-xs hidden sm:block ${SYNC_STATUS_LABELS[syncStatus].className}`} title={syncError || undefined}>
+              {SYNC_STATUS_LABELS[syncStatus].label}
+            </p>
+          )}
         </div>
       </div>
 
@@ -168,8 +198,32 @@ const Header: React.FC<HeaderProps> = ({
       </div>
 
       <div className="flex items-center justify-end space-x-2 md:space-x-4 flex-1">
+        {collaborators.length > 0 && (
+          <div className="hidden sm:flex items-center -space-x-2">
+            {collaborators.slice(0, 4).map(collaborator => (
+              <div
+                key={collaborator.sessionId}
+                title={collaborator.isRunningAgent ? `${collaborator.name} (running MominAI)` : collaborator.name}
+                style={{ backgroundColor: COLLABORATOR_COLORS[collaborator.color] }}
+                className={`w-7 h-7 rounded-full ring-2 ring-ide-bg flex items-center justify-center text-xs font-semibold text-black ${collaborator.isRunningAgent ? 'animate-pulse' : ''}`}
+              >
+                {collaborator.name.charAt(0).toUpperCase()}
+              </div>
+            ))}
+            {collaborators.length > 4 && (
+              <div className="w-7 h-7 rounded-full ring-2 ring-ide-bg bg-brand-surface flex items-center justify-center text-xs text-brand-muted">
+                +{collaborators.length - 4}
+              </div>
+            )}
+          </div>
+        )}
         <div className="hidden sm:flex items-center space-x-1 md:space-x-3">
-          <button className="p-2 bg-brand-surface rounded-lg hover:bg-brand-surface/80"><ShareIcon className="w-4 h-4"/></button>
+          <button onClick={onOpenVersionHistory} className="p-2 bg-brand-surface rounded-lg hover:bg-brand-surface/80" title="Version history">
+            <History className="w-4 h-4"/>
+          </button>
+          <button onClick={onOpenShare} className="p-2 bg-brand-surface rounded-lg hover:bg-brand-surface/80" title="Share">
+            <ShareIcon className="w-4 h-4"/>
+          </button>
           <button onClick={onOpenGithubModal} className="p-2 bg-brand-surface rounded-lg hover:bg-brand-surface/80">
             <GithubIcon className="w-4 h-4"/>
           </button>
@@ -1,16 +1,42 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import LeftPanel from './LeftPanel';
 import CenterPanel from './CenterPanel';
 import Header from './Header';
 import DiffModal from './DiffModal';
-import { FileSystem, ChatMessage, AiProvider, Project, SimplifiedGenerateContentResponse } from '../types';
-import { generateContentWithTools } from '../services/aiService';
+import VersionHistoryModal from './VersionHistoryModal';
+import SyncConflictBanner from './SyncConflictBanner';
+import MergeConflictModal from './MergeConflictModal';
+import ShareModal from './ShareModal';
+import { AgentGaveUpState } from './AgentGaveUpNotice';
+import { FileSystem, ChatMessage, Diagnostic, TestRunResult, AiProvider, ModelSettings, Project, ProjectModelSettings, ProjectVersion, SimplifiedGenerateContentResponse, UsageMetadata } from '../types';
+import { buildFailoverChain, streamWithFailover } from '../services/aiService';
 import { projectService } from '../services/projectService';
+import { getProvider, hasProvider, resolveModelSettings, resolveProvider } from '../services/providers/registry';
+import { agentSettingsService, getRunLimitReason } from '../services/agentSettingsService';
+import { keyVaultService } from '../services/keyVaultService';
+import { addUsage, estimateCost, usageService } from '../services/usageService';
+import { defaultRetryConfig } from '../hooks/useApiErrorHandler';
+import { isAbortError } from '../services/providers/providerUtils';
 import { WebContainer } from '@webcontainer/api';
-import { transformFileSystem, diffFileSystems } from '../utils/fileUtils';
+import { transformFileSystem, diffFileSystems, readDirectory, writeDirectory } from '../utils/fileUtils';
+import { applyPatch, replaceInFile, ReplaceEdit } from '../utils/patchUtils';
+import { formatSearchResults, searchFileSystem } from '../utils/searchUtils';
+import { formatDiagnostics, parseBuildOutput, parseEslintJson } from '../utils/diagnosticsUtils';
+import { collectFileChanges, getCommandPolicyError, parseCommand, runProcess, stripAnsi, truncateOutput } from '../services/commandService';
+import { formatTimings, verificationService } from '../services/verificationService';
+import { getTestSetupError, testService, TEST_TIMEOUT_MS } from '../services/testService';
+import { CAPTURE_VIEWPORTS, followPreviewServer, previewCaptureService, ViewportName } from '../services/previewCaptureService';
+import { formatTestFailures, mergeTestResults, TestFilter } from '../utils/testResultsUtils';
+import { extractStreamingFilePaths } from '../utils/streamUtils';
 import { ProjectStartData } from '../App';
 import { useAuth } from '../contexts/AuthContext';
-import { cacheService } from '../services/cacheService';
+import { DEV_SERVER_SESSION_ID, INSTALL_SESSION_ID, useTerminalSessions } from '../hooks/useTerminalSessions';
+import { usePreviewErrors } from '../hooks/usePreviewErrors';
+import { useProjectSync } from '../hooks/useProjectSync';
+import { useCollaboration } from '../hooks/useCollaboration';
+import { SyncConflict } from '../services/syncService';
+import { formatRuntimeErrorsPrompt, PREVIEW_SCRIPT } from '../utils/previewUtils';
+import { cacheService, NPM_CACHE_PATH } from '../services/cacheService';
 
 interface IdeLayoutProps {
   initialProjectData: ProjectStartData;
@@ -21,132 +47,25 @@ interface IdeLayoutProps {
   onOpenGithubModal: () => void;
 }
 
-// Helper to encode Uint8Array to a Base64 string.
-function uint8ArrayToBase64(bytes: Uint8Array) {
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return btoa(binary);
-}
-
-// Helper to decode Base64 string to a Uint8Array.
-function base64ToUint8Array(base64: string) {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
-}
-
-// A heuristic to identify text files based on their extension.
-// Files not on this list will be treated as binary and Base64-encoded for safety.
-const TEXT_FILE_EXTENSIONS = [
-  '.js', '.jsx', '.ts', '.tsx', '.json', '.css', '.html', '.md', '.svg', '.txt', 
-  '.lock', '.yml', '.yaml', '.toml', '.ini', '.sh', '.py', '.rb', '.java', '.go',
-  '.c', '.cpp', '.h', '.hpp', '.rs', '.php', 'Dockerfile', '.env', '.gitignore',
-  '.babelrc', '.eslintrc', '.prettierrc', 'vite.config.ts', 'tailwind.config.js', 'postcss.config.js'
-];
-
-const isTextFile = (path: string): boolean => {
-    if (path.toUpperCase().includes('LICENSE') || path.includes('.tldraw')) return true;
-    const lowerPath = path.toLowerCase();
-    return TEXT_FILE_EXTENSIONS.some(ext => lowerPath.endsWith(ext));
+// Rejects with an AbortError as soon as `signal` is aborted, for awaiting work that can't take a
+// signal itself (WebContainer boots and processes).
+const untilStopped = <T,>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+    if (!signal) return promise;
+    return Promise.race([
+        promise,
+        new Promise<never>((_, reject) => {
+            const abort = () => reject(new DOMException('The agent was stopped.', 'AbortError'));
+            if (signal.aborted) abort();
+            else signal.addEventListener('abort', abort, { once: true });
+        }),
+    ]);
 };
 
-const readDirectory = async (wc: WebContainer, path: string): Promise<FileSystem> => {
-  const fs: FileSystem = {};
-  // Start with an empty string for the root of the target path to build clean relative paths
-  const queue: string[] = [""]; 
-
-  while (queue.length > 0) {
-    const currentRelativeDir = queue.shift()!;
-    const fullDirPath = currentRelativeDir ? `${path}/${currentRelativeDir}` : path;
-    
-    let entries;
-    try {
-      entries = await wc.fs.readdir(fullDirPath, { withFileTypes: true });
-    } catch (e) {
-      // If the directory doesn't exist (e.g., first run, no cache), it's not an error we need to log loudly.
-      // This is a normal "cache miss" scenario.
-      if (e.message.includes('ENOENT')) {
-          if (currentRelativeDir === "") {
-             console.log(`[readDirectory] Cache path ${path} not found, returning empty cache.`);
-             return {}; // Return empty object, signaling a cache miss.
-          }
-          // If a subdirectory is missing, that's more unusual, maybe log it as a warning.
-          console.warn(`[readDirectory] Subdirectory not found during scan: ${fullDirPath}`);
-          continue; // Skip this branch of the directory tree.
-      }
-      // For other, unexpected errors, log them.
-      console.error(`Error reading directory ${fullDirPath}:`, e);
-      continue;
-    }
-      
-    if (entries.length === 0 && currentRelativeDir) {
-        fs[currentRelativeDir + '/'] = '__DIR__';
-    }
-
-    for (const entry of entries) {
-      const entryRelativePath = currentRelativeDir ? `${currentRelativeDir}/${entry.name}` : entry.name;
-      
-      if (entry.isDirectory()) {
-        queue.push(entryRelativePath);
-      } else if (entry.isFile()) {
-        try {
-            const contentBytes = await wc.fs.readFile(`${path}/${entryRelativePath}`);
-            if (isTextFile(entryRelativePath)) {
-                fs[entryRelativePath] = new TextDecoder().decode(contentBytes);
-            } else {
-                fs[entryRelativePath] = `base64:${uint8ArrayToBase64(contentBytes)}`;
-            }
-        } catch (fileReadError) {
-             console.error(`Error reading file ${path}/${entryRelativePath}:`, fileReadError);
-        }
-      }
-    }
-  }
-  return fs;
-};
-
-const writeDirectory = async (wc: WebContainer, fs: FileSystem, targetPath: string) => {
-    await wc.fs.mkdir(targetPath, { recursive: true });
-
-    const dirs: string[] = [];
-    const files: { path: string, content: string }[] = [];
-
-    for (const relPath in fs) {
-        if (fs[relPath] === '__DIR__') {
-            dirs.push(relPath.endsWith('/') ? relPath.slice(0, -1) : relPath);
-        } else {
-            files.push({ path: relPath, content: fs[relPath] });
-        }
-    }
-
-    for (const dirRelPath of dirs) {
-        await wc.fs.mkdir(`${targetPath}/${dirRelPath}`, { recursive: true });
-    }
-
-    for (const { path: relPath, content } of files) {
-        const fullPath = `${targetPath}/${relPath}`;
-        const dir = fullPath.substring(0, fullPath.lastIndexOf('/'));
-        if (dir) {
-            await wc.fs.mkdir(dir, { recursive: true });
-        }
-        
-        let fileContents: string | Uint8Array;
-        if (content.startsWith('base64:')) {
-            fileContents = base64ToUint8Array(content.substring(7));
-        } else {
-            fileContents = content;
-        }
-        await wc.fs.writeFile(fullPath, fileContents);
-    }
-};
+// Upper bound for `npm run build` in the verification sandbox.
+const BUILD_TIMEOUT_MS = 300000;
 
+// Appended to the history when the user stops a run, so the next prompt can pick up from there.
+const STOPPED_TURN = { role: 'model', parts: [{ text: '[Stopped by the user at this point. File changes made so far were kept.]' }] };
 
 const IdeLayout: React.FC<IdeLayoutProps> = ({ 
   initialProjectData, 
@@ -173,23 +92,120 @@ const IdeLayout: React.FC<IdeLayoutProps> = ({
   const [leftPanelWidth, setLeftPanelWidth] = useState(384);
   const [previewStatus, setPreviewStatus] = useState('Waiting for agent to finish...');
   const [iframeUrl, setIframeUrl] = useState('');
-  const [aiProvider, setAiProvider] = useState<AiProvider>(project.provider || 'gemini');
+  // From the last run_build_and_lint, shown as editor markers and in the Problems panel.
+  const [diagnostics, setDiagnostics] = useState<Diagnostic[]>([]);
+  // From run_tests and the Tests panel, merged across filtered re-runs.
+  const [testResults, setTestResults] = useState<TestRunResult | null>(null);
+  const [isRunningTests, setIsRunningTests] = useState(false);
+  const [testRunError, setTestRunError] = useState<string | null>(null);
+  const [aiProvider, setAiProvider] = useState<AiProvider>(() => resolveProvider(project.provider || 'gemini'));
+  const [modelSettings, setModelSettings] = useState<ProjectModelSettings>(project.model_settings || {});
   const [mobileView, setMobileView] = useState<'chat' | 'editor'>('chat');
   const [diffModalData, setDiffModalData] = useState<{ isOpen: boolean; diff?: { oldFS: any; newFS: any }; files?: string[] }>({ isOpen: false });
+  const [isVersionHistoryOpen, setIsVersionHistoryOpen] = useState(false);
+  const [mergeModal, setMergeModal] = useState<{ isOpen: boolean; conflict: SyncConflict | null }>({ isOpen: false, conflict: null });
+  const [isShareOpen, setIsShareOpen] = useState(false);
   
   const [pendingPlan, setPendingPlan] = useState<{
     messageId: string;
     planData: { call: any; result: any };
     fileSystem: FileSystem;
   } | null>(null);
+  const [gaveUp, setGaveUp] = useState<AgentGaveUpState | null>(null);
 
   const isResizing = useRef(false);
   const conversationHistoryRef = useRef<{ role: string, parts: any[] }[]>([]);
+  // Token and cost totals for the agent run started by the latest prompt.
+  const runUsageRef = useRef<UsageMetadata | undefined>(undefined);
+  // Progress of that run, checked against the run limits before each model turn.
+  const runTurnsRef = useRef(0);
+  const runBuildAttemptsRef = useRef(0);
+  const lastBuildErrorRef = useRef<string | undefined>(undefined);
+  // Draft as it was when the run started, for rolling back after the agent gives up.
+  const runStartFileSystemRef = useRef<FileSystem>({});
+  // Which provider and model answered the latest turn, which after a failover isn't the selected one.
+  const servedByRef = useRef<{ provider: AiProvider; model: string } | null>(null);
   const webcontainerRef = useRef<WebContainer | null>(null);
+  // Mirrors webcontainerRef for rendering: whether a shell can be opened in the live container.
+  const [isContainerReady, setIsContainerReady] = useState(false);
+  const terminal = useTerminalSessions();
+  const previewErrors = usePreviewErrors(iframeUrl);
+  const projectSync = useProjectSync(project.id, project.updated_at, saved => {
+    setProject(prev => ({ ...prev, updated_at: saved.updated_at }));
+    onProjectDataChange(saved);
+    collaboration.announceSaved(saved.updated_at);
+    console.log("Project autosaved successfully.");
+  });
+  const collaborationUser = useMemo(
+    () => session ? { id: session.user.id, name: session.user.email || 'Collaborator' } : null,
+    [session?.user.id, session?.user.email]
+  );
+  // Shares the draft, chat and cursors with everyone else who has the project open. Live files
+  // and saves stay per session: whoever changes their live files saves them and tells the rest.
+  const collaboration = useCollaboration(project.id, collaborationUser, draftFileSystem, messages, {
+    onRemoteFiles: changes => {
+      setDraftFileSystem(prev => {
+        const next = { ...prev };
+        for (const [path, content] of Object.entries(changes)) {
+          if (content === null) delete next[path];
+          else next[path] = content;
+        }
+        return next;
+      });
+      setActiveFile(prev => prev && changes[prev] === null ? null : prev);
+    },
+    onRemoteMessages: (upserts, removedIds) => {
+      // Each message is saved by the session that wrote it.
+      upserts.forEach(message => savedMessagesRef.current.set(message.id!, message));
+      const removed = new Set(removedIds);
+      setMessages(prev => {
+        const updates = new Map(upserts.map(message => [message.id!, message]));
+        const next = prev
+          .filter(message => !removed.has(message.id!))
+          .map(message => {
+            const update = updates.get(message.id!);
+            updates.delete(message.id!);
+            return update || message;
+          });
+        return [...next, ...updates.values()];
+      });
+    },
+    onRemotePublish: fileSystem => {
+      lastSavedFileSystem.current = fileSystem;
+      setLiveFileSystem(fileSystem);
+    },
+    onRemoteSaved: updatedAt => {
+      projectSync.noteSavedElsewhere(updatedAt);
+      setProject(prev => ({ ...prev, updated_at: updatedAt }));
+      onProjectDataChange({ updated_at: updatedAt });
+    },
+  });
+  // While a collaborator's agent run is changing the files, they can't be edited here.
+  const isRemoteAgentRunning = !!collaboration.agentHolder && !agentActivity;
+  // Set once a collaborator has run the agent, whose turns this session's history doesn't have.
+  const isHistoryStaleRef = useRef(false);
+  // Abort controller of the agent run in progress.
+  const abortControllerRef = useRef<AbortController | null>(null);
   const previousLiveFileSystemRef = useRef<FileSystem>({});
-  const lastSavedFileSystem = useRef<FileSystem | null>(null);
+  // Starts as the loaded files, so opening a project doesn't save it straight back.
+  const lastSavedFileSystem = useRef<FileSystem | null>(project.id ? liveFileSystem : null);
+  // Set by a restore so the next autosave labels its checkpoint as restored, not with the last task summary.
+  const pendingCheckpointRef = useRef<{ summary: string; sourceVersionId: string } | null>(null);
   const isBootingRef = useRef(false);
   const initialPromptSentRef = useRef(false);
+  // Conversation persistence (`project_messages` plus the IndexedDB mirror). The saved refs hold
+  // what Supabase already has, so each sync only sends changed messages and new history turns.
+  const projectIdRef = useRef(project.id);
+  projectIdRef.current = project.id;
+  const messagesRef = useRef<ChatMessage[]>([]);
+  const savedMessagesRef = useRef<Map<string, ChatMessage>>(new Map());
+  const savedHistoryLengthRef = useRef(0);
+  // History is append-only apart from a rejected plan being undone; this is the lowest index
+  // rewritten since the last sync.
+  const historyDirtyFromRef = useRef<number | null>(null);
+  const isConversationLoadedRef = useRef(!initialProjectData.id);
+  const conversationSyncTimeoutRef = useRef<number | null>(null);
+  const conversationSyncChainRef = useRef<Promise<void>>(Promise.resolve());
   const [isDesktop, setIsDesktop] = useState(true);
 
 
@@ -236,6 +252,10 @@ const IdeLayout: React.FC<IdeLayoutProps> = ({
     setMessages(prev => [...prev, { ...message, id }]);
   };
 
+  const updateMessage = (id: string, update: Partial<ChatMessage>) => {
+    setMessages(prev => prev.map(m => m.id === id ? { ...m, ...update } : m));
+  };
+
   // Helper to convert old Message format to ChatMessage
   const convertToChatMessage = (oldMessage: any): Omit<ChatMessage, 'id'> => {
     if (oldMessage.type === 'user') {
@@ -257,23 +277,27 @@ const IdeLayout: React.FC<IdeLayoutProps> = ({
   };
 
   const handleDraftFileSystemChange = (newFs: FileSystem) => {
+    if (isRemoteAgentRunning) return;
     setDraftFileSystem(newFs);
   }
   
   const runNpmInstall = async (wc: WebContainer) => {
       console.log("[npm install] Spawning `npm install` process.");
       setPreviewStatus('Installing dependencies (npm install)...');
+      terminal.write(INSTALL_SESSION_ID, '$ npm install\n');
       const installProcess = await wc.spawn('npm', ['install']);
       
       installProcess.output.pipeTo(new WritableStream({
           write(data) {
               console.log('[npm install output]', data); // Log the raw output
+              terminal.write(INSTALL_SESSION_ID, data);
               setPreviewStatus(`npm install: ${data.trim()}`);
           }
       }));
 
       const exitCode = await installProcess.exit;
       console.log(`[npm install] Process exited with code: ${exitCode}`);
+      terminal.write(INSTALL_SESSION_ID, `\n[npm install exited with code ${exitCode}]\n\n`);
       if (exitCode !== 0) {
           setPreviewStatus('Error during npm install. Check console for details.');
           throw new Error('npm install failed');
@@ -283,24 +307,27 @@ const IdeLayout: React.FC<IdeLayoutProps> = ({
   const startDevServer = async (wc: WebContainer) => {
       setPreviewStatus('Starting dev server (npm run dev)...');
 
-      wc.on('server-ready', (port, url) => {
+      wc.on('server-ready', followPreviewServer(url => {
           setPreviewStatus(`Server ready at ${url}`);
           setIframeUrl(url);
-      });
+      }));
 
        wc.on('error', (error) => {
           console.error('WebContainer Error:', error);
           setPreviewStatus(`Error: ${error.message}`);
       });
       
+      terminal.write(DEV_SERVER_SESSION_ID, '$ npm run dev -- --host\n');
       const devProcess = await wc.spawn('npm', ['run', 'dev', '--', '--host']);
 
       devProcess.output.pipeTo(new WritableStream({
           write(data) {
               console.log('Dev Server:', data);
+              terminal.write(DEV_SERVER_SESSION_ID, data);
               setPreviewStatus(`vite dev: ${data.trim()}`);
           }
       }));
+      devProcess.exit.then(code => terminal.write(DEV_SERVER_SESSION_ID, `\n[Dev server exited with code ${code}]\n\n`));
 
   };
 
@@ -313,16 +340,17 @@ const IdeLayout: React.FC<IdeLayoutProps> = ({
         }
         isBootingRef.current = true;
         let wc: WebContainer | null = null;
-        
-        // In WebContainer, npm runs as root, so the cache is in /root/.npm
-        const NPM_CACHE_PATH = '/root/.npm';
 
         try {
+            // Only one container can be booted; the verification sandbox may be using it.
             console.log("[Boot] Booting WebContainer...");
             setPreviewStatus('Booting WebContainer...');
-            wc = await WebContainer.boot();
+            wc = await verificationService.bootHost();
             webcontainerRef.current = wc;
+            setIsContainerReady(true);
             console.log("[Boot] WebContainer booted.");
+            // Reports runtime errors from every page the preview loads back to the IDE.
+            await wc.setPreviewScript(PREVIEW_SCRIPT);
 
             setPreviewStatus('Mounting project files...');
             await wc.mount(transformFileSystem(liveFileSystem));
@@ -406,12 +434,139 @@ const IdeLayout: React.FC<IdeLayoutProps> = ({
             wc.teardown();
             webcontainerRef.current = null;
             isBootingRef.current = false; // Reset on teardown
+            setIsContainerReady(false);
+            terminal.endShells();
         }
+        verificationService.release();
     };
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isBuilding, project.id]);
 
 
+  const truncateHistory = (length: number) => {
+    conversationHistoryRef.current = conversationHistoryRef.current.slice(0, length);
+    historyDirtyFromRef.current = Math.min(historyDirtyFromRef.current ?? length, length);
+  };
+
+  const syncConversation = async () => {
+    const projectId = projectIdRef.current;
+    if (!projectId || !isConversationLoadedRef.current) return;
+
+    const history = conversationHistoryRef.current;
+    const messagesToSave = messagesRef.current.filter(m => !m.isStreaming);
+    await cacheService.setConversationCache(projectId, messagesToSave, history);
+
+    const dirtyFrom = historyDirtyFromRef.current;
+    historyDirtyFromRef.current = null;
+    const historyFrom = Math.min(savedHistoryLengthRef.current, dirtyFrom ?? Infinity);
+    const rows = [
+        ...messagesToSave
+            .map((message, index) => ({ message, index }))
+            .filter(({ message }) => savedMessagesRef.current.get(message.id!) !== message)
+            .map(({ message, index }) => ({ project_id: projectId, kind: 'chat' as const, client_id: message.id!, seq: index, payload: message })),
+        ...history.slice(historyFrom).map((turn, i) => ({
+            project_id: projectId, kind: 'history' as const, client_id: String(historyFrom + i), seq: historyFrom + i, payload: turn,
+        })),
+    ];
+
+    try {
+        if (dirtyFrom !== null) {
+            await projectService.truncateProjectHistory(projectId, dirtyFrom);
+        }
+        await projectService.saveProjectMessages(rows);
+        messagesToSave.forEach(message => savedMessagesRef.current.set(message.id!, message));
+        savedHistoryLengthRef.current = history.length;
+    } catch (error) {
+        console.error("Failed to save conversation:", error);
+        if (dirtyFrom !== null) {
+            historyDirtyFromRef.current = Math.min(historyDirtyFromRef.current ?? dirtyFrom, dirtyFrom);
+        }
+    }
+  };
+
+  // Debounced so a streamed turn is written once it settles rather than on every delta. Syncs
+  // run one after another so truncations and upserts reach Supabase in order.
+  const scheduleConversationSync = (delayMs = 1000) => {
+    if (conversationSyncTimeoutRef.current) window.clearTimeout(conversationSyncTimeoutRef.current);
+    conversationSyncTimeoutRef.current = window.setTimeout(() => {
+        conversationSyncTimeoutRef.current = null;
+        conversationSyncChainRef.current = conversationSyncChainRef.current.then(syncConversation);
+    }, delayMs);
+  };
+
+  // History turns are always pushed alongside a chat message update, so watching `messages`
+  // is enough to pick them up as well.
+  useEffect(() => {
+    messagesRef.current = messages;
+    scheduleConversationSync();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [messages, agentActivity, project.id]);
+
+  useEffect(() => {
+    return () => {
+        if (conversationSyncTimeoutRef.current) {
+            window.clearTimeout(conversationSyncTimeoutRef.current);
+            conversationSyncChainRef.current.then(syncConversation);
+        }
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Restores the conversation of an existing project: the IndexedDB mirror first so it shows
+  // straight away, then the copy in Supabase, which wins when it has any rows.
+  useEffect(() => {
+    const projectId = initialProjectData.id;
+    if (!projectId) return;
+    let cancelled = false;
+
+    const restoreConversation = (savedMessages: ChatMessage[], history: { role: string, parts: any[] }[]) => {
+        // A run interrupted while waiting for plan approval resumes with the plan pending again.
+        const lastTurn = history[history.length - 1];
+        const planCall = lastTurn?.role === 'model' ? lastTurn.parts.find(p => p.functionCall?.name === 'plan_steps')?.functionCall : undefined;
+        const planMessage = planCall ? [...savedMessages].reverse().find(m => m.role === 'assistant' && m.content.startsWith('Plan:')) : undefined;
+
+        const restored = savedMessages.map(m => ({ ...m, isStreaming: false, isLoading: m.id === planMessage?.id }));
+        conversationHistoryRef.current = history;
+        collaboration.markMessagesShared(restored);
+        setMessages(restored);
+        if (planCall && planMessage) {
+            const steps = Array.isArray(planCall.args?.steps) ? planCall.args.steps : [planCall.args?.steps];
+            setPendingPlan({
+                messageId: planMessage.id!,
+                planData: { call: planCall, result: { success: true, plan: steps } },
+                fileSystem: initialProjectData.file_system || {},
+            });
+        }
+        return restored;
+    };
+
+    const loadConversation = async () => {
+        const cached = await cacheService.getConversationCache(projectId);
+        if (cancelled) return;
+        if (cached) restoreConversation(cached.messages, cached.history);
+
+        try {
+            const rows = await projectService.getProjectMessages(projectId);
+            if (cancelled) return;
+            if (rows.length > 0) {
+                const history = rows.filter(r => r.kind === 'history').map(r => r.payload);
+                const restored = restoreConversation(rows.filter(r => r.kind === 'chat').map(r => r.payload), history);
+                savedMessagesRef.current = new Map(restored.map(m => [m.id!, m]));
+                savedHistoryLengthRef.current = history.length;
+            }
+        } catch (error) {
+            console.error("Failed to load conversation:", error);
+        }
+        isConversationLoadedRef.current = true;
+        // Uploads anything only the local mirror had, e.g. turns from a session that went offline.
+        scheduleConversationSync(0);
+    };
+
+    loadConversation();
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
   // Add beforeunload listener
   useEffect(() => {
     const handleBeforeUnload = (e: BeforeUnloadEvent) => {
@@ -429,35 +584,57 @@ const IdeLayout: React.FC<IdeLayoutProps> = ({
     if (!agentActivity && project.id && liveFileSystem !== lastSavedFileSystem.current) {
         // Find the summary of the last completed task
         const lastSummary = [...messages].reverse().find(m => m.role === 'assistant' && m.content.includes('Task complete'))?.content;
+        const checkpoint = pendingCheckpointRef.current;
+        pendingCheckpointRef.current = null;
 
-        projectService.updateProject(project.id, liveFileSystem)
-            .then((updatedProject) => {
-                lastSavedFileSystem.current = liveFileSystem;
-                onProjectDataChange(updatedProject);
-                console.log("Project autosaved successfully.");
-                // After updating the main record, create a version checkpoint
-                return projectService.createProjectVersion(project.id!, liveFileSystem, lastSummary);
-            })
-            .then(() => {
-                console.log("Project version checkpoint created.");
-            })
+        // Saved to IndexedDB straight away and synced to Supabase in the background, with a
+        // checkpoint once it gets there.
+        lastSavedFileSystem.current = liveFileSystem;
+        projectSync.save(liveFileSystem, { summary: checkpoint?.summary ?? lastSummary, sourceVersionId: checkpoint?.sourceVersionId })
             .catch(error => {
-                console.error("Autosave/Versioning failed:", error);
-                // Check for specific Supabase error code for missing table (PGRST205)
-                // This makes the app more robust by catching the specific schema error
-                // and providing a user-friendly message instead of just a console error.
-                if (error && error.code === 'PGRST205' && error.message?.includes('project_versions')) {
-                    addMessage({
-                        role: 'assistant',
-                        content: `Autosave Warning: The 'project_versions' table is missing. Version history is disabled. Please run the required SQL in your Supabase dashboard to fix this.`
-                    });
-                } else {
-                    addMessage({role: 'assistant', content: `Save failed: ${error instanceof Error ? error.message : 'Unknown error'}`});
-                }
+                console.error("Autosave failed:", error);
+                addMessage({role: 'assistant', content: `Save failed: ${error instanceof Error ? error.message : 'Unknown error'}`});
             });
+        // Collaborators take the same files live; only this session saves them.
+        collaboration.publish();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [agentActivity, liveFileSystem, project.id, onProjectDataChange]);
+  }, [agentActivity, liveFileSystem, project.id]);
+
+  // The agent lock is released once a run is over, after its conversation is saved so that
+  // whoever runs the agent next can load the turns.
+  useEffect(() => {
+    if (agentActivity) return;
+    conversationSyncChainRef.current = conversationSyncChainRef.current
+        .then(syncConversation)
+        .then(collaboration.releaseAgentLock);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [agentActivity]);
+
+  useEffect(() => {
+    if (collaboration.agentHolder) isHistoryStaleRef.current = true;
+  }, [collaboration.agentHolder]);
+
+  useEffect(() => {
+    if (!activeFile) collaboration.setCursor(null, 0, 0);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeFile]);
+
+  // Picks up the turns of collaborators' runs before this session runs the agent again.
+  const reloadHistoryIfStale = async () => {
+    const projectId = projectIdRef.current;
+    if (!isHistoryStaleRef.current || !projectId) return;
+    try {
+        const rows = await projectService.getProjectMessages(projectId);
+        const history = rows.filter(r => r.kind === 'history').map(r => r.payload);
+        conversationHistoryRef.current = history;
+        savedHistoryLengthRef.current = history.length;
+        historyDirtyFromRef.current = null;
+        isHistoryStaleRef.current = false;
+    } catch (error) {
+        console.error("Failed to load collaborators' agent history:", error);
+    }
+  };
 
 
   useEffect(() => {
@@ -492,7 +669,7 @@ const IdeLayout: React.FC<IdeLayoutProps> = ({
                 
                 if (project.id) {
                     setPreviewStatus('Re-caching dependencies...');
-                    const npmCache = await readDirectory(wc, '/root/.npm');
+                    const npmCache = await readDirectory(wc, NPM_CACHE_PATH);
                     const packageJsonContent = liveFileSystem['package.json'];
                     if (packageJsonContent) {
                        await cacheService.setProjectCache(project.id, npmCache, packageJsonContent);
@@ -513,21 +690,171 @@ const IdeLayout: React.FC<IdeLayoutProps> = ({
       previousLiveFileSystemRef.current = liveFileSystem;
   }, [liveFileSystem, isBuilding, project.id]);
 
+  const handleOpenShell = async (): Promise<string | null> => {
+    const wc = webcontainerRef.current;
+    if (!wc) return null;
+    try {
+        return await terminal.openShell(wc, { cols: 80, rows: 24 });
+    } catch (error) {
+        console.error("Failed to start a shell:", error);
+        return null;
+    }
+  };
+
+  // Runs the tests against `fileSystem` and folds the results into the Tests panel. Throws when
+  // Vitest couldn't produce a report.
+  const runTests = async (fileSystem: FileSystem, filter: TestFilter, signal?: AbortSignal) => {
+    setIsRunningTests(true);
+    setTestRunError(null);
+    try {
+        const { result: run, timings } = await untilStopped(testService.run(
+            fileSystem,
+            filter,
+            { host: webcontainerRef.current, projectId: project.id, signal }
+        ), signal);
+        if (!run.results) {
+            throw new Error(run.timedOut
+                ? `Tests timed out after ${TEST_TIMEOUT_MS / 1000} seconds.\n${truncateOutput(run.output)}`
+                : `Vitest did not produce a report (exit code ${run.exitCode}).\n${truncateOutput(run.output)}`);
+        }
+        const results = run.results;
+        setTestResults(prev => mergeTestResults(prev, results, filter));
+        return { run: { ...run, results }, timings };
+    } catch (e) {
+        if (!isAbortError(e)) setTestRunError(e instanceof Error ? e.message : String(e));
+        throw e;
+    } finally {
+        setIsRunningTests(false);
+    }
+  };
+
+  // Re-runs from the Tests panel use the current draft, outside of any agent run.
+  const handleRunTests = async (filter: TestFilter) => {
+    const setupError = getTestSetupError(draftFileSystem);
+    if (setupError) {
+        setTestRunError(setupError);
+        return;
+    }
+    try {
+        await runTests(draftFileSystem, filter);
+    } catch (e) {
+        console.error("Failed to run tests:", e);
+    }
+  };
+
   const getTurnActivity = (calls: { name: string; args: any }[]): string => {
     if (calls.some(c => c.name === 'run_build_and_lint')) return 'MominAI is verifying the build...';
-    if (calls.some(c => ['create_or_update_files', 'delete_file'].includes(c.name))) return 'MominAI is writing code...';
+    if (calls.some(c => c.name === 'run_tests')) return 'MominAI is running the tests...';
+    if (calls.some(c => c.name === 'capture_preview')) return 'MominAI is looking at the preview...';
+    if (calls.some(c => c.name === 'run_command')) return 'MominAI is running a command...';
+    if (calls.some(c => ['create_or_update_files', 'replace_in_file', 'apply_patch', 'delete_file'].includes(c.name))) return 'MominAI is writing code...';
     if (calls.some(c => c.name === 'search_pexels_for_images')) return 'MominAI is searching for images...';
     if (calls.some(c => c.name === 'plan_steps')) return 'MominAI is creating a plan...';
+    if (calls.some(c => c.name === 'search_files')) return 'MominAI is searching the code...';
     if (calls.some(c => ['read_file', 'list_files'].includes(c.name))) return 'MominAI is reviewing the files...';
     return 'MominAI is thinking...';
   };
 
+  // Only the owner can change a project's settings; a member's choice applies to their session.
+  const persistModelChoice = (provider: AiProvider, settings: ProjectModelSettings) => {
+    if (!project.id || project.user_id !== session?.user.id) return;
+    projectService.updateProjectModelSettings(project.id, provider, settings)
+        .then(onProjectDataChange)
+        .catch(error => console.error("Failed to save model settings:", error));
+  };
+
+  const handleAiProviderChange = (provider: AiProvider) => {
+    setAiProvider(provider);
+    persistModelChoice(provider, modelSettings);
+  };
+
+  const handleModelSettingsChange = (settings: ModelSettings) => {
+    const next = { ...modelSettings, [aiProvider]: settings };
+    setModelSettings(next);
+    persistModelChoice(aiProvider, next);
+  };
+
+  // Streams one model turn into a live assistant message so tokens render as they arrive.
+  // Partial file-writing arguments are inspected to show which files are being written before the
+  // tool call is complete. Resolves with the fully assembled response.
+  const streamAgentTurn = useCallback(async (history: { role: string, parts: any[] }[], fileSystem: FileSystem): Promise<SimplifiedGenerateContentResponse> => {
+    const messageId = Date.now().toString() + Math.random();
+    let text = '';
+    let writtenPaths: string[] = [];
+    let toolCalls: { name?: string; args: string }[] = [];
+    let response: SimplifiedGenerateContentResponse | null = null;
+
+    addMessage({ id: messageId, role: 'assistant', content: '', isStreaming: true });
+    runTurnsRef.current++;
+
+    const agentSettings = agentSettingsService.getSettings();
+    const chain = buildFailoverChain(aiProvider, modelSettings, agentSettings);
+    const providerName = (id: AiProvider) => (hasProvider(id) ? getProvider(id).name : id);
+
+    try {
+        const retryConfig = { ...defaultRetryConfig, maxRetries: agentSettings.maxRetries };
+        for await (const event of streamWithFailover(chain, history, fileSystem, retryConfig, abortControllerRef.current?.signal)) {
+            if (event.type === 'retry') {
+                // The failed attempt's partial output is discarded; the turn restarts from the same history.
+                text = '';
+                writtenPaths = [];
+                toolCalls = [];
+                updateMessage(messageId, { content: '', actions: undefined });
+                const seconds = Math.round(event.delayMs / 1000);
+                setAgentActivity(event.provider === event.failedProvider
+                    ? `${providerName(event.provider)} failed (${event.error}). Retrying${seconds > 0 ? ` in ${seconds}s` : ''}...`
+                    : `${providerName(event.failedProvider)} failed (${event.error}). Switching to ${providerName(event.provider)}...`);
+            } else if (event.type === 'text') {
+                text += event.delta;
+                updateMessage(messageId, { content: text });
+            } else if (event.type === 'tool_call') {
+                const call = toolCalls[event.index] || (toolCalls[event.index] = { args: '' });
+                if (event.name) call.name = event.name;
+                call.args += event.argsDelta;
+                if (call.name === 'create_or_update_files' || call.name === 'replace_in_file' || call.name === 'apply_patch') {
+                    const paths = extractStreamingFilePaths(call.name, call.args);
+                    if (paths.length > writtenPaths.length) {
+                        writtenPaths = paths;
+                        setAgentActivity(`MominAI is writing ${paths[paths.length - 1]}...`);
+                        updateMessage(messageId, { actions: paths.map(path => ({ type: 'WRITE', target: path })) });
+                    }
+                }
+            } else {
+                response = event.response;
+                servedByRef.current = { provider: event.provider, model: event.model };
+                updateMessage(messageId, { servedBy: servedByRef.current });
+                if (response.usage) {
+                    const turnUsage = { ...response.usage, costUsd: estimateCost(event.provider, event.model, response.usage) };
+                    updateMessage(messageId, { usageMetadata: turnUsage });
+                    runUsageRef.current = addUsage(runUsageRef.current, turnUsage);
+                    usageService.recordUsage(project.id || null, event.provider, event.model, turnUsage)
+                        .catch(error => console.error("Failed to record usage:", error));
+                }
+            }
+        }
+    } finally {
+        // Keep the streamed message only if it has something to show.
+        if (text || writtenPaths.length > 0) {
+            updateMessage(messageId, { isStreaming: false });
+        } else {
+            setMessages(prev => prev.filter(m => m.id !== messageId));
+        }
+    }
+
+    if (!response) {
+        throw new Error('The AI response stream ended unexpectedly.');
+    }
+    return response;
+  }, [aiProvider, modelSettings, project.id]);
+
   const processAgentResponse = useCallback(async (response: SimplifiedGenerateContentResponse, currentDraftFileSystem: FileSystem) => {
     let functionCalls = response.functionCalls;
+    // Any text was already rendered while streaming; it only needs to go into the history here,
+    // after any thinking the provider needs replayed.
+    const modelTextParts = [...(response.thoughts || []), ...(response.text ? [{ text: response.text }] : [])];
     if (!functionCalls) {
         if (response.text) {
-            addMessage({ role: 'assistant', content: response.text });
-            conversationHistoryRef.current.push({ role: 'model', parts: [{ text: response.text }] });
+            conversationHistoryRef.current.push({ role: 'model', parts: modelTextParts });
         } else {
             addMessage({ role: 'assistant', content: "Agent finished its turn without text or tool calls." });
         }
@@ -565,7 +892,7 @@ const IdeLayout: React.FC<IdeLayoutProps> = ({
         });
         
         // Push the model's turn to history so it's there for the next step
-        conversationHistoryRef.current.push({ role: 'model', parts: [{ functionCall: planCall }] });
+        conversationHistoryRef.current.push({ role: 'model', parts: [...modelTextParts, { functionCall: planCall }] });
 
         return; // Halt execution until user approves
     }
@@ -574,8 +901,11 @@ const IdeLayout: React.FC<IdeLayoutProps> = ({
     let fsBeforeEdits = currentDraftFileSystem;
     const functionCallParts: any[] = [];
     const functionResponseParts: any[] = [];
+    // Screenshots from capture_preview, sent after the tool results in the same turn.
+    const imageParts: any[] = [];
     let edits: string[] = [];
     let newActiveFile: string | null = null;
+    const signal = abortControllerRef.current?.signal;
     
     const applyEditsToState = (fs: FileSystem) => {
         setDraftFileSystem(fs);
@@ -590,11 +920,31 @@ const IdeLayout: React.FC<IdeLayoutProps> = ({
         }
     };
 
+    // chat and finish_task end the run without another model call. Their turn still goes into the
+    // history, with a result for every call in it, so a resumed session replays it whole.
+    const calls = functionCalls;
+    const recordFinalTurn = (last: typeof calls[number], result: unknown) => {
+        const skipped = calls.slice(calls.indexOf(last) + 1);
+        conversationHistoryRef.current.push({ role: 'model', parts: [...modelTextParts, ...calls.map(c => ({ functionCall: c }))] });
+        conversationHistoryRef.current.push({
+            role: 'function',
+            parts: [
+                ...functionResponseParts,
+                { functionResponse: { id: last.id, name: last.name, response: result } },
+                ...skipped.map(c => ({ functionResponse: { id: c.id, name: c.name, response: { success: false, error: `Not run: the run ended with ${last.name}.` } } })),
+                ...imageParts,
+            ],
+        });
+    };
+
     for (const call of functionCalls) {
         const { name, args } = call;
         let toolResult: any;
 
-        if (name === 'create_or_update_files') {
+        if (signal?.aborted) {
+            // Calls after a stop still need a result so the history stays well-formed.
+            toolResult = { success: false, error: 'Not run: the user stopped the agent.' };
+        } else if (name === 'create_or_update_files') {
             const { files } = args; // files is an object: { "path/to/file": "content", ... }
             if (files && typeof files === 'object') {
                 const newFs = { ...tempFileSystem };
@@ -611,6 +961,20 @@ const IdeLayout: React.FC<IdeLayoutProps> = ({
             } else {
                     toolResult = { success: false, error: "Invalid 'files' argument. Expected an object." };
             }
+        } else if (name === 'replace_in_file' || name === 'apply_patch') {
+            const result = name === 'replace_in_file'
+                ? replaceInFile(tempFileSystem, args.path as string, args.edits as ReplaceEdit[])
+                : applyPatch(tempFileSystem, args.patch as string);
+            if (result.success) {
+                tempFileSystem = result.fileSystem;
+                edits.push(...result.changedPaths);
+                if (!activeFile && !newActiveFile) {
+                    newActiveFile = result.changedPaths.find(path => tempFileSystem[path] !== undefined) ?? null;
+                }
+                toolResult = { success: true, files_changed: result.changedPaths };
+            } else {
+                toolResult = result;
+            }
         } else if (name === 'delete_file') {
             edits.push(args.path as string);
             const newFs = { ...tempFileSystem };
@@ -627,57 +991,270 @@ const IdeLayout: React.FC<IdeLayoutProps> = ({
                 case 'read_file':
                     toolResult = { content: tempFileSystem[args.path as string] || 'File not found.' };
                     break;
+                case 'search_files': {
+                    const search = searchFileSystem(tempFileSystem, {
+                        query: args.query as string,
+                        isRegex: !!args.is_regex,
+                        caseSensitive: !!args.case_sensitive,
+                        glob: args.glob as string | undefined,
+                        contextLines: typeof args.context_lines === 'number' ? args.context_lines : 0,
+                        maxResults: Math.min(typeof args.max_results === 'number' ? args.max_results : 50, 200),
+                    });
+                    toolResult = search.error
+                        ? { success: false, error: search.error }
+                        : {
+                            success: true,
+                            match_count: search.matches.length,
+                            files_searched: search.filesSearched,
+                            truncated: search.truncated,
+                            results: search.matches.length > 0 ? formatSearchResults(search) : 'No matches.',
+                        };
+                    break;
+                }
                 case 'run_build_and_lint': {
-                    addMessage({ role: 'assistant', content: `Verifying code... This might take a moment.` });
-                    let verificationWC: WebContainer | null = null;
+                    const verifyMessageId = Date.now().toString() + Math.random();
+                    addMessage({ id: verifyMessageId, role: 'assistant', content: `Verifying code... This might take a moment.` });
                     try {
-                        verificationWC = await WebContainer.boot();
-                        await verificationWC.mount(transformFileSystem(tempFileSystem));
-
-                        const installProcess = await verificationWC.spawn('npm', ['install']);
-                        let installOutput = '';
-                        installProcess.output.pipeTo(new WritableStream({ write(data) { installOutput += data; } }));
-                        const installExitCode = await installProcess.exit;
-                        if (installExitCode !== 0) {
-                            throw new Error(`'npm install' failed in verification environment.\n${installOutput}`);
-                        }
-
                         const packageJsonContent = tempFileSystem['package.json'];
-                        if (!packageJsonContent || !JSON.parse(packageJsonContent).scripts?.build) {
+                        const packageJson = packageJsonContent ? JSON.parse(packageJsonContent) : null;
+                        if (!packageJson?.scripts?.build) {
                             throw new Error("No 'build' script found in package.json. Cannot verify.");
                         }
-
-                        const buildProcess = await verificationWC.spawn('npm', ['run', 'build']);
-                        let buildOutput = '';
-                        buildProcess.output.pipeTo(new WritableStream({ write(data) { buildOutput += data; } }));
-                        const buildExitCode = await buildProcess.exit;
-
-                        if (buildExitCode === 0) {
-                            toolResult = { success: true, output: "Build succeeded." };
-                        } else {
-                            toolResult = { success: false, error: `Build failed with exit code ${buildExitCode}.`, output: buildOutput };
-                        }
+                        // The lint script can only run once ESLint is a dependency.
+                        const canLint = !!packageJson.scripts.lint && !!(packageJson.devDependencies?.eslint || packageJson.dependencies?.eslint);
+
+                        const { result: checks, timings } = await untilStopped(verificationService.run(
+                            tempFileSystem,
+                            { host: webcontainerRef.current, projectId: project.id, signal },
+                            async (wc, cwd) => {
+                                const build = await runProcess(wc, ['npm', 'run', 'build'], { cwd, timeoutMs: BUILD_TIMEOUT_MS, signal });
+                                const lint = canLint && !build.timedOut && !signal?.aborted
+                                    ? await runProcess(wc, ['npm', 'run', 'lint', '--silent', '--', '--format', 'json'], { cwd, timeoutMs: BUILD_TIMEOUT_MS, signal })
+                                    : null;
+                                return { build, lint, cwd };
+                            }
+                        ), signal);
+                        updateMessage(verifyMessageId, { content: `Verified the build (${formatTimings(timings)}).` });
+
+                        const { build, lint, cwd } = checks;
+                        const lintDiagnostics = lint ? parseEslintJson(lint.output, cwd) : null;
+                        const diagnostics = [...parseBuildOutput(build.output, cwd), ...(lintDiagnostics || [])];
+                        const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+                        setDiagnostics(diagnostics);
+
+                        const buildError = build.exitCode === 0
+                            ? null
+                            : build.timedOut ? `Build timed out after ${BUILD_TIMEOUT_MS / 1000} seconds.` : `Build failed with exit code ${build.exitCode}.`;
+                        const lintStatus = !lint
+                            ? (canLint ? 'skipped' : 'skipped: no lint script or ESLint is not in package.json')
+                            : lintDiagnostics ? `${lintDiagnostics.length} problem${lintDiagnostics.length === 1 ? '' : 's'}` : `failed: ${truncateOutput(lint.output, 2000)}`;
+                        const success = !buildError && errorCount === 0;
+                        toolResult = {
+                            success,
+                            ...(!success && { error: buildError || `Lint found ${errorCount} error${errorCount === 1 ? '' : 's'}.` }),
+                            ...(diagnostics.length > 0 && {
+                                error_count: errorCount,
+                                warning_count: diagnostics.length - errorCount,
+                                diagnostics: formatDiagnostics(diagnostics),
+                            }),
+                            // Raw output is only needed when none of it could be parsed.
+                            ...(buildError && !diagnostics.some(d => d.source !== 'eslint') && { output: truncateOutput(build.output) }),
+                            lint: lintStatus,
+                            timings_ms: { boot: timings.bootMs, sync: timings.syncMs, install: timings.installSkipped ? 0 : timings.installMs, build_and_lint: timings.runMs },
+                        };
                     } catch (e) {
                         toolResult = { success: false, error: e instanceof Error ? e.message : 'Unknown error during verification.' };
                     } finally {
-                        if (verificationWC) {
-                            verificationWC.teardown();
+                        runBuildAttemptsRef.current++;
+                        lastBuildErrorRef.current = toolResult?.success ? undefined : (toolResult?.diagnostics || toolResult?.output || toolResult?.error);
+                    }
+                    break;
+                }
+                case 'run_tests': {
+                    const setupError = getTestSetupError(tempFileSystem);
+                    if (setupError) {
+                        toolResult = { success: false, error: setupError };
+                        break;
+                    }
+                    const filter: TestFilter = {
+                        ...(args.file && { file: String(args.file) }),
+                        ...(args.test_name && { testName: String(args.test_name) }),
+                    };
+                    const testMessageId = Date.now().toString() + Math.random();
+                    addMessage({ id: testMessageId, role: 'assistant', content: 'Running tests...' });
+                    try {
+                        const { run, timings } = await runTests(tempFileSystem, filter, signal);
+                        const { passed, failed, skipped, tests, fileErrors } = run.results;
+                        const success = run.exitCode === 0 && failed === 0 && fileErrors.length === 0;
+                        updateMessage(testMessageId, {
+                            content: tests.length === 0 && fileErrors.length === 0
+                                ? `No tests found (${formatTimings(timings)}).`
+                                : `Tests: ${passed} passed, ${failed} failed${skipped ? `, ${skipped} skipped` : ''} (${formatTimings(timings)}).`,
+                        });
+                        toolResult = {
+                            success,
+                            passed,
+                            failed,
+                            skipped,
+                            ...(tests.length === 0 && fileErrors.length === 0 && { note: 'No test files found. Test files are named *.test.ts or *.test.tsx.' }),
+                            ...(!success && (failed > 0 || fileErrors.length > 0)
+                                ? { failures: formatTestFailures(run.results) }
+                                : !success && { error: `Vitest exited with code ${run.exitCode}.`, output: truncateOutput(run.output) }),
+                            timings_ms: { boot: timings.bootMs, sync: timings.syncMs, install: timings.installSkipped ? 0 : timings.installMs, tests: timings.runMs },
+                        };
+                    } catch (e) {
+                        updateMessage(testMessageId, { content: isAbortError(e) ? 'Stopped the tests.' : 'Could not run the tests.' });
+                        toolResult = { success: false, error: e instanceof Error ? e.message : 'Unknown error while running tests.' };
+                    }
+                    break;
+                }
+                case 'capture_preview': {
+                    const servedBy = servedByRef.current?.provider ?? aiProvider;
+                    if (!hasProvider(servedBy) || !getProvider(servedBy).capabilities.vision) {
+                        toolResult = { success: false, error: 'The current model cannot view images, so screenshots are not available. Check the layout by reading the code instead.' };
+                        break;
+                    }
+                    let packageJson: any = null;
+                    try {
+                        packageJson = tempFileSystem['package.json'] ? JSON.parse(tempFileSystem['package.json']) : null;
+                    } catch {
+                        // Reported below like a missing package.json.
+                    }
+                    if (!packageJson?.devDependencies?.vite && !packageJson?.dependencies?.vite) {
+                        toolResult = { success: false, error: "Screenshots need a Vite app: add 'vite' to devDependencies in package.json." };
+                        break;
+                    }
+                    const requested = (Array.isArray(args.viewports) ? args.viewports : []).filter((v: unknown): v is ViewportName => typeof v === 'string' && v in CAPTURE_VIEWPORTS);
+                    const viewports: ViewportName[] = requested.length > 0 ? Array.from(new Set(requested)) : ['desktop', 'tablet', 'mobile'];
+                    const path = typeof args.path === 'string' && args.path.startsWith('/') ? args.path : '/';
+
+                    const captureMessageId = Date.now().toString() + Math.random();
+                    addMessage({ id: captureMessageId, role: 'assistant', content: `Capturing the preview (${viewports.join(', ')})...` });
+                    try {
+                        const { result: screenshots, timings } = await untilStopped(previewCaptureService.capture(
+                            tempFileSystem,
+                            { host: webcontainerRef.current, projectId: project.id, signal, viewports, path }
+                        ), signal);
+                        updateMessage(captureMessageId, {
+                            content: `Captured ${path} at ${viewports.join(', ')} (${formatTimings(timings)}).`,
+                            screenshots: screenshots.map(s => ({ label: `${s.viewport} ${s.width}px`, base64: s.data, mimeType: s.mimeType })),
+                        });
+                        screenshots.forEach(s => {
+                            imageParts.push({ text: `Screenshot of ${path}, ${s.viewport} (${s.width}x${s.height} viewport):` });
+                            imageParts.push({ inlineData: { mimeType: s.mimeType, data: s.data } });
+                        });
+                        toolResult = {
+                            success: true,
+                            path,
+                            screenshots: screenshots.map(s => `${s.viewport} (${s.width}x${s.height})`),
+                            note: 'The screenshots follow this result, in the order listed. They show the top of the page, up to twice the viewport height.',
+                        };
+                    } catch (e) {
+                        updateMessage(captureMessageId, { content: isAbortError(e) ? 'Stopped capturing the preview.' : 'Could not capture the preview.' });
+                        toolResult = { success: false, error: e instanceof Error ? e.message : 'Unknown error while capturing the preview.' };
+                    }
+                    break;
+                }
+                case 'run_command': {
+                    const command = String(args.command ?? '');
+                    const argv = parseCommand(command);
+                    const policyError = Array.isArray(argv) ? getCommandPolicyError(argv, agentSettingsService.getSettings()) : argv.error;
+                    const liveWC = isBootingRef.current ? null : webcontainerRef.current;
+                    const environment = args.environment === 'live' || args.environment === 'verification'
+                        ? args.environment
+                        : (liveWC ? 'live' : 'verification');
+                    if (policyError || !Array.isArray(argv)) {
+                        toolResult = { success: false, error: policyError };
+                        break;
+                    }
+                    if (environment === 'live' && !liveWC) {
+                        toolResult = { success: false, error: "The preview isn't running. Use environment 'verification' instead." };
+                        break;
+                    }
+
+                    const commandMessageId = Date.now().toString() + Math.random();
+                    let streamedOutput = '';
+                    const showOutput = (output: string, exitCode?: number | null) => updateMessage(commandMessageId, {
+                        actions: [{ type: 'COMMAND', target: command, output: truncateOutput(output), exitCode }],
+                        ...(exitCode !== undefined && { isLoading: false }),
+                    });
+                    addMessage({ id: commandMessageId, role: 'assistant', content: '', actions: [{ type: 'COMMAND', target: command, output: '' }], isLoading: true });
+
+                    const timeoutSeconds = Math.min(Math.max(Number(args.timeout_seconds) || 60, 1), 300);
+                    const onOutput = (data: string) => {
+                        streamedOutput += data;
+                        showOutput(stripAnsi(streamedOutput));
+                    };
+                    // Runs the command in `root` of `wc` and reads back which files it touched, compared
+                    // with what the container held before (`baseline`).
+                    const execute = async (wc: WebContainer, root: string, baseline: FileSystem) => {
+                        if (streamedOutput) onOutput(`\n$ ${command}\n`);
+                        const result = await runProcess(wc, argv, { cwd: root || undefined, timeoutMs: timeoutSeconds * 1000, signal, onOutput });
+                        showOutput(stripAnsi(streamedOutput), result.exitCode);
+                        if (signal?.aborted) throw new DOMException('The agent was stopped.', 'AbortError');
+                        return { result, ...(await collectFileChanges(wc, baseline, root)) };
+                    };
+
+                    try {
+                        const baseline = environment === 'live' ? previousLiveFileSystemRef.current : tempFileSystem;
+                        const { result, changed, deleted } = environment === 'live'
+                            ? await execute(liveWC!, '', baseline)
+                            : (await untilStopped(verificationService.run(
+                                tempFileSystem,
+                                { host: webcontainerRef.current, projectId: project.id, signal, onOutput },
+                                (wc, cwd) => execute(wc, cwd, baseline)
+                            ), signal)).result;
+
+                        // In the live preview, only pick up files the draft hasn't changed since, so the
+                        // command doesn't overwrite edits made earlier in this run.
+                        const conflicts = environment === 'live'
+                            ? [...Object.keys(changed), ...deleted].filter(path => tempFileSystem[path] !== baseline[path])
+                            : [];
+                        const newFs = { ...tempFileSystem };
+                        const applied: string[] = [];
+                        for (const [path, content] of Object.entries(changed)) {
+                            if (conflicts.includes(path)) continue;
+                            newFs[path] = content;
+                            applied.push(path);
+                        }
+                        for (const path of deleted) {
+                            if (conflicts.includes(path)) continue;
+                            delete newFs[path];
+                            applied.push(path);
                         }
+                        tempFileSystem = newFs;
+                        edits.push(...applied);
+
+                        toolResult = {
+                            success: result.exitCode === 0,
+                            environment,
+                            exit_code: result.exitCode,
+                            ...(result.timedOut && { error: `Killed after ${timeoutSeconds} seconds.` }),
+                            output: truncateOutput(result.output) || '(no output)',
+                            files_changed: applied,
+                            ...(conflicts.length > 0 && {
+                                files_not_applied: conflicts,
+                                note: 'These files also changed in your draft since the last finished task, so the command\'s version was not applied. Update them yourself if needed.',
+                            }),
+                        };
+                    } catch (e) {
+                        if (isAbortError(e)) showOutput(stripAnsi(streamedOutput), null);
+                        else showOutput(e instanceof Error ? e.message : String(e), null);
+                        toolResult = { success: false, environment, error: e instanceof Error ? e.message : 'Unknown error while running the command.' };
                     }
                     break;
                 }
                 case 'search_pexels_for_images':
-                    const pexelsApiKey = localStorage.getItem('pexels_api_key');
-                    if (!pexelsApiKey) {
+                    if (!keyVaultService.hasKey('pexels')) {
                         toolResult = { success: false, error: 'Pexels API key is missing. Please ask the user to add it via the "Manage API Keys" option.' };
                     } else {
                         try {
                             const query = encodeURIComponent(args.query as string);
                             const orientation = args.orientation || 'landscape';
-                            const pexelsUrl = `/api/pexels/v1/search?query=${query}&orientation=${orientation}&per_page=1`;
+                            const pexelsUrl = `/api/search-pexels?query=${query}&orientation=${orientation}`;
                             
                             const pexelsResponse = await fetch(pexelsUrl, {
-                                headers: { 'Authorization': pexelsApiKey }
+                                headers: { 'Authorization': `Bearer ${session?.access_token}` }
                             });
 
                             if (!pexelsResponse.ok) {
@@ -706,12 +1283,14 @@ const IdeLayout: React.FC<IdeLayoutProps> = ({
                     }
                     break;
                 case 'chat':
-                    addMessage({ role: 'assistant', content: args.response as string });
+                    addMessage({ role: 'assistant', content: args.response as string, runUsage: runUsageRef.current });
+                    recordFinalTurn(call, { success: true });
                     setAgentActivity(null);
                     return; // End of processing for this turn
                 case 'finish_task':
-                    addMessage({ role: 'assistant', content: args.summary as string });
+                    addMessage({ role: 'assistant', content: args.summary as string, runUsage: runUsageRef.current });
                     toolResult = { success: true, summary: args.summary };
+                    recordFinalTurn(call, toolResult);
                     
                     // This is the handover point. The verified draft becomes the new live version.
                     setLiveFileSystem(tempFileSystem);
@@ -723,7 +1302,7 @@ const IdeLayout: React.FC<IdeLayoutProps> = ({
                     
                     if (!project.id && project.name) {
                         try {
-                            const newProject = await projectService.createProject(project.name, aiProvider, tempFileSystem);
+                            const newProject = await projectService.createProject(project.name, aiProvider, tempFileSystem, modelSettings);
                             setProject(newProject);
                             onProjectDataChange(newProject);
                             lastSavedFileSystem.current = tempFileSystem;
@@ -738,36 +1317,96 @@ const IdeLayout: React.FC<IdeLayoutProps> = ({
             }
         }
         functionCallParts.push({ functionCall: call });
-        functionResponseParts.push({ functionResponse: { name, response: toolResult } });
+        functionResponseParts.push({ functionResponse: { id: call.id, name, response: toolResult } });
     }
 
     applyEditsToState(tempFileSystem);
 
     if (functionCallParts.length > 0) {
-        conversationHistoryRef.current.push({ role: 'model', parts: functionCallParts });
-        conversationHistoryRef.current.push({ role: 'function', parts: functionResponseParts });
+        conversationHistoryRef.current.push({ role: 'model', parts: [...modelTextParts, ...functionCallParts] });
+        conversationHistoryRef.current.push({ role: 'function', parts: [...functionResponseParts, ...imageParts] });
 
-        const nextResponse = await generateContentWithTools(aiProvider, conversationHistoryRef.current, tempFileSystem);
+        if (signal?.aborted) {
+            throw new DOMException('The agent was stopped.', 'AbortError');
+        }
+        const limitReason = getRunLimitReason(agentSettingsService.getSettings(), {
+            turns: runTurnsRef.current,
+            buildAttempts: runBuildAttemptsRef.current,
+            lastBuildError: lastBuildErrorRef.current,
+            usage: runUsageRef.current,
+        });
+        if (limitReason) {
+            giveUp(limitReason);
+            return;
+        }
+        setAgentActivity('MominAI is thinking...');
+        const nextResponse = await streamAgentTurn(conversationHistoryRef.current, tempFileSystem);
         await processAgentResponse(nextResponse, tempFileSystem);
     } else if (response.text) {
-        addMessage({ role: 'assistant', content: response.text });
-        conversationHistoryRef.current.push({ role: 'model', parts: [{ text: response.text }] });
+        conversationHistoryRef.current.push({ role: 'model', parts: modelTextParts });
         setAgentActivity(null);
     } else {
         addMessage({ role: 'assistant', content: "Agent finished its turn without text or tool calls." });
         setAgentActivity(null);
     }
-  }, [activeFile, aiProvider, project.id, project.name, onProjectDataChange]);
+  }, [activeFile, aiProvider, modelSettings, project.id, project.name, onProjectDataChange, streamAgentTurn, session]);
+
+
+  // Aborts the in-flight model call and build verification. The running handler then unwinds with
+  // an AbortError and calls handleAgentStopped.
+  const handleStop = useCallback(() => {
+    abortControllerRef.current?.abort();
+    setAgentActivity('Stopping...');
+  }, []);
+
+  const handleAgentStopped = () => {
+    conversationHistoryRef.current.push(STOPPED_TURN);
+    addMessage({ role: 'assistant', content: 'Stopped. Send a message to continue from here.', runUsage: runUsageRef.current });
+    setAgentActivity(null);
+    setIsBuilding(false);
+  };
 
+  // Ends the run when it hits a limit from Settings > Run Limits. The note in the history lets the
+  // model pick up where it left off if the user chooses to continue.
+  const giveUp = (reason: string) => {
+    conversationHistoryRef.current.push({ role: 'model', parts: [{ text: `[Gave up: ${reason}]` }] });
+    addMessage({ role: 'assistant', content: `MominAI gave up: ${reason}`, runUsage: runUsageRef.current });
+    setGaveUp({ reason, lastBuildError: lastBuildErrorRef.current });
+    setAgentActivity(null);
+    setIsBuilding(false);
+  };
 
-  const handlePromptSubmit = useCallback(async (promptText: string, attachments: { mimeType: string; data: string }[]) => {
+  // `continueRun` resumes after the agent gave up: the limits start over, but a roll back still
+  // returns to the draft from before the original prompt.
+  const handlePromptSubmit = useCallback(async (promptText: string, attachments: { mimeType: string; data: string }[], continueRun = false) => {
     setAgentActivity('MominAI is thinking...');
+    // One run per project at a time, across everyone who has it open. Waiting for queued
+    // conversation syncs first lets the previous run's lock release go through before this run
+    // takes the lock.
+    await conversationSyncChainRef.current;
+    const lock = await collaboration.acquireAgentLock();
+    if (!lock.acquired) {
+        addMessage({ role: 'assistant', content: `${lock.holderName || 'A collaborator'} is already running MominAI in this project. Try again once it has finished.` });
+        setAgentActivity(null);
+        return;
+    }
+    await reloadHistoryIfStale();
+    setGaveUp(null);
+    runUsageRef.current = undefined;
+    runTurnsRef.current = 0;
+    runBuildAttemptsRef.current = 0;
+    lastBuildErrorRef.current = undefined;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     
     // FIX: Do not reset draftFileSystem. The agent should continue working on the current draft.
     const currentDraft = { ...draftFileSystem };
+    if (!continueRun) {
+        runStartFileSystemRef.current = currentDraft;
+    }
 
     const attachmentUrls = attachments.map(a => `data:${a.mimeType};base64,${a.data}`);
-    addMessage({ role: 'user', content: promptText });
+    addMessage({ role: 'user', content: promptText, author: collaborationUser || undefined });
     
     const userParts: any[] = [{ text: promptText }];
     for (const attachment of attachments) {
@@ -785,9 +1424,13 @@ const IdeLayout: React.FC<IdeLayoutProps> = ({
 
     try {
       // FIX: Pass the current draft file system to the AI for context and as the starting point for edits.
-      const response = await generateContentWithTools(aiProvider, conversationHistoryRef.current, currentDraft);
+      const response = await streamAgentTurn(conversationHistoryRef.current, currentDraft);
       await processAgentResponse(response, currentDraft);
     } catch (error) {
+      if (controller.signal.aborted || isAbortError(error)) {
+        handleAgentStopped();
+        return;
+      }
       const errorMessage = error instanceof Error ? error.message : String(error);
       
       addMessage({
@@ -803,7 +1446,26 @@ const IdeLayout: React.FC<IdeLayoutProps> = ({
       setAgentActivity(null);
       setIsBuilding(false);
     }
-  }, [draftFileSystem, processAgentResponse, aiProvider, onManageKeysClick]);
+  }, [draftFileSystem, processAgentResponse, streamAgentTurn, onManageKeysClick, collaboration.acquireAgentLock, collaborationUser]);
+
+  const handleFixRuntimeErrors = () => {
+    if (previewErrors.errors.length === 0) return;
+    handlePromptSubmit(formatRuntimeErrorsPrompt(previewErrors.errors), []);
+    previewErrors.clear();
+  };
+
+  const handleContinueRun = () => {
+    handlePromptSubmit('Continue working on the task from where you stopped.', [], true);
+  };
+
+  const handleRollBackRun = () => {
+    const restored = runStartFileSystemRef.current;
+    setDraftFileSystem(restored);
+    if (activeFile && restored[activeFile] === undefined) setActiveFile(null);
+    conversationHistoryRef.current.push({ role: 'model', parts: [{ text: '[The user rolled back every file change made in this run.]' }] });
+    addMessage({ role: 'assistant', content: 'Rolled back the files to how they were before this run.' });
+    setGaveUp(null);
+  };
 
   const handlePlanApproved = useCallback(async () => {
     if (!pendingPlan) return;
@@ -813,22 +1475,29 @@ const IdeLayout: React.FC<IdeLayoutProps> = ({
     setMessages(prev => prev.map(m => m.id === messageId ? { ...m, isAwaitingApproval: false } : m));
     setPendingPlan(null);
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     const { call, result } = planData;
-    const functionResponseParts = [{ functionResponse: { name: call.name, response: result } }];
+    const functionResponseParts = [{ functionResponse: { id: call.id, name: call.name, response: result } }];
     
     conversationHistoryRef.current.push({ role: 'function', parts: functionResponseParts });
 
     try {
         setAgentActivity('MominAI is executing the plan...');
-        const nextResponse = await generateContentWithTools(aiProvider, conversationHistoryRef.current, fsAtPlanTime);
+        const nextResponse = await streamAgentTurn(conversationHistoryRef.current, fsAtPlanTime);
         await processAgentResponse(nextResponse, fsAtPlanTime);
     } catch (error) {
+       if (controller.signal.aborted || isAbortError(error)) {
+           handleAgentStopped();
+           return;
+       }
        const errorMessage = error instanceof Error ? error.message : String(error);
        addMessage({ role: 'assistant', content: `An error occurred after plan approval: ${errorMessage}`});
        setAgentActivity(null);
        setIsBuilding(false);
     }
-  }, [pendingPlan, aiProvider, processAgentResponse]);
+  }, [pendingPlan, streamAgentTurn, processAgentResponse]);
 
   const handlePlanRejected = useCallback(() => {
     if (!pendingPlan) return;
@@ -843,10 +1512,9 @@ const IdeLayout: React.FC<IdeLayoutProps> = ({
         content: "Plan rejected. The agent has stopped. Please refine your prompt and try again."
     });
     
-    // Pop the last two messages from history: the user prompt and the model's plan
+    // Drop the last two turns from history: the user prompt and the model's plan_steps call
     if (conversationHistoryRef.current.length >= 2) {
-        conversationHistoryRef.current.pop(); // model's plan_steps call
-        conversationHistoryRef.current.pop(); // user's prompt
+        truncateHistory(conversationHistoryRef.current.length - 2);
     }
 
   }, [pendingPlan]);
@@ -866,6 +1534,55 @@ const IdeLayout: React.FC<IdeLayoutProps> = ({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [project.id, project.name, isDesktop]);
   
+  const handleRestoreVersion = async (version: ProjectVersion) => {
+    const restoredAt = new Date(version.created_at).toLocaleString();
+    pendingCheckpointRef.current = { summary: `Restored the checkpoint from ${restoredAt}`, sourceVersionId: version.id };
+    setDraftFileSystem(version.file_system);
+    setLiveFileSystem(version.file_system);
+    setGaveUp(null);
+    addMessage({ role: 'assistant', content: `Restored the files from the checkpoint of ${restoredAt}.` });
+  };
+
+  const handleForkVersion = async (version: ProjectVersion, name: string) => {
+    await projectService.forkProjectVersion(version, name, aiProvider, modelSettings);
+  };
+
+  const handleKeepRemoteVersion = async () => {
+    const saved = await projectSync.keepRemote();
+    if (!saved) return;
+    lastSavedFileSystem.current = saved.file_system;
+    setDraftFileSystem(saved.file_system);
+    setLiveFileSystem(saved.file_system);
+    setProject(prev => ({ ...prev, updated_at: saved.updated_at }));
+    onProjectDataChange(saved);
+    collaboration.publish();
+  };
+
+  const handleOpenMerge = async () => {
+    setMergeModal({ isOpen: true, conflict: null });
+    try {
+        const conflict = await projectSync.loadConflict();
+        if (conflict) {
+            setMergeModal({ isOpen: true, conflict });
+        } else {
+            setMergeModal({ isOpen: false, conflict: null });
+        }
+    } catch (error) {
+        console.error("Loading the conflicting version failed:", error);
+        setMergeModal({ isOpen: false, conflict: null });
+        alert(`Couldn't load the other version: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleSaveMerge = async (merged: FileSystem) => {
+    if (!mergeModal.conflict) return;
+    await projectSync.keepMerged(merged, mergeModal.conflict);
+    lastSavedFileSystem.current = merged;
+    setDraftFileSystem(merged);
+    setLiveFileSystem(merged);
+    collaboration.publish();
+  };
+
   const handleExitWithConfirmation = () => {
     if (window.confirm("Are you sure you want to exit? The development server will be shut down and will need to restart if you return.")) {
       onExit();
@@ -874,6 +1591,29 @@ const IdeLayout: React.FC<IdeLayoutProps> = ({
   
   return (
     <div className="flex flex-col h-screen bg-ide-bg text-white font-sans">
+      <VersionHistoryModal
+        isOpen={isVersionHistoryOpen}
+        onClose={() => setIsVersionHistoryOpen(false)}
+        projectId={project.id || null}
+        projectName={project.name || 'New Project'}
+        currentFileSystem={liveFileSystem}
+        canRestore={!agentActivity && !pendingPlan && !isRemoteAgentRunning}
+        onRestore={handleRestoreVersion}
+        onFork={handleForkVersion}
+        onCompare={showDiffModal}
+      />
+      <MergeConflictModal
+        isOpen={mergeModal.isOpen}
+        onClose={() => setMergeModal({ isOpen: false, conflict: null })}
+        conflict={mergeModal.conflict}
+        onSave={handleSaveMerge}
+      />
+      <ShareModal
+        isOpen={isShareOpen}
+        onClose={() => setIsShareOpen(false)}
+        projectId={project.id || null}
+        isOwner={!project.id || project.user_id === session?.user.id}
+      />
       <DiffModal 
         isOpen={diffModalData.isOpen}
         onClose={closeDiffModal}
@@ -889,9 +1629,22 @@ const IdeLayout: React.FC<IdeLayoutProps> = ({
         projectUpdatedAt={project.updated_at}
         onOpenSettings={() => onOpenSettings(project.id)}
         onOpenGithubModal={onOpenGithubModal}
+        onOpenVersionHistory={() => setIsVersionHistoryOpen(true)}
+        onOpenShare={() => setIsShareOpen(true)}
+        collaborators={collaboration.collaborators}
         mobileView={mobileView}
         onMobileViewChange={setMobileView}
+        syncStatus={projectSync.status}
+        syncError={projectSync.error}
       />
+      {projectSync.status === 'conflict' && (
+        <SyncConflictBanner
+          conflictUpdatedAt={projectSync.conflictUpdatedAt}
+          onKeepLocal={projectSync.keepLocal}
+          onKeepRemote={agentActivity || isRemoteAgentRunning ? undefined : handleKeepRemoteVersion}
+          onMerge={agentActivity || isRemoteAgentRunning ? undefined : handleOpenMerge}
+        />
+      )}
       <div className="flex flex-row flex-grow overflow-hidden min-h-0">
         <div
           style={isDesktop ? { width: leftPanelWidth } : {}}
@@ -902,15 +1655,23 @@ const IdeLayout: React.FC<IdeLayoutProps> = ({
             messages={messages}
             onPromptSubmit={handlePromptSubmit}
             agentActivity={agentActivity}
+            remoteAgentActivity={isRemoteAgentRunning ? `${collaboration.agentHolder!.name} is running MominAI...` : null}
             viewMode={viewMode}
             onViewModeChange={setViewMode}
             aiProvider={aiProvider}
-            onAiProviderChange={setAiProvider}
+            onAiProviderChange={handleAiProviderChange}
+            modelSettings={resolveModelSettings(aiProvider, modelSettings)}
+            onModelSettingsChange={handleModelSettingsChange}
             onManageKeysClick={onManageKeysClick}
             onShowDiff={showDiffModal}
             pendingPlanMessageId={pendingPlan?.messageId || null}
             onPlanApproved={handlePlanApproved}
             onPlanRejected={handlePlanRejected}
+            onStop={handleStop}
+            gaveUp={gaveUp}
+            onContinueRun={handleContinueRun}
+            onRollBackRun={handleRollBackRun}
+            onDismissGaveUp={() => setGaveUp(null)}
           />
         </div>
         {isDesktop && <div onMouseDown={startResize} className="resizer" />}
@@ -925,6 +1686,20 @@ const IdeLayout: React.FC<IdeLayoutProps> = ({
               isBuilding={isBuilding}
               iframeUrl={iframeUrl}
               previewStatus={previewStatus}
+              terminal={terminal}
+              canOpenShell={isContainerReady}
+              onOpenShell={handleOpenShell}
+              diagnostics={diagnostics}
+              testResults={testResults}
+              isRunningTests={isRunningTests}
+              testRunError={testRunError}
+              onRunTests={handleRunTests}
+              runtimeErrors={previewErrors.errors}
+              onClearRuntimeErrors={previewErrors.clear}
+              onFixRuntimeErrors={isBuilding ? undefined : handleFixRuntimeErrors}
+              isReadOnly={isRemoteAgentRunning}
+              remoteCursors={collaboration.remoteCursors}
+              onCursorChange={collaboration.setCursor}
           />
         </div>
       </div>
@@ -1,9 +1,10 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { ChatMessage, AiProvider } from '../types';
-import { ArrowUpIcon, PlusIcon, CodeBracketIcon, MicrophoneIcon, XCircleIcon } from './icons/Icons';
+import { ChatMessage, AiProvider, ModelSettings } from '../types';
+import { ArrowUpIcon, PlusIcon, CodeBracketIcon, MicrophoneIcon, XCircleIcon, StopIcon } from './icons/Icons';
 import AiProviderDropdown from './AiProviderDropdown';
 import { fileToBase64 } from '../utils/fileUtils';
 import { MessageStream } from './MessageStream';
+import AgentGaveUpNotice, { AgentGaveUpState } from './AgentGaveUpNotice';
 
 // Fix for SpeechRecognition API types not being available in default lib.
 interface SpeechRecognition extends EventTarget {
@@ -30,14 +31,23 @@ interface LeftPanelProps {
   messages: ChatMessage[];
   onPromptSubmit: (prompt: string, attachments: { mimeType: string; data: string }[]) => void;
   agentActivity: string | null;
+  // What a collaborator's agent run is doing. The prompt is disabled meanwhile, but only they can stop it.
+  remoteAgentActivity?: string | null;
   viewMode: 'preview' | 'code';
   onViewModeChange: (mode: 'preview' | 'code') => void;
   aiProvider: AiProvider;
   onAiProviderChange: (provider: AiProvider) => void;
+  modelSettings: ModelSettings;
+  onModelSettingsChange: (settings: ModelSettings) => void;
   onManageKeysClick: () => void;
   pendingPlanMessageId: string | null;
   onPlanApproved: () => void;
   onPlanRejected: () => void;
+  onStop: () => void;
+  gaveUp: AgentGaveUpState | null;
+  onContinueRun: () => void;
+  onRollBackRun: () => void;
+  onDismissGaveUp: () => void;
 }
 
 
@@ -47,15 +57,23 @@ const LeftPanel: React.FC<LeftPanelProps> = ({
     messages, 
     onPromptSubmit, 
     agentActivity, 
+    remoteAgentActivity,
     viewMode, 
     onViewModeChange, 
     aiProvider, 
     onAiProviderChange, 
+    modelSettings,
+    onModelSettingsChange,
     onManageKeysClick, 
     onShowDiff, 
     pendingPlanMessageId,
     onPlanApproved,
-    onPlanRejected
+    onPlanRejected,
+    onStop,
+    gaveUp,
+    onContinueRun,
+    onRollBackRun,
+    onDismissGaveUp
 }) => {
   const [prompt, setPrompt] = useState('');
   const [attachments, setAttachments] = useState<File[]>([]);
@@ -67,11 +85,13 @@ const LeftPanel: React.FC<LeftPanelProps> = ({
   const recognitionRef = useRef<SpeechRecognition | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
+  const activity = agentActivity || remoteAgentActivity || null;
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth", block: 'end' });
   };
   
-  useEffect(scrollToBottom, [messages, agentActivity]);
+  useEffect(scrollToBottom, [messages, activity]);
 
   const handleFileChange = (files: FileList | null) => {
     if (files) {
@@ -142,7 +162,7 @@ const LeftPanel: React.FC<LeftPanelProps> = ({
   
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if ((prompt.trim() || attachments.length > 0) && !agentActivity) {
+    if ((prompt.trim() || attachments.length > 0) && !activity) {
       const processedAttachments = await Promise.all(
         attachments.map(async (file) => {
           const base64Data = await fileToBase64(file);
@@ -190,18 +210,28 @@ const LeftPanel: React.FC<LeftPanelProps> = ({
         
         <MessageStream chatHistory={messages} />
 
-        {agentActivity && !pendingPlanMessageId && (
+        {activity && !pendingPlanMessageId && (
             <div className="flex items-center space-x-2 text-brand-muted px-4">
                 <div className="w-2 h-2 bg-brand-muted rounded-full animate-pulse [animation-delay:-0.3s]"></div>
                 <div className="w-2 h-2 bg-brand-muted rounded-full animate-pulse [animation-delay:-0.15s]"></div>
                 <div className="w-2 h-2 bg-brand-muted rounded-full animate-pulse"></div>
-                <span className="text-sm">{agentActivity}</span>
+                <span className="text-sm">{activity}</span>
             </div>
         )}
         <div ref={messagesEndRef} />
       </div>
 
       <div className="flex-shrink-0 p-4 border-t border-brand-subtle bg-ide-bg">
+        {gaveUp && !agentActivity && (
+          <AgentGaveUpNotice
+            state={gaveUp}
+            aiProvider={aiProvider}
+            onAiProviderChange={onAiProviderChange}
+            onContinue={onContinueRun}
+            onRollBack={onRollBackRun}
+            onDismiss={onDismissGaveUp}
+          />
+        )}
         <form onSubmit={handleSubmit} className="bg-brand-surface border border-brand-subtle rounded-2xl p-3 flex flex-col">
           {attachments.length > 0 && (
             <div className="flex items-center space-x-2 mb-2 overflow-x-auto p-1">
@@ -229,30 +259,44 @@ const LeftPanel: React.FC<LeftPanelProps> = ({
             placeholder={pendingPlanMessageId ? "Waiting for plan approval..." : "Ask MominAI..."}
             className="w-full bg-transparent text-sm text-white placeholder-brand-muted focus:outline-none resize-none overflow-y-hidden max-h-48"
             rows={1}
-            disabled={!!agentActivity || !!pendingPlanMessageId}
+            disabled={!!activity || !!pendingPlanMessageId}
           />
           <div className="flex justify-between items-center mt-2">
             <div className="flex items-center space-x-1">
                 <input type="file" ref={fileInputRef} onChange={e => handleFileChange(e.target.files)} multiple accept="image/*" className="hidden" />
-                <button type="button" onClick={() => fileInputRef.current?.click()} className="p-2 rounded-full hover:bg-brand-subtle/50 text-brand-muted hover:text-white"  disabled={!!agentActivity || !!pendingPlanMessageId}>
+                <button type="button" onClick={() => fileInputRef.current?.click()} className="p-2 rounded-full hover:bg-brand-subtle/50 text-brand-muted hover:text-white"  disabled={!!activity || !!pendingPlanMessageId}>
                     <PlusIcon className="w-5 h-5" />
                 </button>
-                <button type="button" onClick={handleToggleListening} className={`p-2 rounded-full hover:bg-brand-subtle/50 text-brand-muted hover:text-white ${isListening ? 'text-red-500 animate-pulse' : ''}`} disabled={!!agentActivity || !!pendingPlanMessageId}>
+                <button type="button" onClick={handleToggleListening} className={`p-2 rounded-full hover:bg-brand-subtle/50 text-brand-muted hover:text-white ${isListening ? 'text-red-500 animate-pulse' : ''}`} disabled={!!activity || !!pendingPlanMessageId}>
                     <MicrophoneIcon className="w-5 h-5"/>
                 </button>
                 <AiProviderDropdown 
                     selectedProvider={aiProvider}
                     onProviderChange={onAiProviderChange}
+                    modelSettings={modelSettings}
+                    onModelSettingsChange={onModelSettingsChange}
                     onManageKeysClick={onManageKeysClick}
                 />
             </div>
-            <button
-                type="submit"
-                className="bg-gray-200 text-black rounded-full p-2.5 hover:bg-white transition-colors disabled:opacity-50 disabled:bg-gray-600"
-                disabled={(!prompt.trim() && attachments.length === 0) || !!agentActivity || !!pendingPlanMessageId}
-            >
-                <ArrowUpIcon className="w-5 h-5" />
-            </button>
+            {agentActivity && !pendingPlanMessageId ? (
+                <button
+                    type="button"
+                    onClick={onStop}
+                    title="Stop the agent"
+                    className="bg-gray-200 text-black rounded-full p-2.5 hover:bg-white transition-colors disabled:opacity-50 disabled:bg-gray-600"
+                    disabled={agentActivity === 'Stopping...'}
+                >
+                    <StopIcon className="w-5 h-5" fill="currentColor" />
+                </button>
+            ) : (
+                <button
+                    type="submit"
+                    className="bg-gray-200 text-black rounded-full p-2.5 hover:bg-white transition-colors disabled:opacity-50 disabled:bg-gray-600"
+                    disabled={(!prompt.trim() && attachments.length === 0) || !!activity || !!pendingPlanMessageId}
+                >
+                    <ArrowUpIcon className="w-5 h-5" />
+                </button>
+            )}
           </div>
         </form>
       </div>
@@ -0,0 +1,192 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { FileSystem } from '../types';
+import { SyncConflict } from '../services/syncService';
+import { applyMergeChoices, FileChange, getMergeEntries, MergeSide } from '../utils/mergeUtils';
+import { AlertTriangleIcon, SpinnerIcon } from './icons/Icons';
+
+interface MergeConflictModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Null while both sides are loading.
+  conflict: SyncConflict | null;
+  onSave: (merged: FileSystem) => Promise<void>;
+}
+
+const CHANGE_LABELS: Record<FileChange, string> = {
+  added: 'Added',
+  modified: 'Modified',
+  deleted: 'Deleted',
+  unchanged: 'Unchanged',
+};
+
+const FilePane: React.FC<{
+  title: string;
+  change: FileChange;
+  content: string | undefined;
+  isChosen: boolean;
+  onChoose: () => void;
+}> = ({ title, change, content, isChosen, onChoose }) => (
+  <div className={`flex flex-col min-h-0 rounded-lg border ${isChosen ? 'border-brand-accent' : 'border-brand-subtle'}`}>
+    <div className="flex-shrink-0 flex items-center justify-between px-3 py-2 border-b border-brand-subtle text-sm">
+      <div className="min-w-0">
+        <span className="font-medium text-white">{title}</span>
+        <span className="ml-2 text-xs text-brand-muted">{CHANGE_LABELS[change]}</span>
+      </div>
+      <button
+        onClick={onChoose}
+        className={`px-3 py-1 rounded-md text-xs ${isChosen ? 'bg-brand-accent text-white' : 'bg-brand-surface hover:bg-brand-subtle/50 text-brand-muted hover:text-white'}`}
+      >
+        {isChosen ? 'Keeping this' : 'Keep this'}
+      </button>
+    </div>
+    <div className="flex-grow overflow-auto p-3 font-mono text-xs">
+      {content === undefined ? (
+        <p className="text-brand-muted italic">File deleted on this side.</p>
+      ) : content.startsWith('base64:') ? (
+        <p className="text-brand-muted">Binary file content not displayed.</p>
+      ) : (
+        <pre className="text-gray-200 whitespace-pre-wrap break-all">{content}</pre>
+      )}
+    </div>
+  </div>
+);
+
+// Merges unsynced files from this device with a version saved elsewhere, one file at a time.
+// Files only one side changed start on that side; files both sides changed are flagged.
+const MergeConflictModal: React.FC<MergeConflictModalProps> = ({ isOpen, onClose, conflict, onSave }) => {
+  const [choices, setChoices] = useState<Record<string, MergeSide>>({});
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const entries = useMemo(
+    () => conflict ? getMergeEntries(conflict.local, conflict.remote.file_system, conflict.base) : [],
+    [conflict]
+  );
+
+  useEffect(() => {
+    setChoices(Object.fromEntries(entries.map(entry => [entry.path, entry.defaultSide])));
+    setSelectedPath(entries.find(entry => entry.isConflict)?.path ?? entries[0]?.path ?? null);
+    setError(null);
+  }, [entries]);
+
+  if (!isOpen) return null;
+
+  const conflictCount = entries.filter(entry => entry.isConflict).length;
+  const selected = entries.find(entry => entry.path === selectedPath);
+
+  const chooseAll = (side: MergeSide) => {
+    setChoices(Object.fromEntries(entries.map(entry => [entry.path, side])));
+  };
+
+  const save = async () => {
+    if (!conflict) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(applyMergeChoices(conflict.local, conflict.remote.file_system, choices));
+      onClose();
+    } catch (e) {
+      console.error("Saving the merge failed:", e);
+      setError(e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-brand-surface rounded-xl border border-brand-subtle w-full max-w-6xl h-[85vh] p-4 shadow-2xl mx-4 flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex-shrink-0 flex justify-between items-center mb-4 pb-4 border-b border-brand-subtle">
+          <div>
+            <h2 className="text-xl font-semibold">Merge Changes</h2>
+            {conflict && (
+              <p className="text-sm text-brand-muted mt-1">
+                {entries.length} {entries.length === 1 ? 'file differs' : 'files differ'} from the version saved at {new Date(conflict.remote.updated_at).toLocaleString()}
+                {conflictCount > 0 && `; ${conflictCount} changed on both sides`}.
+              </p>
+            )}
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-full hover:bg-brand-subtle/50 text-brand-muted hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {!conflict ? (
+          <div className="flex-grow flex items-center justify-center text-brand-muted">
+            <SpinnerIcon className="w-5 h-5 animate-spin mr-2" />
+            <span>Loading both versions...</span>
+          </div>
+        ) : (
+          <div className="flex-grow flex flex-row min-h-0">
+            <div className="w-1/4 flex-shrink-0 pr-4 border-r border-brand-subtle overflow-y-auto">
+              <ul className="space-y-1">
+                {entries.map(entry => (
+                  <li key={entry.path}>
+                    <button
+                      onClick={() => setSelectedPath(entry.path)}
+                      className={`w-full text-left p-2 rounded-md text-sm flex items-center space-x-2 ${selectedPath === entry.path ? 'bg-brand-accent/30 text-white' : 'hover:bg-brand-subtle/50'}`}
+                    >
+                      {entry.isConflict
+                        ? <AlertTriangleIcon className="w-3.5 h-3.5 text-yellow-400 flex-shrink-0" />
+                        : <span className="w-3.5 flex-shrink-0" />}
+                      <span className="truncate flex-grow" title={entry.path}>{entry.path}</span>
+                      <span className="text-xs text-brand-muted flex-shrink-0">{choices[entry.path] === 'remote' ? 'Theirs' : 'Mine'}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <div className="w-3/4 pl-4 flex flex-col min-h-0">
+              {selected ? (
+                <div className="flex-grow grid grid-cols-2 gap-4 min-h-0">
+                  <FilePane
+                    title="This device"
+                    change={selected.local}
+                    content={conflict.local[selected.path]}
+                    isChosen={choices[selected.path] === 'local'}
+                    onChoose={() => setChoices(prev => ({ ...prev, [selected.path]: 'local' }))}
+                  />
+                  <FilePane
+                    title="Saved elsewhere"
+                    change={selected.remote}
+                    content={conflict.remote.file_system[selected.path]}
+                    isChosen={choices[selected.path] === 'remote'}
+                    onChoose={() => setChoices(prev => ({ ...prev, [selected.path]: 'remote' }))}
+                  />
+                </div>
+              ) : (
+                <div className="flex-grow flex items-center justify-center text-brand-muted">
+                  <p>Both versions have the same files.</p>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {error && <p className="flex-shrink-0 mt-3 p-2 rounded-md bg-red-500/10 text-sm text-red-300">{error}</p>}
+        <div className="flex-shrink-0 mt-4 pt-4 border-t border-brand-subtle flex items-center justify-between">
+          <div className="flex items-center space-x-2 text-sm">
+            <button onClick={() => chooseAll('local')} disabled={!conflict} className="px-3 py-1.5 rounded-lg hover:bg-brand-subtle/50 text-brand-muted hover:text-white disabled:opacity-50">
+              Keep all mine
+            </button>
+            <button onClick={() => chooseAll('remote')} disabled={!conflict} className="px-3 py-1.5 rounded-lg hover:bg-brand-subtle/50 text-brand-muted hover:text-white disabled:opacity-50">
+              Keep all theirs
+            </button>
+          </div>
+          <button
+            onClick={save}
+            disabled={!conflict || isSaving}
+            className="flex items-center space-x-1.5 px-4 py-2 text-sm font-semibold rounded-lg bg-brand-accent hover:bg-blue-500 text-white disabled:opacity-50"
+          >
+            {isSaving && <SpinnerIcon className="w-4 h-4 animate-spin" />}
+            <span>Save merged files</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MergeConflictModal;
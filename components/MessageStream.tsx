@@ -2,6 +2,9 @@ import React, { useState, useEffect, useRef } from 'react';
 import type { ChatMessage, GroundingSource } from '../types';
 import { AIActionJournal } from './AIActionJournal';
 import { SparklesIcon, GlobeIcon, ChevronUpIcon, ChevronDownIcon } from './icons/Icons';
+import { getProvider, hasProvider } from '../services/providers/registry';
+import { formatCost } from '../services/usageService';
+import { useAuth } from '../contexts/AuthContext';
 
 // A simple markdown-to-html converter
 const formatMessage = (content: string) => {
@@ -123,6 +126,8 @@ interface MessageStreamProps {
 }
 
 export const MessageStream: React.FC<MessageStreamProps> = ({ chatHistory }) => {
+    const { user } = useAuth();
+
     if (chatHistory.length === 0) {
         return null;
     }
@@ -132,11 +137,18 @@ export const MessageStream: React.FC<MessageStreamProps> = ({ chatHistory }) =>
         {chatHistory.map((message, index) => {
             const isLastMessage = index === chatHistory.length - 1;
             const isStreaming = isLastMessage && message.isLoading && message.role === 'assistant';
+            // Live provider stream: render tokens as they arrive instead of the typewriter animation.
+            const isLiveStream = !!message.isStreaming;
 
             return (
                 <div key={index} className={`flex flex-col ${message.role === 'user' ? 'items-start' : 'items-start'}`}>
                 <div className={`text-xs font-semibold mb-1 px-1 ${message.role === 'user' ? 'text-gray-300 dark:text-gray-300' : 'text-blue-300 dark:text-blue-300'}`}>
-                    {message.role === 'user' ? 'You' : 'Assistant'}
+                    {message.role === 'user' ? (message.author && message.author.id !== user?.id ? message.author.name : 'You') : 'Assistant'}
+                    {message.servedBy && (
+                        <span className="font-normal text-gray-400 ml-2" title={message.servedBy.model}>
+                            via {hasProvider(message.servedBy.provider) ? getProvider(message.servedBy.provider).name : message.servedBy.provider}
+                        </span>
+                    )}
                 </div>
                 <div className={`p-3 rounded-lg max-w-full ${message.role === 'user' ? 'bg-black/10 dark:bg-black/20' : 'bg-transparent'}`}>
                     {message.image && (
@@ -149,8 +161,23 @@ export const MessageStream: React.FC<MessageStreamProps> = ({ chatHistory }) =>
                         </div>
                     )}
 
+                    {message.screenshots && message.screenshots.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mb-2">
+                            {message.screenshots.map(shot => (
+                                <div key={shot.label}>
+                                    <img
+                                        src={`data:${shot.mimeType};base64,${shot.base64}`}
+                                        alt={`Preview at ${shot.label}`}
+                                        className="h-32 w-auto max-w-[12rem] object-cover object-top rounded-lg border border-white/20"
+                                    />
+                                    <span className="block mt-0.5 text-xs text-gray-400">{shot.label}</span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
                     {/* Render thinking indicator */}
-                    {message.isLoading && (!message.actions || message.actions.length === 0) && !message.tasks && (
+                    {(message.isLoading || (isLiveStream && !message.content)) && (!message.actions || message.actions.length === 0) && !message.tasks && (
                           <div className="flex items-center text-gray-200 dark:text-gray-300">
                              <SparklesIcon className="w-5 h-5 mr-2 animate-pulse-opacity" />
                              <span>Thinking...</span>
@@ -162,12 +189,18 @@ export const MessageStream: React.FC<MessageStreamProps> = ({ chatHistory }) =>
                         <AIActionJournal
                             actions={message.actions || []}
                             tasks={message.tasks}
-                            isLoading={!!message.isLoading}
+                            isLoading={!!message.isLoading || isLiveStream}
                         />
                     )}
 
                     {/* Render message content */}
-                    {message.content && (
+                    {message.content && isLiveStream && (
+                        <div className="text-gray-100 dark:text-gray-200 whitespace-pre-wrap prose dark:prose-invert prose-sm prose-p:text-white prose-strong:text-white prose-code:text-white">
+                            <span dangerouslySetInnerHTML={formatMessage(message.content)} />
+                            <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-gray-300 animate-pulse" />
+                        </div>
+                    )}
+                    {message.content && !isLiveStream && (
                         isStreaming ?
                             <StreamingText text={message.content} /> :
                             <div
@@ -186,6 +219,12 @@ export const MessageStream: React.FC<MessageStreamProps> = ({ chatHistory }) =>
                     {message.usageMetadata && !message.isLoading && (
                         <div className="mt-4 pt-2 border-t border-white/20 text-right text-xs text-gray-300 dark:text-gray-400 font-mono">
                             {getTokenTier(message.usageMetadata.totalTokenCount)} · {message.usageMetadata.totalTokenCount.toLocaleString()} tokens
+                            {!!message.usageMetadata.costUsd && <> · {formatCost(message.usageMetadata.costUsd)}</>}
+                        </div>
+                    )}
+                    {message.runUsage && (
+                        <div className="mt-2 text-right text-xs text-gray-300 dark:text-gray-400 font-mono">
+                            Run total · {message.runUsage.totalTokenCount.toLocaleString()} tokens · {formatCost(message.runUsage.costUsd || 0)}
                         </div>
                     )}
                 </div>
@@ -0,0 +1,53 @@
+import React, { useMemo } from 'react';
+import { Diagnostic } from '../types';
+import { sortDiagnostics } from '../utils/diagnosticsUtils';
+import { XCircleIcon, AlertTriangleIcon, FileIcon } from './icons/Icons';
+
+interface ProblemsPanelProps {
+  diagnostics: Diagnostic[];
+  onSelect: (path: string, line: number) => void;
+}
+
+// Diagnostics from the last build verification, grouped by file.
+const ProblemsPanel: React.FC<ProblemsPanelProps> = ({ diagnostics, onSelect }) => {
+  const groups = useMemo(() => {
+    const byFile = new Map<string, Diagnostic[]>();
+    sortDiagnostics(diagnostics).forEach(d => byFile.set(d.file, [...(byFile.get(d.file) || []), d]));
+    return Array.from(byFile.entries());
+  }, [diagnostics]);
+
+  if (diagnostics.length === 0) {
+    return <p className="p-3 text-xs text-brand-muted">No problems found in the last build check.</p>;
+  }
+
+  return (
+    <div className="h-full overflow-y-auto p-1 text-xs">
+      {groups.map(([file, items]) => (
+        <div key={file} className="mb-1">
+          <div className="flex items-center space-x-1 px-1 py-0.5 text-white">
+            <FileIcon className="w-3.5 h-3.5 text-brand-muted flex-shrink-0" />
+            <span className="truncate" title={file}>{file}</span>
+            <span className="text-brand-muted">{items.length}</span>
+          </div>
+          {items.map((d, i) => (
+            <div
+              key={`${d.line}:${d.column}:${i}`}
+              onClick={() => onSelect(d.file, d.line)}
+              className="flex items-start space-x-1.5 pl-5 pr-1 py-0.5 rounded cursor-pointer hover:bg-brand-surface/50"
+            >
+              {d.severity === 'error'
+                ? <XCircleIcon className="w-3.5 h-3.5 mt-px text-red-400 flex-shrink-0" />
+                : <AlertTriangleIcon className="w-3.5 h-3.5 mt-px text-yellow-400 flex-shrink-0" />}
+              <span className="text-gray-200 break-words min-w-0">{d.message}</span>
+              <span className="text-brand-muted whitespace-nowrap">
+                {d.code ? `${d.source}(${d.code}) ` : `${d.source} `}[{d.line}, {d.column}]
+              </span>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ProblemsPanel;
@@ -0,0 +1,134 @@
+import React, { useMemo, useState } from 'react';
+import { FileSystem } from '../types';
+import { searchFileSystem, SearchMatch } from '../utils/searchUtils';
+import { FileIcon, MagnifyingGlassIcon, ChevronDownIcon, ChevronRightIcon } from './icons/Icons';
+
+interface SearchPanelProps {
+  fileSystem: FileSystem;
+  onResultSelect: (path: string, line: number) => void;
+}
+
+const MAX_RESULTS = 500;
+
+const ToggleButton: React.FC<{ active: boolean; onClick: () => void; title: string; children: React.ReactNode }> = ({ active, onClick, title, children }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    title={title}
+    className={`px-1.5 py-0.5 rounded text-xs font-mono ${active ? 'bg-brand-accent/40 text-white' : 'text-brand-muted hover:text-white'}`}
+  >
+    {children}
+  </button>
+);
+
+// Highlights the first match within a result line.
+const MatchLine: React.FC<{ match: SearchMatch; query: string; isRegex: boolean; caseSensitive: boolean }> = ({ match, query, isRegex, caseSensitive }) => {
+  const found = useMemo(() => {
+    try {
+      const escaped = isRegex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      return new RegExp(escaped, caseSensitive ? '' : 'i').exec(match.text);
+    } catch {
+      return null;
+    }
+  }, [match.text, query, isRegex, caseSensitive]);
+
+  const text = match.text.trimStart();
+  const trimmed = match.text.length - text.length;
+  if (!found || found.index < trimmed) return <span className="truncate">{text}</span>;
+  const start = found.index - trimmed;
+  return (
+    <span className="truncate">
+      {text.slice(0, start)}
+      <span className="bg-yellow-500/30 text-white rounded-sm">{text.slice(start, start + found[0].length)}</span>
+      {text.slice(start + found[0].length)}
+    </span>
+  );
+};
+
+const SearchPanel: React.FC<SearchPanelProps> = ({ fileSystem, onResultSelect }) => {
+  const [query, setQuery] = useState('');
+  const [isRegex, setIsRegex] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [glob, setGlob] = useState('');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const result = useMemo(
+    () => searchFileSystem(fileSystem, { query, isRegex, caseSensitive, glob: glob || undefined, maxResults: MAX_RESULTS }),
+    [fileSystem, query, isRegex, caseSensitive, glob]
+  );
+
+  const groups = useMemo(() => {
+    const byPath = new Map<string, SearchMatch[]>();
+    result.matches.forEach(match => byPath.set(match.path, [...(byPath.get(match.path) || []), match]));
+    return Array.from(byPath.entries());
+  }, [result]);
+
+  const toggleCollapsed = (path: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path); else next.add(path);
+      return next;
+    });
+  };
+
+  return (
+    <div className="flex flex-col min-h-0 flex-grow">
+      <div className="p-2 space-y-2 border-b border-brand-subtle">
+        <div className="relative">
+          <MagnifyingGlassIcon className="w-4 h-4 absolute left-2.5 top-1/2 -translate-y-1/2 text-brand-muted" />
+          <input
+            type="text"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Search in files"
+            autoFocus
+            className="w-full bg-brand-surface/80 border border-brand-subtle rounded-lg pl-8 pr-16 py-1.5 text-sm focus:outline-none focus:ring-1 focus:ring-brand-accent"
+          />
+          <div className="absolute right-1.5 top-1/2 -translate-y-1/2 flex items-center">
+            <ToggleButton active={caseSensitive} onClick={() => setCaseSensitive(v => !v)} title="Match case">Aa</ToggleButton>
+            <ToggleButton active={isRegex} onClick={() => setIsRegex(v => !v)} title="Use regular expression">.*</ToggleButton>
+          </div>
+        </div>
+        <input
+          type="text"
+          value={glob}
+          onChange={e => setGlob(e.target.value)}
+          placeholder="Files to include, e.g. src/**/*.tsx"
+          className="w-full bg-brand-surface/80 border border-brand-subtle rounded-lg px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-brand-accent"
+        />
+        {query && (
+          <p className={`text-xs ${result.error ? 'text-red-400' : 'text-brand-muted'}`}>
+            {result.error || `${result.matches.length}${result.truncated ? '+' : ''} result${result.matches.length === 1 ? '' : 's'} in ${groups.length} file${groups.length === 1 ? '' : 's'}`}
+          </p>
+        )}
+      </div>
+      <div className="flex-grow p-2 overflow-y-auto">
+        {groups.map(([path, matches]) => (
+          <div key={path} className="mb-1">
+            <div
+              onClick={() => toggleCollapsed(path)}
+              className="flex items-center space-x-1 cursor-pointer hover:bg-brand-surface/50 p-1 rounded-md"
+            >
+              {collapsed.has(path) ? <ChevronRightIcon className="w-4 h-4 flex-shrink-0" /> : <ChevronDownIcon className="w-4 h-4 flex-shrink-0" />}
+              <FileIcon className="w-4 h-4 text-brand-muted flex-shrink-0" />
+              <span className="truncate" title={path}>{path}</span>
+              <span className="ml-auto text-xs text-brand-muted pl-1">{matches.length}</span>
+            </div>
+            {!collapsed.has(path) && matches.map(match => (
+              <div
+                key={`${match.line}:${match.column}`}
+                onClick={() => onResultSelect(match.path, match.line)}
+                className="flex items-center space-x-2 cursor-pointer hover:bg-brand-surface/50 py-0.5 pr-1 pl-6 rounded-md font-mono text-xs"
+              >
+                <span className="text-brand-muted flex-shrink-0">{match.line}</span>
+                <MatchLine match={match} query={query} isRegex={isRegex} caseSensitive={caseSensitive} />
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SearchPanel;
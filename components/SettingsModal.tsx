@@ -1,7 +1,32 @@
 import React, { useState, useEffect } from 'react';
-import { X } from 'lucide-react';
-import { ProjectVersion } from '../types';
-import { projectService } from '../services/projectService';
+import { X, ChevronUp, ChevronDown } from 'lucide-react';
+import { AgentSettings, AiProvider, UsageEvent } from '../types';
+import { agentSettingsService } from '../services/agentSettingsService';
+import { listProviders } from '../services/providers/registry';
+import { formatCost, usageService } from '../services/usageService';
+
+interface ModelUsageRow {
+  provider: AiProvider;
+  model: string;
+  calls: number;
+  promptTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+const summariseUsage = (events: UsageEvent[]): ModelUsageRow[] => {
+  const rows = new Map<string, ModelUsageRow>();
+  for (const event of events) {
+    const key = `${event.provider}:${event.model}`;
+    const row = rows.get(key) || { provider: event.provider, model: event.model, calls: 0, promptTokens: 0, outputTokens: 0, cost: 0 };
+    row.calls++;
+    row.promptTokens += event.prompt_tokens;
+    row.outputTokens += event.output_tokens;
+    row.cost += Number(event.cost_usd);
+    rows.set(key, row);
+  }
+  return [...rows.values()].sort((a, b) => b.cost - a.cost);
+};
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -11,26 +36,69 @@ interface SettingsModalProps {
 
 const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, projectId }) => {
   const [theme, setTheme] = useState('dark');
-  const [versions, setVersions] = useState<ProjectVersion[]>([]);
-  const [isLoadingVersions, setIsLoadingVersions] = useState(false);
+  const [agentSettings, setAgentSettings] = useState<AgentSettings>(agentSettingsService.getSettings);
+  const [usageRows, setUsageRows] = useState<ModelUsageRow[]>([]);
+  const [monthlySpend, setMonthlySpend] = useState<number | null>(null);
+  const [budgetInput, setBudgetInput] = useState('');
+  const [allowListInput, setAllowListInput] = useState(() => agentSettings.commandAllowList.join(', '));
+  const [denyListInput, setDenyListInput] = useState(() => agentSettings.commandDenyList.join(', '));
 
   useEffect(() => {
-    if (isOpen && projectId) {
-      setIsLoadingVersions(true);
-      projectService.getProjectVersions(projectId)
-        .then(setVersions)
-        .catch(err => console.error("Failed to fetch versions:", err))
-        .finally(() => setIsLoadingVersions(false));
+    if (!isOpen) return;
+    usageService.getMonthlySpend()
+      .then(setMonthlySpend)
+      .catch(err => console.error("Failed to fetch monthly spend:", err));
+    usageService.getMonthlyBudget()
+      .then(limit => setBudgetInput(limit === null ? '' : String(limit)))
+      .catch(err => console.error("Failed to fetch budget:", err));
+    if (projectId) {
+      usageService.getProjectUsage(projectId)
+        .then(events => setUsageRows(summariseUsage(events)))
+        .catch(err => console.error("Failed to fetch project usage:", err));
     } else {
-        setVersions([]);
+      setUsageRows([]);
     }
   }, [isOpen, projectId]);
 
+  const saveBudget = () => {
+    const limit = budgetInput.trim() === '' ? null : Math.max(0, Number(budgetInput));
+    if (limit !== null && Number.isNaN(limit)) return;
+    usageService.setMonthlyBudget(limit)
+      .catch(err => console.error("Failed to save budget:", err));
+  };
+
+  const projectTotal = usageRows.reduce((sum, row) => sum + row.cost, 0);
+
+  const updateAgentSettings = (update: Partial<AgentSettings>) => {
+    const next = { ...agentSettings, ...update };
+    setAgentSettings(next);
+    agentSettingsService.saveSettings(next);
+  };
+
+  const saveCommandList = (key: 'commandAllowList' | 'commandDenyList', input: string) => {
+    updateAgentSettings({ [key]: input.split(',').map(entry => entry.trim().replace(/\s+/g, ' ')).filter(Boolean) });
+  };
+
+  const toggleFailover = (provider: AiProvider) => {
+    const chain = agentSettings.failoverChain;
+    updateAgentSettings({
+      failoverChain: chain.includes(provider) ? chain.filter(p => p !== provider) : [...chain, provider],
+    });
+  };
+
+  const moveFailover = (index: number, offset: number) => {
+    const chain = [...agentSettings.failoverChain];
+    const target = index + offset;
+    if (target < 0 || target >= chain.length) return;
+    [chain[index], chain[target]] = [chain[target], chain[index]];
+    updateAgentSettings({ failoverChain: chain });
+  };
+
   if (!isOpen) return null;
 
   return (
     <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 backdrop-blur-sm" onClick={onClose}>
-      <div className="bg-brand-surface rounded-xl border border-brand-subtle w-full max-w-lg p-6 shadow-2xl mx-4" onClick={e => e.stopPropagation()}>
+      <div className="bg-brand-surface rounded-xl border border-brand-subtle w-full max-w-lg max-h-[90vh] overflow-y-auto p-6 shadow-2xl mx-4" onClick={e => e.stopPropagation()}>
         <div className="flex justify-between items-center mb-6">
             <h2 className="text-xl font-semibold">Settings</h2>
             <button onClick={onClose} className="p-1.5 rounded-full hover:bg-brand-subtle/50 text-brand-muted hover:text-white">
@@ -58,26 +126,237 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, projectI
                         </button>
                     </div>
                 </div>
+            </div>
+            <div>
+                <h3 className="text-sm font-medium text-brand-muted mb-2">Provider Failover</h3>
+                <div className="bg-ide-bg-darker p-4 rounded-lg border border-brand-subtle space-y-3">
+                    <p className="text-xs text-brand-muted">
+                        If the selected provider keeps failing, the agent continues the turn on these providers in order. Providers without an API key are skipped.
+                    </p>
+                    <ul className="space-y-1">
+                        {agentSettings.failoverChain.map((provider, index) => (
+                            <li key={provider} className="flex items-center text-sm p-2 rounded-md bg-brand-surface/50">
+                                <span className="text-brand-muted w-5">{index + 1}.</span>
+                                <span className="flex-grow text-white">{listProviders().find(a => a.id === provider)?.name || provider}</span>
+                                <button onClick={() => moveFailover(index, -1)} disabled={index === 0} className="p-1 text-brand-muted hover:text-white disabled:opacity-30">
+                                    <ChevronUp className="w-4 h-4" />
+                                </button>
+                                <button onClick={() => moveFailover(index, 1)} disabled={index === agentSettings.failoverChain.length - 1} className="p-1 text-brand-muted hover:text-white disabled:opacity-30">
+                                    <ChevronDown className="w-4 h-4" />
+                                </button>
+                                <button onClick={() => toggleFailover(provider)} className="p-1 text-brand-muted hover:text-white">
+                                    <X className="w-4 h-4" />
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                    <div className="flex flex-wrap gap-2">
+                        {listProviders().filter(a => !agentSettings.failoverChain.includes(a.id)).map(adapter => (
+                            <button
+                                key={adapter.id}
+                                onClick={() => toggleFailover(adapter.id)}
+                                className="text-xs px-2 py-1 rounded-md border border-brand-subtle text-brand-muted hover:text-white hover:border-brand-muted"
+                            >
+                                + {adapter.name}
+                            </button>
+                        ))}
+                    </div>
+                    <label className="flex items-center justify-between text-sm text-white">
+                        <span>Retries per provider</span>
+                        <input
+                            type="number" min={0} max={5}
+                            value={agentSettings.maxRetries}
+                            onChange={e => updateAgentSettings({ maxRetries: Math.max(0, Math.min(5, Number(e.target.value) || 0)) })}
+                            className="w-16 bg-brand-surface text-white rounded-md p-1 border border-brand-subtle text-right"
+                        />
+                    </label>
+                </div>
+            </div>
+            <div>
+                <h3 className="text-sm font-medium text-brand-muted mb-2">Context</h3>
+                <div className="bg-ide-bg-darker p-4 rounded-lg border border-brand-subtle space-y-3">
+                    <p className="text-xs text-brand-muted">
+                        Long conversations are compacted before each request: old file contents are replaced by references to the current project, and the oldest turns are summarised.
+                    </p>
+                    <label className="flex items-center justify-between text-sm text-white">
+                        <span>Max history tokens per request</span>
+                        <select
+                            value={agentSettings.maxContextTokens}
+                            onChange={e => updateAgentSettings({ maxContextTokens: Number(e.target.value) })}
+                            className="bg-brand-surface text-white rounded-md p-1 border border-brand-subtle"
+                        >
+                            {[16000, 32000, 64000, 100000, 200000, 500000].map(tokens => (
+                                <option key={tokens} value={tokens}>{(tokens / 1000).toLocaleString()}k</option>
+                            ))}
+                        </select>
+                    </label>
+                </div>
+            </div>
+            <div>
+                <h3 className="text-sm font-medium text-brand-muted mb-2">Run Limits</h3>
+                <div className="bg-ide-bg-darker p-4 rounded-lg border border-brand-subtle space-y-3">
+                    <p className="text-xs text-brand-muted">
+                        The agent gives up when a single run reaches one of these limits, so a build it can't fix doesn't loop forever.
+                    </p>
+                    <label className="flex items-center justify-between text-sm text-white">
+                        <span>Max model turns</span>
+                        <select
+                            value={agentSettings.maxTurns}
+                            onChange={e => updateAgentSettings({ maxTurns: Number(e.target.value) })}
+                            className="bg-brand-surface text-white rounded-md p-1 border border-brand-subtle"
+                        >
+                            {[10, 20, 30, 50, 100, 0].map(turns => (
+                                <option key={turns} value={turns}>{turns || 'No limit'}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="flex items-center justify-between text-sm text-white">
+                        <span>Max failed build attempts</span>
+                        <select
+                            value={agentSettings.maxBuildAttempts}
+                            onChange={e => updateAgentSettings({ maxBuildAttempts: Number(e.target.value) })}
+                            className="bg-brand-surface text-white rounded-md p-1 border border-brand-subtle"
+                        >
+                            {[2, 3, 5, 8, 12, 0].map(attempts => (
+                                <option key={attempts} value={attempts}>{attempts || 'No limit'}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="flex items-center justify-between text-sm text-white">
+                        <span>Max tokens per run</span>
+                        <select
+                            value={agentSettings.maxRunTokens}
+                            onChange={e => updateAgentSettings({ maxRunTokens: Number(e.target.value) })}
+                            className="bg-brand-surface text-white rounded-md p-1 border border-brand-subtle"
+                        >
+                            {[250000, 500000, 1000000, 2000000, 5000000, 0].map(tokens => (
+                                <option key={tokens} value={tokens}>{tokens ? `${(tokens / 1000).toLocaleString()}k` : 'No limit'}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="flex items-center justify-between text-sm text-white">
+                        <span>Max cost per run</span>
+                        <select
+                            value={agentSettings.maxRunCostUsd}
+                            onChange={e => updateAgentSettings({ maxRunCostUsd: Number(e.target.value) })}
+                            className="bg-brand-surface text-white rounded-md p-1 border border-brand-subtle"
+                        >
+                            {[0.5, 1, 2, 5, 10, 0].map(cost => (
+                                <option key={cost} value={cost}>{cost ? `$${cost.toFixed(2)}` : 'No limit'}</option>
+                            ))}
+                        </select>
+                    </label>
+                </div>
+            </div>
+            <div>
+                <h3 className="text-sm font-medium text-brand-muted mb-2">Commands</h3>
+                <div className="bg-ide-bg-darker p-4 rounded-lg border border-brand-subtle space-y-3">
+                    <p className="text-xs text-brand-muted">
+                        Commands the agent may run in the preview or a sandbox, comma-separated. An entry also covers longer commands starting with it, so 'npm' allows 'npm test'; blocked entries win.
+                    </p>
+                    <label className="block text-sm text-white">
+                        <span>Allowed</span>
+                        <input
+                            type="text"
+                            value={allowListInput}
+                            onChange={e => setAllowListInput(e.target.value)}
+                            onBlur={() => saveCommandList('commandAllowList', allowListInput)}
+                            className="mt-1 w-full bg-brand-surface text-white rounded-md p-1 border border-brand-subtle font-mono text-xs"
+                        />
+                    </label>
+                    <label className="block text-sm text-white">
+                        <span>Blocked</span>
+                        <input
+                            type="text"
+                            value={denyListInput}
+                            onChange={e => setDenyListInput(e.target.value)}
+                            onBlur={() => saveCommandList('commandDenyList', denyListInput)}
+                            className="mt-1 w-full bg-brand-surface text-white rounded-md p-1 border border-brand-subtle font-mono text-xs"
+                        />
+                    </label>
+                </div>
+            </div>
+            <div>
+                <h3 className="text-sm font-medium text-brand-muted mb-2">Usage</h3>
+                <div className="bg-ide-bg-darker p-4 rounded-lg border border-brand-subtle space-y-3">
+                    <label className="flex items-center justify-between text-sm text-white">
+                        <span>Monthly budget (USD)</span>
+                        <input
+                            type="number" min={0} step={1}
+                            placeholder="No limit"
+                            value={budgetInput}
+                            onChange={e => setBudgetInput(e.target.value)}
+                            onBlur={saveBudget}
+                            className="w-24 bg-brand-surface text-white rounded-md p-1 border border-brand-subtle text-right"
+                        />
+                    </label>
+                    {monthlySpend !== null && (
+                        <p className="text-xs text-brand-muted">Spent this month: {formatCost(monthlySpend)}</p>
+                    )}
+                    {projectId && (
+                        usageRows.length > 0 ? (
+                            <table className="w-full text-xs">
+                                <thead>
+                                    <tr className="text-brand-muted text-left">
+                                        <th className="font-medium pb-1">Model</th>
+                                        <th className="font-medium pb-1 text-right">Calls</th>
+                                        <th className="font-medium pb-1 text-right">Tokens in / out</th>
+                                        <th className="font-medium pb-1 text-right">Cost</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="text-white">
+                                    {usageRows.map(row => (
+                                        <tr key={`${row.provider}:${row.model}`}>
+                                            <td className="py-0.5 truncate max-w-[10rem]" title={row.provider}>{row.model}</td>
+                                            <td className="py-0.5 text-right">{row.calls}</td>
+                                            <td className="py-0.5 text-right font-mono">{row.promptTokens.toLocaleString()} / {row.outputTokens.toLocaleString()}</td>
+                                            <td className="py-0.5 text-right font-mono">{formatCost(row.cost)}</td>
+                                        </tr>
+                                    ))}
+                                    <tr className="border-t border-brand-subtle">
+                                        <td className="pt-1 font-medium" colSpan={3}>Project total</td>
+                                        <td className="pt-1 text-right font-mono">{formatCost(projectTotal)}</td>
+                                    </tr>
+                                </tbody>
+                            </table>
+                        ) : (
+                            <p className="text-sm text-brand-muted text-center">No AI usage recorded for this project yet.</p>
+                        )
+                    )}
+                </div>
             </div>
              <div>
                 <h3 className="text-sm font-medium text-brand-muted mb-2">Version History</h3>
-                <div className="bg-ide-bg-darker p-4 rounded-lg border border-brand-subtle max-h-64 overflow-y-auto">
-                    {isLoadingVersions ? (
-                        <p className="text-sm text-brand-muted text-center">Loading history...</p>
-                    ) : versions.length > 0 ? (
-                        <ul className="space-y-2">
-                            {versions.map(version => (
-                                <li key={version.id} className="text-sm p-2 rounded-md bg-brand-surface/50">
-                                    <p className="text-white">
-                                        Checkpoint saved at <span className="font-medium">{new Date(version.created_at).toLocaleString()}</span>
-                                    </p>
-                                    {version.summary && <p className="text-xs text-brand-muted mt-1 italic">"{version.summary}"</p>}
-                                </li>
+                <div className="bg-ide-bg-darker p-4 rounded-lg border border-brand-subtle space-y-3">
+                    <label className="flex items-center justify-between text-sm text-white">
+                        <span>Keep latest checkpoints</span>
+                        <select
+                            value={agentSettings.versionsKeepLatest}
+                            onChange={e => updateAgentSettings({ versionsKeepLatest: Number(e.target.value) })}
+                            className="bg-brand-surface text-white rounded-md p-1 border border-brand-subtle"
+                        >
+                            {[10, 25, 50, 100, 200, 0].map(count => (
+                                <option key={count} value={count}>{count || 'Keep all'}</option>
                             ))}
-                        </ul>
-                    ) : (
-                         <p className="text-sm text-brand-muted text-center">No version history available for this project.</p>
-                    )}
+                        </select>
+                    </label>
+                    <label className="flex items-center justify-between text-sm text-white">
+                        <span>Also keep one per day for</span>
+                        <select
+                            value={agentSettings.versionsKeepDailyDays}
+                            onChange={e => updateAgentSettings({ versionsKeepDailyDays: Number(e.target.value) })}
+                            disabled={!agentSettings.versionsKeepLatest}
+                            className="bg-brand-surface text-white rounded-md p-1 border border-brand-subtle disabled:opacity-50"
+                        >
+                            {[0, 7, 30, 90, 365].map(days => (
+                                <option key={days} value={days}>{days ? `${days} days` : 'No days'}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <p className="text-xs text-brand-muted">
+                        Older checkpoints are deleted after each save. Pinned checkpoints are always kept.
+                        Browse, compare, restore and fork checkpoints from the History button in the editor.
+                    </p>
                 </div>
             </div>
         </div>
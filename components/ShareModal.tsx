@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { X, Users, UserMinus } from 'lucide-react';
+import { ProjectMember } from '../types';
+import { projectService } from '../services/projectService';
+import { SpinnerIcon } from './icons/Icons';
+
+interface ShareModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string | null;
+  // Only the owner can add and remove members.
+  isOwner: boolean;
+}
+
+// Who the project is shared with. Members open it from their dashboard and can edit files and
+// prompt MominAI alongside everyone else who has it open.
+const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, projectId, isOwner }) => {
+  const [members, setMembers] = useState<ProjectMember[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [email, setEmail] = useState('');
+  // What is in progress: 'add' or `remove:<user id>`.
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !projectId) {
+      setMembers([]);
+      return;
+    }
+    setError(null);
+    setIsLoading(true);
+    projectService.getProjectMembers(projectId)
+      .then(setMembers)
+      .catch(err => {
+        console.error("Failed to fetch project members:", err);
+        setError(`Couldn't load who has access: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      })
+      .finally(() => setIsLoading(false));
+  }, [isOpen, projectId]);
+
+  if (!isOpen) return null;
+
+  const runAction = async (key: string, action: () => Promise<void>) => {
+    setBusy(key);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error(`Sharing action '${key}' failed:`, err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const addMember = (e: React.FormEvent) => {
+    e.preventDefault();
+    const address = email.trim();
+    if (!projectId || !address) return;
+    runAction('add', async () => {
+      const member = await projectService.addProjectMember(projectId, address);
+      setMembers(prev => [...prev.filter(m => m.user_id !== member.user_id), member]);
+      setEmail('');
+    });
+  };
+
+  const removeMember = (member: ProjectMember) => {
+    if (!projectId || !window.confirm(`Stop sharing this project with ${member.email}?`)) return;
+    runAction(`remove:${member.user_id}`, async () => {
+      await projectService.removeProjectMember(projectId, member.user_id);
+      setMembers(prev => prev.filter(m => m.user_id !== member.user_id));
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-brand-surface rounded-xl border border-brand-subtle w-full max-w-md max-h-[85vh] p-6 shadow-2xl mx-4 flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex-shrink-0 flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold flex items-center space-x-2">
+            <Users className="w-5 h-5" />
+            <span>Share Project</span>
+          </h2>
+          <button onClick={onClose} className="p-1.5 rounded-full hover:bg-brand-subtle/50 text-brand-muted hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {!projectId ? (
+          <p className="text-sm text-brand-muted">The project can be shared once it has been saved.</p>
+        ) : (
+          <>
+            {isOwner ? (
+              <form onSubmit={addMember} className="flex-shrink-0 flex items-center space-x-2 mb-4">
+                <input
+                  type="email"
+                  value={email}
+                  onChange={e => setEmail(e.target.value)}
+                  placeholder="Email of a MominAI account"
+                  className="flex-grow bg-ide-bg-darker border border-brand-subtle rounded-lg px-3 py-2 text-sm text-white placeholder-brand-muted focus:outline-none focus:ring-1 focus:ring-brand-accent"
+                />
+                <button
+                  type="submit"
+                  disabled={!email.trim() || busy !== null}
+                  className="flex items-center space-x-1.5 px-3 py-2 rounded-lg bg-brand-accent hover:bg-blue-500 text-white text-sm disabled:opacity-50 disabled:hover:bg-brand-accent"
+                >
+                  {busy === 'add' && <SpinnerIcon className="w-4 h-4 animate-spin" />}
+                  <span>Share</span>
+                </button>
+              </form>
+            ) : (
+              <p className="flex-shrink-0 mb-4 text-sm text-brand-muted">Only the project's owner can change who has access.</p>
+            )}
+
+            {error && <p className="flex-shrink-0 mb-3 p-2 rounded-md bg-red-500/10 text-sm text-red-300">{error}</p>}
+
+            <div className="flex-grow overflow-y-auto bg-ide-bg-darker p-2 rounded-lg border border-brand-subtle min-h-0">
+              {isLoading ? (
+                <p className="p-2 text-sm text-brand-muted text-center">Loading...</p>
+              ) : members.length === 0 ? (
+                <p className="p-2 text-sm text-brand-muted text-center">Not shared with anyone yet.</p>
+              ) : (
+                <ul className="space-y-1">
+                  {members.map(member => (
+                    <li key={member.user_id} className="flex items-center justify-between p-2 rounded-md text-sm hover:bg-brand-surface/50">
+                      <span className="text-white truncate">{member.email}</span>
+                      {isOwner && (
+                        <button
+                          onClick={() => removeMember(member)}
+                          disabled={busy !== null}
+                          title="Stop sharing"
+                          className="p-1.5 rounded-md text-brand-muted hover:text-white hover:bg-brand-subtle/50 disabled:opacity-40"
+                        >
+                          {busy === `remove:${member.user_id}` ? <SpinnerIcon className="w-4 h-4 animate-spin" /> : <UserMinus className="w-4 h-4" />}
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ShareModal;
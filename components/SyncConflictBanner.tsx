@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { AlertTriangleIcon, SpinnerIcon } from './icons/Icons';
+
+interface SyncConflictBannerProps {
+  // When the other version was saved.
+  conflictUpdatedAt: string | null;
+  onKeepLocal: () => Promise<void>;
+  // These two are absent while the agent is busy, since they replace the files it is working on.
+  onKeepRemote?: () => Promise<void>;
+  onMerge?: () => void;
+}
+
+// Shown under the header when unsynced local edits meet a version of the project saved elsewhere.
+const SyncConflictBanner: React.FC<SyncConflictBannerProps> = ({ conflictUpdatedAt, onKeepLocal, onKeepRemote, onMerge }) => {
+  const [busy, setBusy] = useState<'local' | 'remote' | null>(null);
+
+  const resolve = async (side: 'local' | 'remote', action: () => Promise<void>) => {
+    setBusy(side);
+    try {
+      await action();
+    } catch (error) {
+      console.error("Resolving the sync conflict failed:", error);
+      alert(`Couldn't resolve the conflict: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const keepRemote = () => {
+    if (!onKeepRemote) return;
+    if (!window.confirm('Discard the changes made on this device and load the other version?')) return;
+    resolve('remote', onKeepRemote);
+  };
+
+  return (
+    <div className="flex-shrink-0 flex items-center justify-between gap-3 px-4 py-2 bg-yellow-900/20 border-b border-yellow-500/40 text-sm">
+      <div className="flex items-center space-x-2 min-w-0">
+        <AlertTriangleIcon className="w-4 h-4 text-yellow-400 flex-shrink-0" />
+        <span className="text-yellow-100">
+          This project was saved somewhere else
+          {conflictUpdatedAt && ` at ${new Date(conflictUpdatedAt).toLocaleString()}`}
+          {' '}while changes made here were waiting to sync.
+        </span>
+      </div>
+      <div className="flex items-center space-x-2 flex-shrink-0">
+        <button
+          onClick={onMerge}
+          disabled={busy !== null || !onMerge}
+          title={onMerge ? 'Pick each file from either version' : 'Available once MominAI has finished'}
+          className="px-3 py-1 rounded-md bg-brand-accent hover:bg-blue-500 text-white disabled:opacity-50"
+        >
+          Merge...
+        </button>
+        <button
+          onClick={() => resolve('local', onKeepLocal)}
+          disabled={busy !== null}
+          className="flex items-center space-x-1 px-3 py-1 rounded-md bg-brand-surface hover:bg-brand-surface/70 text-white disabled:opacity-50"
+        >
+          {busy === 'local' && <SpinnerIcon className="w-3.5 h-3.5 animate-spin" />}
+          <span>Keep mine</span>
+        </button>
+        <button
+          onClick={keepRemote}
+          disabled={busy !== null || !onKeepRemote}
+          title={onKeepRemote ? undefined : 'Available once MominAI has finished'}
+          className="flex items-center space-x-1 px-3 py-1 rounded-md bg-brand-surface hover:bg-brand-surface/70 text-white disabled:opacity-50"
+        >
+          {busy === 'remote' && <SpinnerIcon className="w-3.5 h-3.5 animate-spin" />}
+          <span>Use theirs</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SyncConflictBanner;
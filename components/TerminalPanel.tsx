@@ -0,0 +1,212 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Terminal } from '@xterm/xterm';
+import { FitAddon } from '@xterm/addon-fit';
+import '@xterm/xterm/css/xterm.css';
+import ProblemsPanel from './ProblemsPanel';
+import TestsPanel from './TestsPanel';
+import ConsolePanel from './ConsolePanel';
+import { Diagnostic, RuntimeError, TestRunResult } from '../types';
+import { TestFilter } from '../utils/testResultsUtils';
+import { TerminalSession, TerminalSessions } from '../hooks/useTerminalSessions';
+import { TerminalIcon, PlusIcon, XIcon, ChevronUpIcon, ChevronDownIcon } from './icons/Icons';
+
+interface TerminalPanelProps {
+  terminal: TerminalSessions;
+  // Whether the live container is up, so a shell can be started in it.
+  canOpenShell: boolean;
+  onOpenShell: () => Promise<string | null>;
+  diagnostics: Diagnostic[];
+  onDiagnosticSelect: (path: string, line: number) => void;
+  testResults: TestRunResult | null;
+  isRunningTests: boolean;
+  testRunError: string | null;
+  onRunTests: (filter: TestFilter) => void;
+  onTestFileSelect: (path: string) => void;
+  runtimeErrors: RuntimeError[];
+  onClearRuntimeErrors: () => void;
+  onFixRuntimeErrors?: () => void;
+}
+
+// The Problems, Tests and Console tabs sit next to the terminal sessions.
+const PROBLEMS_TAB = 'problems';
+const TESTS_TAB = 'tests';
+const CONSOLE_TAB = 'console';
+
+const PANEL_HEIGHT = 240;
+
+// One xterm instance per session. It is recreated whenever the tab is shown again and replays the
+// session's scrollback, so nothing is lost while the panel is collapsed.
+const TerminalView: React.FC<{ session: TerminalSession; terminal: TerminalSessions; isActive: boolean }> = ({ session, terminal, isActive }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const fitRef = useRef<FitAddon | null>(null);
+  const { getScrollback, subscribe, sendInput, resize } = terminal;
+
+  useEffect(() => {
+    const xterm = new Terminal({
+      // Log output uses bare '\n'; the shell runs in a pty and sends '\r\n' itself.
+      convertEol: session.readOnly,
+      disableStdin: session.readOnly,
+      cursorBlink: !session.readOnly,
+      fontSize: 12,
+      fontFamily: '"Fira Code", monospace',
+      scrollback: 10000,
+      theme: { background: '#111113' },
+    });
+    const fit = new FitAddon();
+    xterm.loadAddon(fit);
+    xterm.open(containerRef.current!);
+    fitRef.current = fit;
+
+    xterm.write(getScrollback(session.id));
+    const unsubscribe = subscribe(session.id, data => xterm.write(data));
+    const input = xterm.onData(data => sendInput(session.id, data));
+    const resized = xterm.onResize(size => resize(session.id, size));
+    // Hidden tabs have no size to fit to.
+    const observer = new ResizeObserver(() => {
+      if (containerRef.current?.offsetParent) fit.fit();
+    });
+    observer.observe(containerRef.current!);
+
+    return () => {
+      observer.disconnect();
+      input.dispose();
+      resized.dispose();
+      unsubscribe();
+      xterm.dispose();
+      fitRef.current = null;
+    };
+  }, [session.id, session.readOnly, getScrollback, subscribe, sendInput, resize]);
+
+  useEffect(() => {
+    if (isActive) fitRef.current?.fit();
+  }, [isActive]);
+
+  return <div ref={containerRef} className={`h-full w-full pl-2 pt-1 ${isActive ? '' : 'hidden'}`} />;
+};
+
+const TerminalPanel: React.FC<TerminalPanelProps> = ({
+  terminal,
+  canOpenShell,
+  onOpenShell,
+  diagnostics,
+  onDiagnosticSelect,
+  testResults,
+  isRunningTests,
+  testRunError,
+  onRunTests,
+  onTestFileSelect,
+  runtimeErrors,
+  onClearRuntimeErrors,
+  onFixRuntimeErrors,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeId, setActiveId] = useState(terminal.sessions[0]?.id ?? null);
+  const [isOpeningShell, setIsOpeningShell] = useState(false);
+
+  const isProblemsActive = activeId === PROBLEMS_TAB;
+  const isTestsActive = activeId === TESTS_TAB;
+  const isConsoleActive = activeId === CONSOLE_TAB;
+  const active = isProblemsActive || isTestsActive || isConsoleActive ? null : terminal.sessions.find(s => s.id === activeId) ?? terminal.sessions[0];
+  const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+  const warningCount = diagnostics.length - errorCount;
+
+  const openShell = async () => {
+    setIsOpeningShell(true);
+    try {
+      const id = await onOpenShell();
+      if (id) {
+        setActiveId(id);
+        setIsOpen(true);
+      }
+    } finally {
+      setIsOpeningShell(false);
+    }
+  };
+
+  const closeSession = (id: string) => {
+    if (id === active?.id) setActiveId(terminal.sessions[0]?.id ?? null);
+    terminal.closeSession(id);
+  };
+
+  return (
+    <div className="hidden md:flex flex-col flex-shrink-0 border-t border-brand-subtle bg-ide-bg-darker">
+      <div className="flex items-center h-8 px-2 text-xs text-brand-muted">
+        <TerminalIcon className="w-4 h-4 mr-1.5 flex-shrink-0" />
+        <div className="flex items-center overflow-x-auto">
+          <div
+            onClick={() => { setActiveId(PROBLEMS_TAB); setIsOpen(true); }}
+            className={`flex items-center px-2 py-1 rounded cursor-pointer whitespace-nowrap ${isOpen && isProblemsActive ? 'bg-brand-surface text-white' : 'hover:text-white'}`}
+          >
+            <span>Problems</span>
+            {errorCount > 0 && <span className="ml-1.5 px-1.5 rounded-full bg-red-500/30 text-red-300">{errorCount}</span>}
+            {warningCount > 0 && <span className="ml-1 px-1.5 rounded-full bg-yellow-500/20 text-yellow-300">{warningCount}</span>}
+          </div>
+          <div
+            onClick={() => { setActiveId(TESTS_TAB); setIsOpen(true); }}
+            className={`flex items-center px-2 py-1 rounded cursor-pointer whitespace-nowrap ${isOpen && isTestsActive ? 'bg-brand-surface text-white' : 'hover:text-white'}`}
+          >
+            <span>Tests</span>
+            {isRunningTests && <span className="ml-1.5 w-2 h-2 rounded-full bg-blue-400 animate-pulse" />}
+            {!isRunningTests && testResults && testResults.passed > 0 && <span className="ml-1.5 px-1.5 rounded-full bg-green-500/20 text-green-300">{testResults.passed}</span>}
+            {!isRunningTests && testResults && testResults.failed + testResults.fileErrors.length > 0 && (
+              <span className="ml-1 px-1.5 rounded-full bg-red-500/30 text-red-300">{testResults.failed + testResults.fileErrors.length}</span>
+            )}
+          </div>
+          <div
+            onClick={() => { setActiveId(CONSOLE_TAB); setIsOpen(true); }}
+            className={`flex items-center px-2 py-1 rounded cursor-pointer whitespace-nowrap ${isOpen && isConsoleActive ? 'bg-brand-surface text-white' : 'hover:text-white'}`}
+          >
+            <span>Console</span>
+            {runtimeErrors.length > 0 && <span className="ml-1.5 px-1.5 rounded-full bg-red-500/30 text-red-300">{runtimeErrors.length}</span>}
+          </div>
+          {terminal.sessions.map(session => (
+            <div
+              key={session.id}
+              onClick={() => { setActiveId(session.id); setIsOpen(true); }}
+              className={`group flex items-center px-2 py-1 rounded cursor-pointer whitespace-nowrap ${isOpen && session.id === active?.id ? 'bg-brand-surface text-white' : 'hover:text-white'}`}
+            >
+              <span className={session.exited ? 'line-through opacity-70' : ''}>{session.title}</span>
+              {session.kind === 'shell' && (
+                <button
+                  type="button"
+                  onClick={e => { e.stopPropagation(); closeSession(session.id); }}
+                  className="ml-1 opacity-0 group-hover:opacity-100 hover:text-white"
+                  title="Close terminal"
+                >
+                  <XIcon className="w-3 h-3" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={openShell}
+          disabled={!canOpenShell || isOpeningShell}
+          className="ml-1 p-1 rounded hover:text-white disabled:opacity-40 disabled:hover:text-brand-muted"
+          title={canOpenShell ? 'New terminal' : 'Available once the preview container is running'}
+        >
+          <PlusIcon className="w-4 h-4" />
+        </button>
+        <div className="flex-grow" />
+        <button type="button" onClick={() => setIsOpen(!isOpen)} className="p-1 rounded hover:text-white" title={isOpen ? 'Hide panel' : 'Show panel'}>
+          {isOpen ? <ChevronDownIcon className="w-4 h-4" /> : <ChevronUpIcon className="w-4 h-4" />}
+        </button>
+      </div>
+      {isOpen && (
+        <div style={{ height: `${PANEL_HEIGHT}px` }} className="overflow-hidden">
+          {isProblemsActive && <ProblemsPanel diagnostics={diagnostics} onSelect={onDiagnosticSelect} />}
+          {isTestsActive && (
+            <TestsPanel results={testResults} isRunning={isRunningTests} error={testRunError} onRun={onRunTests} onFileSelect={onTestFileSelect} />
+          )}
+          {isConsoleActive && <ConsolePanel errors={runtimeErrors} onClear={onClearRuntimeErrors} onFix={onFixRuntimeErrors} />}
+          {terminal.sessions.map(session => (
+            <TerminalView key={session.id} session={session} terminal={terminal} isActive={session.id === active?.id} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TerminalPanel;
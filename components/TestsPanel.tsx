@@ -0,0 +1,126 @@
+import React, { useMemo, useState } from 'react';
+import { TestCaseResult, TestRunResult } from '../types';
+import { TestFilter } from '../utils/testResultsUtils';
+import { CheckCircleIcon, XCircleIcon, MinusCircleIcon, FileIcon, PlayIcon, SpinnerIcon, ChevronDownIcon, ChevronRightIcon } from './icons/Icons';
+
+interface TestsPanelProps {
+  results: TestRunResult | null;
+  isRunning: boolean;
+  // Why the last run couldn't produce results, e.g. Vitest is missing or crashed.
+  error: string | null;
+  onRun: (filter: TestFilter) => void;
+  onFileSelect: (path: string) => void;
+}
+
+const StatusIcon: React.FC<{ status: TestCaseResult['status'] }> = ({ status }) => {
+  if (status === 'passed') return <CheckCircleIcon className="w-3.5 h-3.5 mt-px text-green-400 flex-shrink-0" />;
+  if (status === 'failed') return <XCircleIcon className="w-3.5 h-3.5 mt-px text-red-400 flex-shrink-0" />;
+  return <MinusCircleIcon className="w-3.5 h-3.5 mt-px text-brand-muted flex-shrink-0" />;
+};
+
+const RunButton: React.FC<{ title: string; disabled: boolean; onClick: () => void }> = ({ title, disabled, onClick }) => (
+  <button
+    type="button"
+    onClick={e => { e.stopPropagation(); onClick(); }}
+    disabled={disabled}
+    className="p-0.5 rounded text-brand-muted hover:text-white disabled:opacity-40 disabled:hover:text-brand-muted"
+    title={title}
+  >
+    <PlayIcon className="w-3 h-3" />
+  </button>
+);
+
+// Results of the last test runs, grouped by file, with buttons to re-run everything, a file or a
+// single test against the current draft.
+const TestsPanel: React.FC<TestsPanelProps> = ({ results, isRunning, error, onRun, onFileSelect }) => {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const groups = useMemo(() => {
+    if (!results) return [];
+    const byFile = new Map<string, { tests: TestCaseResult[]; error?: string }>();
+    const group = (file: string) => byFile.get(file) || byFile.set(file, { tests: [] }).get(file)!;
+    results.fileErrors.forEach(e => { group(e.file).error = e.message; });
+    results.tests.forEach(t => group(t.file).tests.push(t));
+    return Array.from(byFile.entries()).sort(([a], [b]) => a.localeCompare(b));
+  }, [results]);
+
+  const toggle = (key: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  return (
+    <div className="h-full flex flex-col text-xs">
+      <div className="flex items-center space-x-2 px-2 py-1 border-b border-brand-subtle text-brand-muted">
+        <button
+          type="button"
+          onClick={() => onRun({})}
+          disabled={isRunning}
+          className="flex items-center space-x-1 px-2 py-0.5 rounded bg-brand-surface text-white hover:bg-brand-surface/70 disabled:opacity-50"
+        >
+          {isRunning ? <SpinnerIcon className="w-3 h-3 animate-spin" /> : <PlayIcon className="w-3 h-3" />}
+          <span>{isRunning ? 'Running...' : 'Run all'}</span>
+        </button>
+        {results && (
+          <span>
+            <span className="text-green-300">{results.passed} passed</span>
+            {', '}
+            <span className={results.failed > 0 ? 'text-red-300' : ''}>{results.failed} failed</span>
+            {results.skipped > 0 && `, ${results.skipped} skipped`}
+            {` · ${new Date(results.finishedAt).toLocaleTimeString()}`}
+          </span>
+        )}
+      </div>
+      <div className="flex-grow overflow-y-auto p-1">
+        {error && <pre className="mb-1 p-2 rounded bg-red-500/10 text-red-300 whitespace-pre-wrap break-words">{error}</pre>}
+        {!results && !error && <p className="p-2 text-brand-muted">No test results yet. Run the tests, or ask MominAI to add some.</p>}
+        {results && groups.length === 0 && <p className="p-2 text-brand-muted">No tests found. Test files are named *.test.ts or *.test.tsx.</p>}
+        {groups.map(([file, { tests, error: fileError }]) => (
+          <div key={file} className="mb-1">
+            <div className="group flex items-center space-x-1 px-1 py-0.5 text-white">
+              <FileIcon className="w-3.5 h-3.5 text-brand-muted flex-shrink-0" />
+              <span className="truncate cursor-pointer hover:underline" title={file} onClick={() => onFileSelect(file)}>{file}</span>
+              <span className="text-brand-muted">{tests.length}</span>
+              <RunButton title="Run this file" disabled={isRunning} onClick={() => onRun({ file })} />
+            </div>
+            {fileError && (
+              <div className="flex items-start space-x-1.5 pl-5 pr-1 py-0.5">
+                <XCircleIcon className="w-3.5 h-3.5 mt-px text-red-400 flex-shrink-0" />
+                <pre className="text-red-300 whitespace-pre-wrap break-words min-w-0">{fileError}</pre>
+              </div>
+            )}
+            {tests.map(test => {
+              const key = `${file}\n${test.name}`;
+              const isExpanded = expanded.has(key);
+              return (
+                <div key={key}>
+                  <div
+                    onClick={() => test.failureMessage && toggle(key)}
+                    className={`flex items-start space-x-1.5 pl-5 pr-1 py-0.5 rounded hover:bg-brand-surface/50 ${test.failureMessage ? 'cursor-pointer' : ''}`}
+                  >
+                    <StatusIcon status={test.status} />
+                    <span className="text-gray-200 break-words min-w-0 flex-grow">{test.name}</span>
+                    {test.durationMs !== undefined && <span className="text-brand-muted whitespace-nowrap">{test.durationMs}ms</span>}
+                    {test.failureMessage && (isExpanded
+                      ? <ChevronDownIcon className="w-3.5 h-3.5 mt-px text-brand-muted flex-shrink-0" />
+                      : <ChevronRightIcon className="w-3.5 h-3.5 mt-px text-brand-muted flex-shrink-0" />)}
+                    <RunButton title="Run this test" disabled={isRunning} onClick={() => onRun({ file, testName: test.name })} />
+                  </div>
+                  {isExpanded && test.failureMessage && (
+                    <pre className="ml-10 mr-1 mb-1 p-2 rounded bg-black/30 text-red-200 whitespace-pre-wrap break-words">{test.failureMessage}</pre>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TestsPanel;
@@ -0,0 +1,238 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, History, Pin, PinOff, GitFork, RotateCcw, GitCompare } from 'lucide-react';
+import { FileSystem, ProjectVersion, ProjectVersionSummary } from '../types';
+import { projectService } from '../services/projectService';
+import { diffFileSystems } from '../utils/fileUtils';
+import { SpinnerIcon } from './icons/Icons';
+
+interface VersionHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string | null;
+  projectName: string;
+  // The saved files, compared against when only one checkpoint is selected.
+  currentFileSystem: FileSystem;
+  // False while the agent is working, here or for a collaborator, since a restore would pull the
+  // files out from under it.
+  canRestore: boolean;
+  onRestore: (version: ProjectVersion) => Promise<void>;
+  onFork: (version: ProjectVersion, name: string) => Promise<void>;
+  onCompare: (diff: { oldFS: FileSystem; newFS: FileSystem }, files: string[]) => void;
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+// Checkpoints of the project, newest first, with compare, restore, fork and pin actions. Pick one
+// checkpoint to compare it with the current files, or two to compare them with each other.
+const VersionHistoryModal: React.FC<VersionHistoryModalProps> = ({
+  isOpen,
+  onClose,
+  projectId,
+  projectName,
+  currentFileSystem,
+  canRestore,
+  onRestore,
+  onFork,
+  onCompare,
+}) => {
+  const [versions, setVersions] = useState<ProjectVersionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+  // What is in progress, e.g. 'compare' or `restore:<id>`, so only one action runs at a time.
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  // Checkpoint files don't change, so each is fetched at most once per project.
+  const loadedRef = useRef<Map<string, ProjectVersion>>(new Map());
+
+  useEffect(() => {
+    loadedRef.current.clear();
+  }, [projectId]);
+
+  useEffect(() => {
+    if (!isOpen || !projectId) {
+      setVersions([]);
+      return;
+    }
+    setSelected([]);
+    setError(null);
+    setNotice(null);
+    setIsLoading(true);
+    projectService.getProjectVersions(projectId)
+      .then(setVersions)
+      .catch(err => {
+        console.error("Failed to fetch versions:", err);
+        setError(`Couldn't load the version history: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      })
+      .finally(() => setIsLoading(false));
+  }, [isOpen, projectId]);
+
+  if (!isOpen) return null;
+
+  const loadVersion = async (id: string) => {
+    const cached = loadedRef.current.get(id);
+    if (cached) return cached;
+    const version = await projectService.getProjectVersion(id);
+    loadedRef.current.set(id, version);
+    return version;
+  };
+
+  const runAction = async (key: string, action: () => Promise<void>) => {
+    setBusy(key);
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error(`Version action '${key}' failed:`, err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => prev.includes(id)
+      ? prev.filter(s => s !== id)
+      // Picking a third checkpoint replaces the older pick.
+      : [...prev, id].slice(-2));
+  };
+
+  const compare = () => runAction('compare', async () => {
+    const picked = await Promise.all(selected.map(loadVersion));
+    picked.sort((a, b) => a.created_at.localeCompare(b.created_at));
+    const oldFS = picked[0].file_system;
+    const newFS = picked.length > 1 ? picked[1].file_system : currentFileSystem;
+    const { added, modified, deleted } = diffFileSystems(oldFS, newFS);
+    const files = [...Object.keys(added), ...Object.keys(modified), ...deleted].sort();
+    if (files.length === 0) {
+      setNotice(picked.length > 1 ? 'These checkpoints have the same files.' : 'This checkpoint matches the current files.');
+      return;
+    }
+    onCompare({ oldFS, newFS }, files);
+  });
+
+  const restore = (summary: ProjectVersionSummary) => {
+    if (!window.confirm(`Restore the files from ${formatDate(summary.created_at)}? The current files stay available as a checkpoint.`)) return;
+    runAction(`restore:${summary.id}`, async () => {
+      await onRestore(await loadVersion(summary.id));
+      onClose();
+    });
+  };
+
+  const fork = (summary: ProjectVersionSummary) => {
+    const name = window.prompt('Name of the new project', `${projectName} (fork)`)?.trim();
+    if (!name) return;
+    runAction(`fork:${summary.id}`, async () => {
+      await onFork(await loadVersion(summary.id), name);
+      setNotice(`Created "${name}" from this checkpoint. Open it from your dashboard.`);
+    });
+  };
+
+  const togglePinned = (summary: ProjectVersionSummary) => runAction(`pin:${summary.id}`, async () => {
+    await projectService.setProjectVersionPinned(summary.id, !summary.pinned);
+    setVersions(prev => prev.map(v => v.id === summary.id ? { ...v, pinned: !summary.pinned } : v));
+  });
+
+  const iconButton = 'p-1.5 rounded-md text-brand-muted hover:text-white hover:bg-brand-subtle/50 disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-brand-muted';
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-brand-surface rounded-xl border border-brand-subtle w-full max-w-2xl max-h-[85vh] p-6 shadow-2xl mx-4 flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex-shrink-0 flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold flex items-center space-x-2">
+            <History className="w-5 h-5" />
+            <span>Version History</span>
+          </h2>
+          <button onClick={onClose} className="p-1.5 rounded-full hover:bg-brand-subtle/50 text-brand-muted hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-shrink-0 flex items-center justify-between mb-3 text-sm">
+          <span className="text-brand-muted">
+            {selected.length === 0 && 'Select a checkpoint to compare it with the current files, or two to compare them.'}
+            {selected.length === 1 && 'Comparing with the current files.'}
+            {selected.length === 2 && 'Comparing the two selected checkpoints.'}
+          </span>
+          <button
+            onClick={compare}
+            disabled={selected.length === 0 || busy !== null}
+            className="flex items-center space-x-1.5 px-3 py-1.5 rounded-lg bg-brand-accent hover:bg-blue-500 text-white disabled:opacity-50 disabled:hover:bg-brand-accent"
+          >
+            {busy === 'compare' ? <SpinnerIcon className="w-4 h-4 animate-spin" /> : <GitCompare className="w-4 h-4" />}
+            <span>Compare</span>
+          </button>
+        </div>
+
+        {error && <p className="flex-shrink-0 mb-3 p-2 rounded-md bg-red-500/10 text-sm text-red-300">{error}</p>}
+        {notice && <p className="flex-shrink-0 mb-3 p-2 rounded-md bg-brand-accent/10 text-sm text-blue-200">{notice}</p>}
+
+        <div className="flex-grow overflow-y-auto bg-ide-bg-darker p-2 rounded-lg border border-brand-subtle min-h-0">
+          {!projectId ? (
+            <p className="p-2 text-sm text-brand-muted text-center">Checkpoints are created once the project has been saved.</p>
+          ) : isLoading ? (
+            <p className="p-2 text-sm text-brand-muted text-center">Loading history...</p>
+          ) : versions.length === 0 ? (
+            <p className="p-2 text-sm text-brand-muted text-center">No version history available for this project.</p>
+          ) : (
+            <ul className="space-y-1">
+              {versions.map(version => {
+                const isSelected = selected.includes(version.id);
+                return (
+                  <li
+                    key={version.id}
+                    className={`flex items-start space-x-3 p-2 rounded-md text-sm ${isSelected ? 'bg-brand-accent/20' : 'hover:bg-brand-surface/50'}`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={isSelected}
+                      onChange={() => toggleSelected(version.id)}
+                      className="mt-1"
+                      aria-label={`Select checkpoint from ${formatDate(version.created_at)}`}
+                    />
+                    <div className="flex-grow min-w-0 cursor-pointer" onClick={() => toggleSelected(version.id)}>
+                      <p className="text-white">
+                        <span className="font-medium">{formatDate(version.created_at)}</span>
+                        {version.pinned && <span className="ml-2 px-1.5 rounded bg-brand-subtle text-xs text-brand-muted">Pinned</span>}
+                      </p>
+                      {version.summary && <p className="text-xs text-brand-muted mt-1 italic line-clamp-2">"{version.summary}"</p>}
+                    </div>
+                    <div className="flex-shrink-0 flex items-center">
+                      <button
+                        onClick={() => togglePinned(version)}
+                        disabled={busy !== null}
+                        className={iconButton}
+                        title={version.pinned ? 'Unpin' : 'Pin, so retention never deletes it'}
+                      >
+                        {version.pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                      </button>
+                      <button
+                        onClick={() => restore(version)}
+                        disabled={!canRestore || busy !== null}
+                        className={iconButton}
+                        title={canRestore ? 'Restore these files' : 'Available once MominAI has finished'}
+                      >
+                        {busy === `restore:${version.id}` ? <SpinnerIcon className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                      </button>
+                      <button
+                        onClick={() => fork(version)}
+                        disabled={busy !== null}
+                        className={iconButton}
+                        title="Fork into a new project"
+                      >
+                        {busy === `fork:${version.id}` ? <SpinnerIcon className="w-4 h-4 animate-spin" /> : <GitFork className="w-4 h-4" />}
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VersionHistoryModal;
@@ -1,8 +1,13 @@
 import React, { useState, useEffect } from 'react';
+import { RuntimeError } from '../types';
+import { SparklesIcon, XCircleIcon } from './icons/Icons';
 
 interface WebContainerPreviewProps {
   iframeUrl: string;
   status: string;
+  runtimeErrors: RuntimeError[];
+  // Absent while the agent is busy.
+  onFixRuntimeErrors?: () => void;
 }
 
 const inspirationCards = [
@@ -88,16 +93,40 @@ const PreviewPlaceholder: React.FC<{ status: string }> = ({ status }) => {
 };
 
 
-const WebContainerPreview: React.FC<WebContainerPreviewProps> = ({ iframeUrl, status }) => {
+const WebContainerPreview: React.FC<WebContainerPreviewProps> = ({ iframeUrl, status, runtimeErrors, onFixRuntimeErrors }) => {
+  const errorCount = runtimeErrors.filter(e => e.kind !== 'console').length;
+  const consoleCount = runtimeErrors.length - errorCount;
   return (
-    <div className="w-full h-full bg-ide-bg-darker rounded-lg overflow-hidden flex flex-col shadow-2xl border border-brand-subtle">
+    <div className="relative w-full h-full bg-ide-bg-darker rounded-lg overflow-hidden flex flex-col shadow-2xl border border-brand-subtle">
         {iframeUrl ? (
-            <iframe
-                src={iframeUrl}
-                title="Preview"
-                className="w-full h-full border-0"
-                allow="cross-origin-isolated"
-            />
+            <>
+                <iframe
+                    src={iframeUrl}
+                    title="Preview"
+                    className="w-full h-full border-0"
+                    allow="cross-origin-isolated"
+                />
+                {runtimeErrors.length > 0 && (
+                    <div className="absolute bottom-3 right-3 flex items-center space-x-2 pl-3 pr-1 py-1 rounded-full bg-ide-bg-darker/95 border border-red-500/40 shadow-lg text-xs text-red-300">
+                        <XCircleIcon className="w-4 h-4 flex-shrink-0" />
+                        <span>
+                            {errorCount > 0 && `${errorCount} runtime error${errorCount === 1 ? '' : 's'}`}
+                            {errorCount > 0 && consoleCount > 0 && ', '}
+                            {consoleCount > 0 && `${consoleCount} console error${consoleCount === 1 ? '' : 's'}`}
+                        </span>
+                        {onFixRuntimeErrors && (
+                            <button
+                                type="button"
+                                onClick={onFixRuntimeErrors}
+                                className="flex items-center space-x-1 px-2 py-0.5 rounded-full bg-brand-surface text-white hover:bg-brand-surface/70"
+                            >
+                                <SparklesIcon className="w-3 h-3" />
+                                <span>Fix with MominAI</span>
+                            </button>
+                        )}
+                    </div>
+                )}
+            </>
         ) : (
              <PreviewPlaceholder status={status} />
         )}
@@ -33,6 +33,11 @@ import {
   Globe,
   BrainCircuit,
   Loader2,
+  Square,
+  X,
+  AlertTriangle,
+  Play,
+  MinusCircle,
   type LucideProps,
 } from 'lucide-react';
 
@@ -69,6 +74,11 @@ export const ShieldCheckIcon: React.FC<LucideProps> = (props) => <ShieldCheck {.
 export const GlobeIcon: React.FC<LucideProps> = (props) => <Globe {...props} />;
 export const BrainCircuitIcon: React.FC<LucideProps> = (props) => <BrainCircuit {...props} />;
 export const SpinnerIcon: React.FC<LucideProps> = (props) => <Loader2 {...props} />;
+export const StopIcon: React.FC<LucideProps> = (props) => <Square {...props} />;
+export const XIcon: React.FC<LucideProps> = (props) => <X {...props} />;
+export const AlertTriangleIcon: React.FC<LucideProps> = (props) => <AlertTriangle {...props} />;
+export const PlayIcon: React.FC<LucideProps> = (props) => <Play {...props} />;
+export const MinusCircleIcon: React.FC<LucideProps> = (props) => <MinusCircle {...props} />;
 
 
 // --- Custom Brand Icons ---
@@ -17,20 +17,26 @@ import {
 } from '../utils/errorUtils';
 
 // Retry configuration
-interface RetryConfig {
+export interface RetryConfig {
   maxRetries: number;
   baseDelay: number;
   maxDelay: number;
   backoffFactor: number;
 }
 
-const defaultRetryConfig: RetryConfig = {
+export const defaultRetryConfig: RetryConfig = {
   maxRetries: 3,
   baseDelay: 1000,
   maxDelay: 30000,
   backoffFactor: 2
 };
 
+// Calculate retry delay with exponential backoff
+export const calculateRetryDelay = (retryCount: number, config: RetryConfig): number => {
+  const delay = config.baseDelay * Math.pow(config.backoffFactor, retryCount);
+  return Math.min(delay, config.maxDelay);
+};
+
 // Request tracking
 interface RequestTracker {
   id: string;
@@ -76,12 +82,6 @@ export const useApiErrorHandler = () => {
     }
   }, []);
 
-  // Calculate retry delay with exponential backoff
-  const calculateRetryDelay = useCallback((retryCount: number, config: RetryConfig): number => {
-    const delay = config.baseDelay * Math.pow(config.backoffFactor, retryCount);
-    return Math.min(delay, config.maxDelay);
-  }, []);
-
   // Check if request should be retried
   const shouldRetryRequest = useCallback((error: AppError, retryCount: number, config: RetryConfig): boolean => {
     if (retryCount >= config.maxRetries) return false;
@@ -130,7 +130,7 @@ export const useApiErrorHandler = () => {
 
       retryTimeouts.current.set(requestId, timeoutId);
     });
-  }, [calculateRetryDelay]);
+  }, []);
 
   // Cancel retry
   const cancelRetry = useCallback((requestId: string) => {
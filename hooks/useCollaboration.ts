@@ -0,0 +1,546 @@
+// hooks/useCollaboration.ts - Real-time collaboration in the open project
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import * as Y from 'yjs';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabaseClient';
+import { projectService } from '../services/projectService';
+import { ChatMessage, Collaborator, FileSystem } from '../types';
+import { applyFilesToDoc, decodeUpdate, docToFileSystem, encodeUpdate, getFilesMap } from '../utils/yjsUtils';
+
+// Everyone with a project open joins its private Realtime channel, `project:<id>` (access is
+// checked by the policies in the project_collaboration migration). Over it they share:
+// - presence: who is here, and who is running the agent;
+// - the draft files, as a Yjs document whose updates are broadcast (see utils/yjsUtils.ts);
+// - chat messages, each sent by the session that wrote it, which is also the one that saves it;
+// - cursors, as Yjs relative positions so they stay put while others type;
+// - 'published' and 'saved' notices when a session's live files change and reach Supabase.
+// When the channel can't be joined the project works as it does for a single user.
+
+// Avatar and cursor colours; index.css has the matching .remote-cursor-N and .remote-selection-N.
+export const COLLABORATOR_COLORS = ['#f472b6', '#34d399', '#fbbf24', '#60a5fa', '#a78bfa', '#fb923c'];
+
+export interface RemoteCursor {
+  sessionId: string;
+  name: string;
+  color: number;
+  path: string;
+  // Offsets into the file's text.
+  anchor: number;
+  head: number;
+}
+
+export interface AgentLockResult {
+  acquired: boolean;
+  // Who is running the agent instead, when the lock wasn't acquired.
+  holderName?: string;
+}
+
+export interface CollaborationHandlers {
+  // Files changed by collaborators: new contents, or null for deleted files.
+  onRemoteFiles: (changes: Record<string, string | null>) => void;
+  onRemoteMessages: (upserts: ChatMessage[], removedIds: string[]) => void;
+  // A collaborator's live files changed (e.g. their agent run finished); `fileSystem` is the
+  // shared draft at that point.
+  onRemotePublish: (fileSystem: FileSystem) => void;
+  // A collaborator's save reached Supabase.
+  onRemoteSaved: (updatedAt: string) => void;
+}
+
+export interface Collaboration {
+  isConnected: boolean;
+  // Everyone else with the project open.
+  collaborators: Collaborator[];
+  // A collaborator who is running the agent; this session can't start a run meanwhile.
+  agentHolder: Collaborator | null;
+  // Collaborators' cursors, resolved against the current draft.
+  remoteCursors: RemoteCursor[];
+  setCursor: (path: string | null, anchor: number, head: number) => void;
+  // Marks messages as already known to everyone, e.g. a conversation loaded from Supabase.
+  markMessagesShared: (messages: ChatMessage[]) => void;
+  publish: () => void;
+  announceSaved: (updatedAt: string) => void;
+  acquireAgentLock: () => Promise<AgentLockResult>;
+  releaseAgentLock: () => Promise<void>;
+}
+
+// A joining session waits this long for someone to send the shared document, a few times over if
+// anyone is present, before starting it from its own files.
+const SEED_TIMEOUT_MS = 1500;
+const SEED_ATTEMPTS = 3;
+const UPDATE_THROTTLE_MS = 100;
+const CURSOR_THROTTLE_MS = 80;
+const MESSAGE_THROTTLE_MS = 250;
+// The lock lapses if its holder stops renewing it, e.g. when the tab is closed mid-run.
+const AGENT_LOCK_TTL_SECONDS = 60;
+const AGENT_LOCK_RENEW_MS = 20000;
+// Broadcasts larger than this are split, keeping each message under Realtime's size limit.
+const MAX_BROADCAST_CHARS = 200000;
+
+// Yjs transaction origins.
+const LOCAL_ORIGIN = 'local';
+const REMOTE_ORIGIN = 'remote';
+
+interface PresencePayload {
+  sessionId: string;
+  userId: string;
+  name: string;
+  color: number;
+  joinedAt: number;
+  isRunningAgent: boolean;
+}
+
+interface CursorState {
+  path: string | null;
+  anchor?: unknown;
+  head?: unknown;
+}
+
+interface BroadcastChunk {
+  id: string;
+  index: number;
+  count: number;
+  data: string;
+}
+
+const getColor = (userId: string) => {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  return Math.abs(hash) % COLLABORATOR_COLORS.length;
+};
+
+// Screenshots can be megabytes; collaborators see them once the conversation is reloaded.
+const toSharedMessage = ({ screenshots, ...message }: ChatMessage): ChatMessage => message;
+
+export const useCollaboration = (
+  projectId: string | undefined,
+  user: { id: string; name: string } | null,
+  fileSystem: FileSystem,
+  messages: ChatMessage[],
+  handlers: CollaborationHandlers
+): Collaboration => {
+  const [isConnected, setIsConnected] = useState(false);
+  const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
+  const [remoteCursors, setRemoteCursors] = useState<RemoteCursor[]>([]);
+
+  const sessionIdRef = useRef<string>(crypto.randomUUID());
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const docRef = useRef<Y.Doc | null>(null);
+  const isSeededRef = useRef(false);
+  // The draft as the shared document has it, and the draft as of the last local change check.
+  const syncedFilesRef = useRef<FileSystem>({});
+  const lastLocalFilesRef = useRef<FileSystem>(fileSystem);
+  const latestFilesRef = useRef<FileSystem>(fileSystem);
+  latestFilesRef.current = fileSystem;
+  const messagesRef = useRef<ChatMessage[]>(messages);
+  messagesRef.current = messages;
+  const sharedMessagesRef = useRef<Map<string, ChatMessage>>(new Map());
+  const cursorStatesRef = useRef<Map<string, CursorState>>(new Map());
+  const collaboratorsRef = useRef<Collaborator[]>([]);
+  const ownCursorRef = useRef<CursorState>({ path: null });
+  const presenceRef = useRef<PresencePayload | null>(null);
+  const lockTimerRef = useRef<number | null>(null);
+  const sendRef = useRef<(event: string, payload: object) => void>(() => {});
+  const flushUpdatesRef = useRef<() => void>(() => {});
+  const timersRef = useRef<{ updates?: number; cursor?: number; messages?: number }>({});
+
+  const resolveCursors = useCallback(() => {
+    const doc = docRef.current;
+    if (!doc) return;
+    const files = getFilesMap(doc);
+    const cursors: RemoteCursor[] = [];
+    for (const collaborator of collaboratorsRef.current) {
+      const state = cursorStatesRef.current.get(collaborator.sessionId);
+      if (!state?.path || !files.has(state.path)) continue;
+      const resolve = (json: unknown) => {
+        if (!json) return null;
+        return Y.createAbsolutePositionFromRelativePosition(Y.createRelativePositionFromJSON(json), doc)?.index ?? null;
+      };
+      const head = resolve(state.head);
+      if (head === null) continue;
+      cursors.push({
+        sessionId: collaborator.sessionId,
+        name: collaborator.name,
+        color: collaborator.color,
+        path: state.path,
+        anchor: resolve(state.anchor) ?? head,
+        head,
+      });
+    }
+    setRemoteCursors(prev => prev.length === 0 && cursors.length === 0 ? prev : cursors);
+  }, []);
+
+  const sendCursor = useCallback(() => {
+    const doc = docRef.current;
+    const cursor = ownCursorRef.current;
+    if (!doc || !isSeededRef.current) return;
+    sendRef.current('cursor', { sessionId: sessionIdRef.current, ...cursor });
+  }, []);
+
+  useEffect(() => {
+    if (!projectId || !user) return;
+    const sessionId = sessionIdRef.current;
+    const doc = new Y.Doc();
+    const files = getFilesMap(doc);
+    docRef.current = doc;
+    isSeededRef.current = false;
+    syncedFilesRef.current = {};
+    cursorStatesRef.current = new Map();
+    let pendingUpdates: Uint8Array[] = [];
+    let seedTimer: number | null = null;
+    let isClosed = false;
+    const incomingChunks = new Map<string, string[]>();
+
+    const channel = supabase.channel(`project:${projectId}`, {
+      config: { private: true, broadcast: { self: false }, presence: { key: sessionId } },
+    });
+    channelRef.current = channel;
+
+    const send = (event: string, payload: object) => {
+      if (isClosed) return;
+      const broadcast = (message: object) => {
+        channel.send({ type: 'broadcast', event, payload: message })
+          .catch(error => console.error(`Sending the collaboration '${event}' message failed:`, error));
+      };
+      const json = JSON.stringify(payload);
+      if (json.length <= MAX_BROADCAST_CHARS) {
+        broadcast(payload);
+        return;
+      }
+      const id = crypto.randomUUID();
+      const count = Math.ceil(json.length / MAX_BROADCAST_CHARS);
+      for (let index = 0; index < count; index++) {
+        const chunk: BroadcastChunk = { id, index, count, data: json.slice(index * MAX_BROADCAST_CHARS, (index + 1) * MAX_BROADCAST_CHARS) };
+        broadcast({ chunk });
+      }
+    };
+    sendRef.current = send;
+
+    // Reassembles split broadcasts; returns null until every part has arrived.
+    const receive = <T,>(payload: any): T | null => {
+      if (!payload?.chunk) return payload as T;
+      const { id, index, count, data } = payload.chunk as BroadcastChunk;
+      const parts = incomingChunks.get(id) || new Array<string>(count);
+      parts[index] = data;
+      incomingChunks.set(id, parts);
+      if (parts.filter(part => part !== undefined).length < count) return null;
+      incomingChunks.delete(id);
+      return JSON.parse(parts.join('')) as T;
+    };
+
+    const flushUpdates = () => {
+      if (timersRef.current.updates) window.clearTimeout(timersRef.current.updates);
+      timersRef.current.updates = undefined;
+      if (pendingUpdates.length === 0) return;
+      const update = Y.mergeUpdates(pendingUpdates);
+      pendingUpdates = [];
+      send('update', { update: encodeUpdate(update) });
+    };
+    flushUpdatesRef.current = flushUpdates;
+
+    doc.on('update', (update: Uint8Array, origin: unknown) => {
+      if (origin !== LOCAL_ORIGIN) return;
+      pendingUpdates.push(update);
+      if (!timersRef.current.updates) timersRef.current.updates = window.setTimeout(flushUpdates, UPDATE_THROTTLE_MS);
+    });
+
+    // Collaborators' edits go into the React draft file by file, so files edited here in the
+    // meantime aren't overwritten.
+    files.observeDeep((events, transaction) => {
+      if (transaction.origin === LOCAL_ORIGIN || !isSeededRef.current) return;
+      const paths = new Set<string>();
+      for (const event of events) {
+        if (event.target === files) event.changes.keys.forEach((_, key) => paths.add(key));
+        else paths.add(String(event.path[0]));
+      }
+      const changes: Record<string, string | null> = {};
+      for (const path of paths) {
+        const content = files.get(path)?.toString() ?? null;
+        changes[path] = content;
+        if (content === null) delete syncedFilesRef.current[path];
+        else syncedFilesRef.current[path] = content;
+      }
+      if (paths.size > 0) handlersRef.current.onRemoteFiles(changes);
+    });
+
+    doc.on('afterTransaction', () => {
+      if (cursorStatesRef.current.size > 0) resolveCursors();
+    });
+
+    // The document is ready once it came from a collaborator, or from this session's files when
+    // nobody answered. Local files that differ from a received document give way to it.
+    const finishSeeding = (fromCollaborator: boolean) => {
+      if (isSeededRef.current) return;
+      if (seedTimer) window.clearTimeout(seedTimer);
+      const local = latestFilesRef.current;
+      if (fromCollaborator) {
+        const shared = docToFileSystem(doc);
+        const changes: Record<string, string | null> = {};
+        for (const path of new Set([...Object.keys(local), ...Object.keys(shared)])) {
+          if (local[path] !== shared[path]) changes[path] = shared[path] ?? null;
+        }
+        syncedFilesRef.current = shared;
+        if (Object.keys(changes).length > 0) handlersRef.current.onRemoteFiles(changes);
+      } else {
+        applyFilesToDoc(doc, local, Object.keys(local), LOCAL_ORIGIN);
+        syncedFilesRef.current = { ...local };
+      }
+      lastLocalFilesRef.current = local;
+      isSeededRef.current = true;
+      sendCursor();
+    };
+
+    // Asks again while collaborators are present but haven't answered, since starting the document
+    // from this session's files next to theirs would drop their unsaved edits.
+    const requestSync = (attempt: number) => {
+      send('sync-request', { from: sessionId, stateVector: encodeUpdate(Y.encodeStateVector(doc)) });
+      seedTimer = window.setTimeout(() => {
+        if (collaboratorsRef.current.length > 0 && attempt < SEED_ATTEMPTS) requestSync(attempt + 1);
+        else finishSeeding(false);
+      }, SEED_TIMEOUT_MS);
+    };
+
+    channel
+      .on('broadcast', { event: 'sync-request' }, ({ payload }) => {
+        const request = receive<{ from: string; stateVector: string }>(payload);
+        if (!request || !isSeededRef.current) return;
+        flushUpdates();
+        const update = Y.encodeStateAsUpdate(doc, decodeUpdate(request.stateVector));
+        send('sync-response', { to: request.from, update: encodeUpdate(update) });
+      })
+      .on('broadcast', { event: 'sync-response' }, ({ payload }) => {
+        const response = receive<{ to: string; update: string }>(payload);
+        if (!response || response.to !== sessionId) return;
+        Y.applyUpdate(doc, decodeUpdate(response.update), REMOTE_ORIGIN);
+        finishSeeding(true);
+      })
+      .on('broadcast', { event: 'update' }, ({ payload }) => {
+        const message = receive<{ update: string }>(payload);
+        if (!message) return;
+        Y.applyUpdate(doc, decodeUpdate(message.update), REMOTE_ORIGIN);
+      })
+      .on('broadcast', { event: 'cursor' }, ({ payload }) => {
+        const message = receive<CursorState & { sessionId: string }>(payload);
+        if (!message) return;
+        const { sessionId: from, ...cursor } = message;
+        cursorStatesRef.current.set(from, cursor);
+        resolveCursors();
+      })
+      .on('broadcast', { event: 'chat' }, ({ payload }) => {
+        const message = receive<{ upserts: ChatMessage[]; removedIds: string[] }>(payload);
+        if (!message) return;
+        message.upserts.forEach(m => sharedMessagesRef.current.set(m.id!, m));
+        message.removedIds.forEach(id => sharedMessagesRef.current.delete(id));
+        handlersRef.current.onRemoteMessages(message.upserts, message.removedIds);
+      })
+      .on('broadcast', { event: 'published' }, () => {
+        if (isSeededRef.current) handlersRef.current.onRemotePublish(docToFileSystem(doc));
+      })
+      .on('broadcast', { event: 'saved' }, ({ payload }) => {
+        const message = receive<{ updatedAt: string }>(payload);
+        if (message) handlersRef.current.onRemoteSaved(message.updatedAt);
+      })
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<PresencePayload>();
+        const others = Object.values(state)
+          .flatMap(entries => entries.slice(0, 1))
+          .filter(entry => entry.sessionId !== sessionId)
+          .map(({ sessionId, userId, name, color, joinedAt, isRunningAgent }) => ({ sessionId, userId, name, color, joinedAt, isRunningAgent }))
+          .sort((a, b) => a.joinedAt - b.joinedAt);
+        const known = new Set(collaboratorsRef.current.map(c => c.sessionId));
+        const hasNewcomer = others.some(c => !known.has(c.sessionId));
+        for (const id of [...cursorStatesRef.current.keys()]) {
+          if (!others.some(c => c.sessionId === id)) cursorStatesRef.current.delete(id);
+        }
+        collaboratorsRef.current = others;
+        setCollaborators(others);
+        resolveCursors();
+        // Newcomers don't know where everyone's cursor is yet.
+        if (hasNewcomer) sendCursor();
+      })
+      .subscribe(async (status, error) => {
+        if (status === 'SUBSCRIBED') {
+          setIsConnected(true);
+          presenceRef.current = presenceRef.current || {
+            sessionId,
+            userId: user.id,
+            name: user.name,
+            color: getColor(user.id),
+            joinedAt: Date.now(),
+            isRunningAgent: false,
+          };
+          await channel.track(presenceRef.current);
+          if (!isSeededRef.current) requestSync(1);
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+          if (status !== 'CLOSED') console.warn("Collaboration channel unavailable, editing on your own:", error);
+          setIsConnected(false);
+          setCollaborators([]);
+          collaboratorsRef.current = [];
+        }
+      });
+
+    return () => {
+      isClosed = true;
+      if (seedTimer) window.clearTimeout(seedTimer);
+      Object.values(timersRef.current).forEach(timer => timer && window.clearTimeout(timer));
+      timersRef.current = {};
+      sendRef.current = () => {};
+      flushUpdatesRef.current = () => {};
+      channelRef.current = null;
+      supabase.removeChannel(channel);
+      doc.destroy();
+      docRef.current = null;
+      isSeededRef.current = false;
+      presenceRef.current = null;
+      setIsConnected(false);
+      setCollaborators([]);
+      setRemoteCursors([]);
+      collaboratorsRef.current = [];
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [projectId, user?.id]);
+
+  // Local edits go into the shared document. Only files changed here since the last check are
+  // compared, so a collaborator's edit that hasn't rendered yet is never written back over.
+  useLayoutEffect(() => {
+    const previous = lastLocalFilesRef.current;
+    lastLocalFilesRef.current = fileSystem;
+    const doc = docRef.current;
+    if (!doc || !isSeededRef.current || previous === fileSystem) return;
+
+    const changed = new Set<string>();
+    for (const path of Object.keys(fileSystem)) if (fileSystem[path] !== previous[path]) changed.add(path);
+    for (const path of Object.keys(previous)) if (fileSystem[path] === undefined) changed.add(path);
+    const paths = [...changed].filter(path => fileSystem[path] !== syncedFilesRef.current[path]);
+    if (paths.length === 0) return;
+
+    applyFilesToDoc(doc, fileSystem, paths, LOCAL_ORIGIN);
+    for (const path of paths) {
+      if (fileSystem[path] === undefined) delete syncedFilesRef.current[path];
+      else syncedFilesRef.current[path] = fileSystem[path];
+    }
+  }, [fileSystem]);
+
+  // Messages written here are sent as they change, streaming included, at most a few times a second.
+  useEffect(() => {
+    if (!isConnected || timersRef.current.messages) return;
+    timersRef.current.messages = window.setTimeout(() => {
+      timersRef.current.messages = undefined;
+      const shared = sharedMessagesRef.current;
+      const current = messagesRef.current.filter(m => m.id);
+      const upserts = current.filter(m => shared.get(m.id!) !== m);
+      const currentIds = new Set(current.map(m => m.id!));
+      const removedIds = [...shared.keys()].filter(id => !currentIds.has(id));
+      upserts.forEach(m => shared.set(m.id!, m));
+      removedIds.forEach(id => shared.delete(id));
+      if (upserts.length > 0 || removedIds.length > 0) {
+        sendRef.current('chat', { upserts: upserts.map(toSharedMessage), removedIds });
+      }
+    }, MESSAGE_THROTTLE_MS);
+  }, [messages, isConnected]);
+
+  const markMessagesShared = useCallback((loaded: ChatMessage[]) => {
+    sharedMessagesRef.current = new Map(loaded.filter(m => m.id).map(m => [m.id!, m]));
+  }, []);
+
+  const setCursor = useCallback((path: string | null, anchor: number, head: number) => {
+    const doc = docRef.current;
+    const text = doc && path ? getFilesMap(doc).get(path) : undefined;
+    ownCursorRef.current = text && path
+      ? {
+          path,
+          anchor: Y.relativePositionToJSON(Y.createRelativePositionFromTypeIndex(text, Math.min(anchor, text.length))),
+          head: Y.relativePositionToJSON(Y.createRelativePositionFromTypeIndex(text, Math.min(head, text.length))),
+        }
+      : { path: null };
+    if (!timersRef.current.cursor) {
+      timersRef.current.cursor = window.setTimeout(() => {
+        timersRef.current.cursor = undefined;
+        sendCursor();
+      }, CURSOR_THROTTLE_MS);
+    }
+  }, [sendCursor]);
+
+  const publish = useCallback(() => {
+    // Edits still waiting to be broadcast have to arrive before the notice that refers to them.
+    flushUpdatesRef.current();
+    sendRef.current('published', {});
+  }, []);
+
+  const announceSaved = useCallback((updatedAt: string) => {
+    sendRef.current('saved', { updatedAt });
+  }, []);
+
+  const setRunningAgent = useCallback((isRunningAgent: boolean) => {
+    const channel = channelRef.current;
+    if (!presenceRef.current) return;
+    presenceRef.current = { ...presenceRef.current, isRunningAgent };
+    channel?.track(presenceRef.current).catch(error => console.error("Updating collaboration presence failed:", error));
+  }, []);
+
+  const releaseAgentLock = useCallback(async () => {
+    if (lockTimerRef.current === null) return;
+    window.clearInterval(lockTimerRef.current);
+    lockTimerRef.current = null;
+    setRunningAgent(false);
+    if (!projectId) return;
+    try {
+      await projectService.releaseAgentLock(projectId, sessionIdRef.current);
+    } catch (error) {
+      // It lapses by itself.
+      console.error("Releasing the agent lock failed:", error);
+    }
+  }, [projectId, setRunningAgent]);
+
+  // Taken for the whole run, including while a plan waits for approval, and renewed until released.
+  const acquireAgentLock = useCallback(async (): Promise<AgentLockResult> => {
+    if (!projectId || !user) return { acquired: true };
+    const take = () => projectService.acquireAgentLock(projectId, sessionIdRef.current, user.name, AGENT_LOCK_TTL_SECONDS);
+    try {
+      if (!(await take())) {
+        const lock = await projectService.getAgentLock(projectId).catch(() => null);
+        return { acquired: false, holderName: lock?.holder_name ?? undefined };
+      }
+    } catch (error) {
+      // Without the lock (e.g. a database without the collaboration migration), runs go ahead
+      // uncoordinated rather than not at all.
+      console.error("Taking the agent lock failed:", error);
+    }
+    if (lockTimerRef.current !== null) window.clearInterval(lockTimerRef.current);
+    lockTimerRef.current = window.setInterval(() => {
+      take()
+        .then(renewed => { if (!renewed) console.warn("The agent lock lapsed and was taken by another session."); })
+        .catch(error => console.error("Renewing the agent lock failed:", error));
+    }, AGENT_LOCK_RENEW_MS);
+    setRunningAgent(true);
+    return { acquired: true };
+  }, [projectId, user, setRunningAgent]);
+
+  useEffect(() => {
+    return () => {
+      if (lockTimerRef.current === null || !projectId) return;
+      window.clearInterval(lockTimerRef.current);
+      lockTimerRef.current = null;
+      projectService.releaseAgentLock(projectId, sessionIdRef.current).catch(() => {});
+    };
+  }, [projectId]);
+
+  const agentHolder = useMemo(() => collaborators.find(c => c.isRunningAgent) ?? null, [collaborators]);
+
+  return useMemo(
+    () => ({
+      isConnected,
+      collaborators,
+      agentHolder,
+      remoteCursors,
+      setCursor,
+      markMessagesShared,
+      publish,
+      announceSaved,
+      acquireAgentLock,
+      releaseAgentLock,
+    }),
+    [isConnected, collaborators, agentHolder, remoteCursors, setCursor, markMessagesShared, publish, announceSaved, acquireAgentLock, releaseAgentLock]
+  );
+};
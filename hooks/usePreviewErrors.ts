@@ -0,0 +1,61 @@
+// hooks/usePreviewErrors.ts - Runtime errors reported by the preview iframe
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { RuntimeError } from '../types';
+import { parsePreviewMessage } from '../utils/previewUtils';
+
+export interface PreviewErrors {
+  errors: RuntimeError[];
+  clear: () => void;
+}
+
+const MAX_ERRORS = 100;
+
+// Listens for reports from PREVIEW_SCRIPT running in the preview at `iframeUrl`. Errors are
+// kept until the preview page loads again, so fixed errors don't linger after a reload.
+export const usePreviewErrors = (iframeUrl: string): PreviewErrors => {
+  const [errors, setErrors] = useState<RuntimeError[]>([]);
+
+  useEffect(() => {
+    if (!iframeUrl) return;
+    let origin: string;
+    try {
+      origin = new URL(iframeUrl).origin;
+    } catch {
+      return;
+    }
+
+    const onMessage = (event: MessageEvent) => {
+      if (event.origin !== origin) return;
+      const message = parsePreviewMessage(event.data);
+      if (!message) return;
+      if (message.type === 'page-loaded') {
+        setErrors([]);
+        return;
+      }
+      if (message.type !== 'runtime-error') return;
+      setErrors(prev => {
+        const existing = prev.find(e => e.kind === message.kind && e.message === message.message && e.location === message.location);
+        if (existing) {
+          return prev.map(e => e === existing ? { ...e, count: e.count + 1, timestamp: new Date().toISOString() } : e);
+        }
+        const error: RuntimeError = {
+          id: Date.now().toString() + Math.random(),
+          kind: message.kind,
+          message: message.message,
+          stack: message.stack,
+          location: message.location,
+          count: 1,
+          timestamp: new Date().toISOString(),
+        };
+        return [...prev, error].slice(-MAX_ERRORS);
+      });
+    };
+
+    window.addEventListener('message', onMessage);
+    return () => window.removeEventListener('message', onMessage);
+  }, [iframeUrl]);
+
+  const clear = useCallback(() => setErrors([]), []);
+
+  return useMemo(() => ({ errors, clear }), [errors, clear]);
+};
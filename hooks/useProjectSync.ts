@@ -0,0 +1,134 @@
+// hooks/useProjectSync.ts - Offline-first saving of the open project
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { FileSystem, Project } from '../types';
+import { CheckpointInfo, SyncConflict, SyncResult, SyncStatus, syncService } from '../services/syncService';
+import { useNetworkStatus } from './useApiErrorHandler';
+
+export interface ProjectSync {
+  status: SyncStatus;
+  // Why the last sync attempt failed, while status is 'error'.
+  error: string | null;
+  // When the version that conflicts with the local files was saved, while status is 'conflict'.
+  conflictUpdatedAt: string | null;
+  save: (fileSystem: FileSystem, checkpoint?: CheckpointInfo) => Promise<void>;
+  keepLocal: () => Promise<void>;
+  keepRemote: () => Promise<Project | null>;
+  loadConflict: () => Promise<SyncConflict | null>;
+  keepMerged: (merged: FileSystem, conflict: SyncConflict) => Promise<void>;
+  // A collaborator with the project open saved it, from files this session already has.
+  noteSavedElsewhere: (updatedAt: string) => void;
+}
+
+// Failed syncs are retried this often while online; going back online retries straight away.
+const RETRY_DELAY_MS = 30000;
+
+// Saves go to IndexedDB first and are synced to Supabase in the background (see syncService).
+// `updatedAt` is the project's updated_at as loaded, the base for detecting conflicting edits;
+// `onSynced` receives the project each time a save reaches Supabase.
+export const useProjectSync = (
+  projectId: string | undefined,
+  updatedAt: string | undefined,
+  onSynced: (project: Project) => void
+): ProjectSync => {
+  const { isOnline } = useNetworkStatus();
+  const [status, setStatus] = useState<SyncStatus>('synced');
+  const [error, setError] = useState<string | null>(null);
+  const [conflictUpdatedAt, setConflictUpdatedAt] = useState<string | null>(null);
+
+  const serverUpdatedAtRef = useRef<string | null>(updatedAt ?? null);
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+  const isOnlineRef = useRef(isOnline);
+  isOnlineRef.current = isOnline;
+
+  // A new project gets its id and first updated_at together when it is created.
+  useEffect(() => {
+    serverUpdatedAtRef.current = updatedAt ?? null;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [projectId]);
+
+  const refresh = useCallback(async (result?: SyncResult) => {
+    if (!projectId) return;
+    if (result?.project) {
+      serverUpdatedAtRef.current = result.project.updated_at;
+      onSyncedRef.current(result.project);
+    }
+    const pending = await syncService.getPendingSave(projectId);
+    setConflictUpdatedAt(pending?.conflictUpdatedAt ?? null);
+    setError(result?.status === 'error' ? (result.error instanceof Error ? result.error.message : String(result.error)) : null);
+    if (!pending) setStatus('synced');
+    else if (pending.conflictUpdatedAt) setStatus('conflict');
+    else if (!isOnlineRef.current) setStatus('offline');
+    else if (result?.status === 'error') setStatus('error');
+    else setStatus('pending');
+  }, [projectId]);
+
+  // Also replays saves of other projects left over from earlier sessions.
+  const flush = useCallback(async () => {
+    try {
+      if (isOnlineRef.current) {
+        setStatus(prev => prev === 'conflict' ? prev : 'syncing');
+        const results = await syncService.flush();
+        await refresh(results.find(r => r.projectId === projectId));
+      } else {
+        await refresh();
+      }
+    } catch (e) {
+      console.error("Project sync failed:", e);
+      setError(e instanceof Error ? e.message : 'Unknown error');
+      setStatus('error');
+    }
+  }, [projectId, refresh]);
+
+  const save = useCallback(async (fileSystem: FileSystem, checkpoint?: CheckpointInfo) => {
+    if (!projectId) return;
+    await syncService.queueSave(projectId, fileSystem, serverUpdatedAtRef.current, checkpoint);
+    await flush();
+  }, [projectId, flush]);
+
+  const keepLocal = useCallback(async () => {
+    if (!projectId) return;
+    await syncService.keepLocal(projectId);
+    await flush();
+  }, [projectId, flush]);
+
+  const keepRemote = useCallback(async () => {
+    if (!projectId) return null;
+    const project = await syncService.keepRemote(projectId);
+    serverUpdatedAtRef.current = project.updated_at;
+    await refresh();
+    return project;
+  }, [projectId, refresh]);
+
+  const loadConflict = useCallback(async () => {
+    if (!projectId) return null;
+    return syncService.getConflict(projectId);
+  }, [projectId]);
+
+  const keepMerged = useCallback(async (merged: FileSystem, conflict: SyncConflict) => {
+    if (!projectId) return;
+    await syncService.resolveWithMerge(projectId, merged, conflict);
+    serverUpdatedAtRef.current = conflict.remote.updated_at;
+    await flush();
+  }, [projectId, flush]);
+
+  const noteSavedElsewhere = useCallback((updatedAt: string) => {
+    if (!serverUpdatedAtRef.current || updatedAt > serverUpdatedAtRef.current) serverUpdatedAtRef.current = updatedAt;
+  }, []);
+
+  useEffect(() => {
+    if (isOnline) flush();
+    else refresh();
+  }, [isOnline, flush, refresh]);
+
+  useEffect(() => {
+    if (status !== 'error' || !isOnline) return;
+    const timer = window.setTimeout(flush, RETRY_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [status, isOnline, flush]);
+
+  return useMemo(
+    () => ({ status, error, conflictUpdatedAt, save, keepLocal, keepRemote, loadConflict, keepMerged, noteSavedElsewhere }),
+    [status, error, conflictUpdatedAt, save, keepLocal, keepRemote, loadConflict, keepMerged, noteSavedElsewhere]
+  );
+};
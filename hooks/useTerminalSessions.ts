@@ -0,0 +1,121 @@
+// hooks/useTerminalSessions.ts - Terminal sessions for the live WebContainer
+import { useCallback, useMemo, useRef, useState } from 'react';
+import type { WebContainer, WebContainerProcess } from '@webcontainer/api';
+
+export type TerminalSessionKind = 'install' | 'dev-server' | 'shell';
+
+export interface TerminalSession {
+  id: string;
+  title: string;
+  kind: TerminalSessionKind;
+  // Log sessions only show output; shells also take keyboard input.
+  readOnly: boolean;
+  exited: boolean;
+}
+
+export interface TerminalSessions {
+  sessions: TerminalSession[];
+  getScrollback: (id: string) => string;
+  // Calls `listener` with output written to the session from now on; returns an unsubscribe function.
+  subscribe: (id: string, listener: (data: string) => void) => () => void;
+  write: (id: string, data: string) => void;
+  openShell: (wc: WebContainer, size: { cols: number; rows: number }) => Promise<string>;
+  sendInput: (id: string, data: string) => void;
+  resize: (id: string, size: { cols: number; rows: number }) => void;
+  closeSession: (id: string) => void;
+  // Marks every shell as exited, for when the container they ran in is torn down.
+  endShells: () => void;
+}
+
+export const INSTALL_SESSION_ID = 'install';
+export const DEV_SERVER_SESSION_ID = 'dev-server';
+
+const LOG_SESSIONS: TerminalSession[] = [
+  { id: INSTALL_SESSION_ID, title: 'npm install', kind: 'install', readOnly: true, exited: false },
+  { id: DEV_SERVER_SESSION_ID, title: 'Dev server', kind: 'dev-server', readOnly: true, exited: false },
+];
+
+// Scrollback is kept here rather than in the xterm instances, so it survives switching views and
+// collapsing the panel. Beyond this size the oldest output is dropped.
+const MAX_SCROLLBACK_CHARS = 500000;
+
+interface ShellProcess {
+  process: WebContainerProcess;
+  input: WritableStreamDefaultWriter<string>;
+}
+
+export const useTerminalSessions = (): TerminalSessions => {
+  const [sessions, setSessions] = useState<TerminalSession[]>(LOG_SESSIONS);
+  const scrollbackRef = useRef(new Map<string, string>());
+  const listenersRef = useRef(new Map<string, Set<(data: string) => void>>());
+  const shellsRef = useRef(new Map<string, ShellProcess>());
+  const shellCountRef = useRef(0);
+
+  const getScrollback = useCallback((id: string) => scrollbackRef.current.get(id) || '', []);
+
+  const subscribe = useCallback((id: string, listener: (data: string) => void) => {
+    const listeners = listenersRef.current.get(id) || new Set();
+    listeners.add(listener);
+    listenersRef.current.set(id, listeners);
+    return () => { listeners.delete(listener); };
+  }, []);
+
+  const write = useCallback((id: string, data: string) => {
+    const scrollback = (scrollbackRef.current.get(id) || '') + data;
+    scrollbackRef.current.set(id, scrollback.length > MAX_SCROLLBACK_CHARS ? scrollback.slice(-MAX_SCROLLBACK_CHARS) : scrollback);
+    listenersRef.current.get(id)?.forEach(listener => listener(data));
+  }, []);
+
+  const markExited = useCallback((id: string) => {
+    setSessions(prev => prev.map(s => s.id === id ? { ...s, exited: true } : s));
+  }, []);
+
+  const openShell = useCallback(async (wc: WebContainer, size: { cols: number; rows: number }) => {
+    const number = ++shellCountRef.current;
+    const id = `shell-${number}`;
+    const proc = await wc.spawn('jsh', { terminal: size });
+    shellsRef.current.set(id, { process: proc, input: proc.input.getWriter() });
+    setSessions(prev => [...prev, { id, title: `jsh ${number}`, kind: 'shell', readOnly: false, exited: false }]);
+
+    proc.output.pipeTo(new WritableStream({ write: data => write(id, data) })).catch(() => {});
+    proc.exit.then(code => {
+      if (!shellsRef.current.has(id)) return;
+      shellsRef.current.delete(id);
+      write(id, `\r\n[Process exited with code ${code}]\r\n`);
+      markExited(id);
+    });
+    return id;
+  }, [write, markExited]);
+
+  const sendInput = useCallback((id: string, data: string) => {
+    shellsRef.current.get(id)?.input.write(data).catch(() => {});
+  }, []);
+
+  const resize = useCallback((id: string, size: { cols: number; rows: number }) => {
+    shellsRef.current.get(id)?.process.resize(size);
+  }, []);
+
+  const closeSession = useCallback((id: string) => {
+    const shell = shellsRef.current.get(id);
+    if (shell) {
+      shellsRef.current.delete(id);
+      shell.process.kill();
+    }
+    scrollbackRef.current.delete(id);
+    listenersRef.current.delete(id);
+    setSessions(prev => prev.filter(s => s.id !== id || s.kind !== 'shell'));
+  }, []);
+
+  const endShells = useCallback(() => {
+    for (const id of shellsRef.current.keys()) {
+      write(id, '\r\n[The container was restarted. Open a new terminal to continue.]\r\n');
+      markExited(id);
+    }
+    shellsRef.current.clear();
+  }, [write, markExited]);
+
+  return useMemo(
+    () => ({ sessions, getScrollback, subscribe, write, openShell, sendInput, resize, closeSession, endShells }),
+    [sessions, getScrollback, subscribe, write, openShell, sendInput, resize, closeSession, endShells]
+  );
+};
@@ -0,0 +1,60 @@
+import { AgentSettings, UsageMetadata } from '../types';
+
+const STORAGE_KEY = 'agent_settings';
+
+export const defaultAgentSettings: AgentSettings = {
+  failoverChain: ['gemini', 'openrouter', 'claude'],
+  maxRetries: 2,
+  maxContextTokens: 100000,
+  maxTurns: 30,
+  maxBuildAttempts: 5,
+  maxRunTokens: 0,
+  maxRunCostUsd: 2,
+  // Not 'node': a script can start any process, so no deny entry would hold once it may run.
+  commandAllowList: ['npm', 'npx', 'ls', 'cat', 'pwd', 'echo', 'tsc', 'vite', 'vitest', 'eslint', 'prettier'],
+  commandDenyList: ['npm publish', 'npm unpublish', 'npm login', 'npm logout', 'npm adduser', 'npm token', 'npm owner', 'npm deprecate'],
+  versionsKeepLatest: 50,
+  versionsKeepDailyDays: 30,
+};
+
+// How far the current agent run has got, checked against the limits before each model turn.
+export interface RunProgress {
+  turns: number;
+  buildAttempts: number;
+  lastBuildError?: string;
+  usage?: UsageMetadata;
+}
+
+// Returns why the run has to stop, or null while it is within the limits. The build limit only
+// applies while the last build is still failing, so a run can always finish after a passing build.
+export const getRunLimitReason = (settings: AgentSettings, run: RunProgress): string | null => {
+  if (settings.maxTurns && run.turns >= settings.maxTurns) {
+    return `Reached the limit of ${settings.maxTurns} model turns for one run.`;
+  }
+  if (settings.maxBuildAttempts && run.lastBuildError && run.buildAttempts >= settings.maxBuildAttempts) {
+    return `The build still fails after ${run.buildAttempts} verification attempts.`;
+  }
+  if (settings.maxRunTokens && (run.usage?.totalTokenCount ?? 0) >= settings.maxRunTokens) {
+    return `Used ${run.usage!.totalTokenCount.toLocaleString()} tokens, over the limit of ${settings.maxRunTokens.toLocaleString()} for one run.`;
+  }
+  if (settings.maxRunCostUsd && (run.usage?.costUsd ?? 0) >= settings.maxRunCostUsd) {
+    return `Spent $${run.usage!.costUsd!.toFixed(2)}, over the limit of $${settings.maxRunCostUsd.toFixed(2)} for one run.`;
+  }
+  return null;
+};
+
+export const agentSettingsService = {
+  getSettings(): AgentSettings {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return stored ? { ...defaultAgentSettings, ...JSON.parse(stored) } : defaultAgentSettings;
+    } catch (error) {
+      console.error("Failed to read agent settings:", error);
+      return defaultAgentSettings;
+    }
+  },
+
+  saveSettings(settings: AgentSettings): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  },
+};
@@ -0,0 +1,140 @@
+import { supabase } from '../lib/supabaseClient';
+import { FileManifest, FileSystem } from '../types';
+
+// Content-addressed file storage. Each distinct file content is stored once per user in
+// `file_blobs`, keyed by its SHA-256; projects and checkpoints only hold path -> hash manifests.
+// A project's blobs belong to its owner, including the ones its members save.
+
+// Keeps `in (...)` filters well inside URL length limits.
+const HASH_QUERY_CHUNK = 100;
+const UPLOAD_BATCH_BYTES = 2_000_000;
+
+// Blob contents never change, so contentCache cannot go stale. Whether a blob still exists can:
+// another tab or device may garbage-collect it. So storedHashes only remembers the blobs this tab
+// uploaded or touched, as `${ownerId}:${hash}` -> when, and only while garbage collection still
+// spares them as recently used (see delete_unreferenced_file_blobs). Every other hash is touched
+// again on each save.
+const STORED_HASH_TTL_MS = 12 * 60 * 60 * 1000;
+const storedHashes = new Map<string, number>();
+const contentCache = new Map<string, string>();
+// Last hash per path, so a save only hashes files whose contents changed.
+const pathHashes = new Map<string, { content: string; hash: string }>();
+
+const chunk = <T,>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+};
+
+// Hex SHA-256 of the UTF-8 contents, the same as Postgres' encode(sha256(convert_to(content, 'UTF8')), 'hex').
+export const hashContent = async (content: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const buildManifest = async (fileSystem: FileSystem): Promise<FileManifest> => {
+  const manifest: FileManifest = {};
+  for (const [path, content] of Object.entries(fileSystem)) {
+    const known = pathHashes.get(path);
+    if (known && known.content === content) {
+      manifest[path] = known.hash;
+      continue;
+    }
+    const hash = await hashContent(content);
+    pathHashes.set(path, { content, hash });
+    contentCache.set(hash, content);
+    manifest[path] = hash;
+  }
+  return manifest;
+};
+
+export const blobService = {
+  // Stores any contents not yet among the owner's blobs and returns the manifest for the file system.
+  async save(fileSystem: FileSystem, ownerId: string): Promise<FileManifest> {
+    const manifest = await buildManifest(fileSystem);
+    const now = Date.now();
+    const unknown = [...new Set(Object.values(manifest))].filter(hash => {
+      const uploadedAt = storedHashes.get(`${ownerId}:${hash}`);
+      return uploadedAt === undefined || now - uploadedAt > STORED_HASH_TTL_MS;
+    });
+    if (unknown.length === 0) return manifest;
+
+    // Touching the blobs that already exist keeps garbage collection from deleting them before the
+    // manifest that reuses them is written.
+    const existing = new Set<string>();
+    for (const hashes of chunk(unknown, HASH_QUERY_CHUNK)) {
+      const { data, error } = await supabase.rpc('touch_file_blobs', { p_user_id: ownerId, p_hashes: hashes });
+
+      if (error) {
+        console.error("Supabase error touching file blobs:", error);
+        throw error;
+      }
+      ((data || []) as string[]).forEach(hash => existing.add(hash));
+    }
+
+    const missing = unknown.filter(hash => !existing.has(hash));
+    let batch: { user_id: string; hash: string; content: string }[] = [];
+    let batchBytes = 0;
+    const flush = async () => {
+      if (batch.length === 0) return;
+      const { error } = await supabase
+        .from('file_blobs')
+        .upsert(batch, { onConflict: 'user_id,hash', ignoreDuplicates: true });
+
+      if (error) {
+        console.error("Supabase error uploading file blobs:", error);
+        throw error;
+      }
+      batch = [];
+      batchBytes = 0;
+    };
+    for (const hash of missing) {
+      const content = contentCache.get(hash)!;
+      if (batchBytes > 0 && batchBytes + content.length > UPLOAD_BATCH_BYTES) await flush();
+      batch.push({ user_id: ownerId, hash, content });
+      batchBytes += content.length;
+    }
+    await flush();
+
+    unknown.forEach(hash => storedHashes.set(`${ownerId}:${hash}`, now));
+    return manifest;
+  },
+
+  // Assembles a file system from a manifest, fetching only contents not already in memory.
+  async load(manifest: FileManifest, ownerId: string): Promise<FileSystem> {
+    const needed = [...new Set(Object.values(manifest))].filter(hash => !contentCache.has(hash));
+    for (const hashes of chunk(needed, HASH_QUERY_CHUNK)) {
+      const { data, error } = await supabase
+        .from('file_blobs')
+        .select('hash, content')
+        .eq('user_id', ownerId)
+        .in('hash', hashes);
+
+      if (error) {
+        console.error("Supabase error loading file blobs:", error);
+        throw error;
+      }
+      (data || []).forEach(row => contentCache.set(row.hash, row.content));
+    }
+
+    const fileSystem: FileSystem = {};
+    for (const [path, hash] of Object.entries(manifest)) {
+      const content = contentCache.get(hash);
+      if (content === undefined) throw new Error(`The stored contents of ${path} are missing.`);
+      fileSystem[path] = content;
+    }
+    return fileSystem;
+  },
+
+  // Deletes the user's blobs that no project or checkpoint refers to any more.
+  async collectGarbage(): Promise<number> {
+    const { data, error } = await supabase.rpc('delete_unreferenced_file_blobs');
+
+    if (error) {
+      console.error("Supabase error collecting file blobs:", error);
+      throw error;
+    }
+    storedHashes.clear();
+    return data ?? 0;
+  },
+};
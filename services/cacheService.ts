@@ -1,8 +1,14 @@
-import { FileSystem } from '../types';
+import { ChatMessage, FileSystem, Project } from '../types';
 
 const DB_NAME = 'MominAiCache';
 const STORE_NAME = 'projects';
-const DB_VERSION = 1;
+const CONVERSATION_STORE_NAME = 'conversations';
+const PROJECT_MIRROR_STORE_NAME = 'projectMirrors';
+const PENDING_SAVE_STORE_NAME = 'pendingSaves';
+const DB_VERSION = 3;
+
+// In WebContainer, npm runs as root, so the cache is in /root/.npm
+export const NPM_CACHE_PATH = '/root/.npm';
 
 export interface CachedProject {
   id: string;
@@ -11,6 +17,38 @@ export interface CachedProject {
   timestamp: number;
 }
 
+// Local mirror of a project's chat and agent history, shown immediately on open while the
+// copy in Supabase loads.
+export interface CachedConversation {
+  id: string;
+  messages: ChatMessage[];
+  history: { role: string, parts: any[] }[];
+  timestamp: number;
+}
+
+// The last copy of a project known to be in Supabase, so it can be opened while offline.
+export interface CachedProjectMirror {
+  id: string;
+  project: Project;
+  timestamp: number;
+}
+
+// Files saved locally that haven't reached Supabase yet; later saves replace the files but keep
+// `baseUpdatedAt`, the project's updated_at the edits started from, to detect conflicting edits.
+export interface PendingSave {
+  id: string;
+  fileSystem: FileSystem;
+  baseUpdatedAt: string | null;
+  // The files as of baseUpdatedAt, when known, so a conflict can be merged three ways.
+  baseFileSystem?: FileSystem;
+  // Summary for the checkpoint created once the save goes through.
+  summary?: string;
+  sourceVersionId?: string;
+  queuedAt: number;
+  // Set when Supabase has a newer version, until the user picks which one to keep.
+  conflictUpdatedAt?: string;
+}
+
 let db: IDBDatabase | null = null;
 
 const openDB = (): Promise<IDBDatabase> => {
@@ -36,14 +74,30 @@ const openDB = (): Promise<IDBDatabase> => {
       if (!dbInstance.objectStoreNames.contains(STORE_NAME)) {
         dbInstance.createObjectStore(STORE_NAME, { keyPath: 'id' });
       }
+      if (!dbInstance.objectStoreNames.contains(CONVERSATION_STORE_NAME)) {
+        dbInstance.createObjectStore(CONVERSATION_STORE_NAME, { keyPath: 'id' });
+      }
+      if (!dbInstance.objectStoreNames.contains(PROJECT_MIRROR_STORE_NAME)) {
+        dbInstance.createObjectStore(PROJECT_MIRROR_STORE_NAME, { keyPath: 'id' });
+      }
+      if (!dbInstance.objectStoreNames.contains(PENDING_SAVE_STORE_NAME)) {
+        dbInstance.createObjectStore(PENDING_SAVE_STORE_NAME, { keyPath: 'id' });
+      }
     };
   });
 };
 
-const getStore = async (mode: IDBTransactionMode): Promise<IDBObjectStore> => {
+const getStore = async (mode: IDBTransactionMode, storeName: string = STORE_NAME): Promise<IDBObjectStore> => {
     const dbInstance = await openDB();
-    const transaction = dbInstance.transaction(STORE_NAME, mode);
-    return transaction.objectStore(STORE_NAME);
+    const transaction = dbInstance.transaction(storeName, mode);
+    return transaction.objectStore(storeName);
+};
+
+const toPromise = <T,>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
 };
 
 export const cacheService = {
@@ -104,4 +158,97 @@ export const cacheService = {
         console.error("Failed to clear project cache:", e);
     }
   },
-};
\ No newline at end of file
+
+  async getConversationCache(projectId: string): Promise<CachedConversation | null> {
+    try {
+        const store = await getStore('readonly', CONVERSATION_STORE_NAME);
+        const request = store.get(projectId);
+        return new Promise((resolve, reject) => {
+          request.onsuccess = () => {
+            resolve(request.result || null);
+          };
+          request.onerror = () => {
+            reject(request.error);
+          };
+        });
+    } catch(e) {
+        console.error("Failed to get conversation cache:", e);
+        return null;
+    }
+  },
+
+  async setConversationCache(projectId: string, messages: ChatMessage[], history: CachedConversation['history']): Promise<void> {
+    try {
+        const store = await getStore('readwrite', CONVERSATION_STORE_NAME);
+        const cacheEntry: CachedConversation = {
+          id: projectId,
+          messages,
+          history,
+          timestamp: Date.now(),
+        };
+        const request = store.put(cacheEntry);
+        return new Promise((resolve, reject) => {
+          request.onsuccess = () => {
+            resolve();
+          };
+          request.onerror = () => {
+            reject(request.error);
+          };
+        });
+    } catch(e) {
+        console.error("Failed to set conversation cache:", e);
+    }
+  },
+
+  async getProjectMirror(projectId: string): Promise<CachedProjectMirror | null> {
+    try {
+        const store = await getStore('readonly', PROJECT_MIRROR_STORE_NAME);
+        return (await toPromise(store.get(projectId))) || null;
+    } catch(e) {
+        console.error("Failed to get project mirror:", e);
+        return null;
+    }
+  },
+
+  async getProjectMirrors(): Promise<CachedProjectMirror[]> {
+    try {
+        const store = await getStore('readonly', PROJECT_MIRROR_STORE_NAME);
+        return await toPromise(store.getAll());
+    } catch(e) {
+        console.error("Failed to list project mirrors:", e);
+        return [];
+    }
+  },
+
+  async setProjectMirror(project: Project): Promise<void> {
+    try {
+        const store = await getStore('readwrite', PROJECT_MIRROR_STORE_NAME);
+        const entry: CachedProjectMirror = { id: project.id, project, timestamp: Date.now() };
+        await toPromise(store.put(entry));
+    } catch(e) {
+        console.error("Failed to set project mirror:", e);
+    }
+  },
+
+  // Unlike the other caches, pending saves are the only copy of the user's edits, so failures
+  // are thrown rather than swallowed.
+  async getPendingSave(projectId: string): Promise<PendingSave | null> {
+    const store = await getStore('readonly', PENDING_SAVE_STORE_NAME);
+    return (await toPromise(store.get(projectId))) || null;
+  },
+
+  async getPendingSaves(): Promise<PendingSave[]> {
+    const store = await getStore('readonly', PENDING_SAVE_STORE_NAME);
+    return toPromise(store.getAll());
+  },
+
+  async setPendingSave(save: PendingSave): Promise<void> {
+    const store = await getStore('readwrite', PENDING_SAVE_STORE_NAME);
+    await toPromise(store.put(save));
+  },
+
+  async deletePendingSave(projectId: string): Promise<void> {
+    const store = await getStore('readwrite', PENDING_SAVE_STORE_NAME);
+    await toPromise(store.delete(projectId));
+  },
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { defaultAgentSettings } from './agentSettingsService';
+import { getCommandPolicyError, parseCommand } from './commandService';
+
+const check = (command: string, settings = defaultAgentSettings) => getCommandPolicyError(parseCommand(command) as string[], settings);
+
+describe('getCommandPolicyError', () => {
+  it('allows listed commands and blocks denied ones', () => {
+    expect(check('npm install zod')).toBeNull();
+    expect(check('npx tsc --noEmit')).toBeNull();
+    expect(check('npm publish --dry-run')).toMatch(/'npm publish' commands are blocked/);
+    expect(check('rm -rf /')).toMatch(/not in the allowed commands/);
+  });
+
+  it('checks what npx and npm exec would run', () => {
+    expect(check('npx npm publish')).toMatch(/'npm publish' commands are blocked/);
+    expect(check('npx --yes -p npm npm publish')).toMatch(/'npm publish' commands are blocked/);
+    expect(check('npm exec -- npm token list')).toMatch(/'npm token' commands are blocked/);
+    expect(check('npx rimraf /')).toMatch(/'rimraf' is not in the allowed commands/);
+    expect(check('npx -c "npm publish"')).toMatch(/through a shell/);
+  });
+
+  it('blocks inline node code even where node is allowed', () => {
+    const settings = { ...defaultAgentSettings, commandAllowList: [...defaultAgentSettings.commandAllowList, 'node'] };
+    expect(check('node scripts/seed.js', settings)).toBeNull();
+    expect(check(`node -e "require('child_process').execSync('npm publish')"`, settings)).toMatch(/not supported/);
+    expect(check('node --print=process.env', settings)).toMatch(/not supported/);
+    expect(check('npx node -p 1', settings)).toMatch(/not supported/);
+    expect(check('node scripts/seed.js')).toMatch(/'node' is not in the allowed commands/);
+  });
+});
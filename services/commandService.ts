@@ -0,0 +1,195 @@
+import { WebContainer } from '@webcontainer/api';
+import { AgentSettings, FileSystem } from '../types';
+
+// Running agent-requested commands (`run_command`) inside a WebContainer: parsing, the allow/deny
+// policy, output capture with a timeout, and picking up files the command created or changed.
+
+export interface CommandResult {
+  exitCode: number | null; // null when the process was killed
+  output: string;
+  timedOut: boolean;
+}
+
+// Shell operators would let one allowed command chain any other, so commands run without a shell.
+const SHELL_OPERATORS = /[|&;<>`]/;
+
+// Splits a command line into argv, honouring single and double quotes.
+export const parseCommand = (command: string): string[] | { error: string } => {
+  const argv: string[] = [];
+  let current = '';
+  let quote: '"' | "'" | null = null;
+  let hasToken = false;
+
+  for (const char of command.trim()) {
+    if (quote) {
+      if (char === quote) quote = null;
+      else current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      hasToken = true;
+    } else if (/\s/.test(char)) {
+      if (hasToken) argv.push(current);
+      current = '';
+      hasToken = false;
+    } else {
+      if (SHELL_OPERATORS.test(char) || (char === '(' && current.endsWith('$'))) { // `$(...)` substitution
+        return { error: `Shell operators such as '|', '&&', ';' and redirects are not supported. Run one command per call.` };
+      }
+      current += char;
+      hasToken = true;
+    }
+  }
+  if (quote) return { error: 'Unterminated quote in command.' };
+  if (hasToken) argv.push(current);
+  if (argv.length === 0) return { error: 'Empty command.' };
+  return argv;
+};
+
+// An entry matches when it equals the command or is a whole-word prefix of it, so 'npm' allows
+// 'npm ls' and 'npm publish' denies 'npm publish --dry-run'.
+const matchesEntry = (command: string, entry: string) => {
+  const normalised = entry.trim().replace(/\s+/g, ' ');
+  return !!normalised && (command === normalised || command.startsWith(`${normalised} `));
+};
+
+// npx options that take a value, so the value isn't mistaken for the package to run.
+const NPX_VALUE_OPTIONS = new Set(['-p', '--package', '--cache', '--registry', '--userconfig']);
+
+// The command that `npx ...`, `npm exec ...` or `npm x ...` would run, which has to pass the policy
+// itself; null for any other command. `-c` runs a command string through a shell, so it is refused.
+const getExecTarget = (argv: string[]): string[] | { error: string } | null => {
+  let rest: string[];
+  if (argv[0] === 'npx') rest = argv.slice(1);
+  else if (argv[0] === 'npm' && (argv[1] === 'exec' || argv[1] === 'x')) rest = argv.slice(2);
+  else return null;
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (arg === '--') return rest.slice(i + 1);
+    if (arg === '-c' || arg === '--call' || arg.startsWith('--call=')) {
+      return { error: `'${argv[0]} ${argv[0] === 'npm' ? `${argv[1]} ` : ''}${arg}' runs its command through a shell, which is not supported.` };
+    }
+    if (!arg.startsWith('-')) return rest.slice(i);
+    if (NPX_VALUE_OPTIONS.has(arg)) i++;
+  }
+  return [];
+};
+
+// `node -e` and `node -p` run code given on the command line, out of reach of the deny list.
+const isInlineCodeOption = (arg: string) => /^(-e|-p|-pe|-ep|--eval|--print)(=|$)/.test(arg);
+
+// Returns why the command may not run, or null when the policy allows it. Deny wins over allow.
+// Whatever npx or `npm exec` would run is checked the same way.
+export const getCommandPolicyError = (argv: string[], settings: AgentSettings): string | null => {
+  const command = argv.join(' ');
+  const denied = settings.commandDenyList.find(entry => matchesEntry(command, entry));
+  if (denied) return `'${denied}' commands are blocked by the user's settings.`;
+  if (!settings.commandAllowList.some(entry => matchesEntry(command, entry))) {
+    return `'${argv[0]}' is not in the allowed commands (${settings.commandAllowList.join(', ')}).`;
+  }
+  if (argv[0] === 'node' && argv.slice(1).some(isInlineCodeOption)) {
+    return `'node -e' and 'node -p' are not supported. Write the code to a file and run that instead.`;
+  }
+  const target = getExecTarget(argv);
+  if (target && 'error' in target) return target.error;
+  return target && target.length > 0 ? getCommandPolicyError(target, settings) : null;
+};
+
+// eslint-disable-next-line no-control-regex
+const ANSI_ESCAPES = /\x1b\[[0-9;?]*[A-Za-z]|\x1b\][^\x07]*\x07/g;
+export const stripAnsi = (text: string) => text.replace(ANSI_ESCAPES, '');
+
+// Keeps the start (usually the command's header) and the end (usually the error or summary).
+export const truncateOutput = (output: string, maxChars = 8000): string => {
+  if (output.length <= maxChars) return output;
+  const head = Math.floor(maxChars / 4);
+  const tail = maxChars - head;
+  return `${output.slice(0, head)}\n[... ${output.length - maxChars} characters omitted ...]\n${output.slice(-tail)}`;
+};
+
+export const runProcess = async (
+  wc: WebContainer,
+  argv: string[],
+  options: { timeoutMs: number; cwd?: string; signal?: AbortSignal; onOutput?: (data: string) => void }
+): Promise<CommandResult> => {
+  if (options.signal?.aborted) throw new DOMException('The agent was stopped.', 'AbortError');
+  const proc = await wc.spawn(argv[0], argv.slice(1), { cwd: options.cwd });
+  let output = '';
+  proc.output.pipeTo(new WritableStream({
+    write(data) {
+      output += data;
+      options.onOutput?.(data);
+    },
+  })).catch(() => {});
+
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onAbort: (() => void) | undefined;
+  const stopped = new Promise<null>(resolve => {
+    timer = setTimeout(() => {
+      timedOut = true;
+      resolve(null);
+    }, options.timeoutMs);
+    onAbort = () => resolve(null);
+    // The signal may have been aborted while the process was starting.
+    if (options.signal?.aborted) onAbort();
+    else options.signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+  const exitCode = await Promise.race([proc.exit, stopped]);
+  clearTimeout(timer);
+  if (onAbort) options.signal?.removeEventListener('abort', onAbort);
+  if (exitCode === null) proc.kill();
+  return { exitCode, output: stripAnsi(output), timedOut };
+};
+
+// Where the verification sandbox (see verificationService) keeps its copy of the draft inside a container.
+export const VERIFY_DIR = '.mominai-verify';
+
+// Dependencies, build output and caches aren't project files.
+const IGNORED_DIRS = new Set(['node_modules', '.git', 'dist', 'build', '.cache', '.npm', '.vite', VERIFY_DIR]);
+const MAX_READ_BACK_BYTES = 512 * 1024;
+
+// Text files under `dir`, keyed by their path relative to `root`; `seen` collects every file path,
+// including the skipped ones.
+const readProjectFiles = async (wc: WebContainer, seen: Set<string>, root: string, dir = ''): Promise<FileSystem> => {
+  const files: FileSystem = {};
+  const resolve = (path: string) => (root ? `${root}/${path}` : path);
+  const entries = await wc.fs.readdir(dir ? resolve(dir) : root || '.', { withFileTypes: true });
+  for (const entry of entries) {
+    const path = dir ? `${dir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      if (!IGNORED_DIRS.has(entry.name)) Object.assign(files, await readProjectFiles(wc, seen, root, path));
+    } else if (entry.isFile()) {
+      seen.add(path);
+      const bytes = await wc.fs.readFile(resolve(path));
+      // Binary or very large files (e.g. generated assets) are left out of the project.
+      if (bytes.byteLength > MAX_READ_BACK_BYTES || bytes.includes(0)) continue;
+      files[path] = new TextDecoder().decode(bytes);
+    }
+  }
+  return files;
+};
+
+// Files the command created, changed or deleted, compared with what was in the container before
+// it ran (`baseline`). Binary files and directory markers in the baseline are never reported.
+// `root` is the project's directory within the container, if it isn't the working directory.
+export const collectFileChanges = async (
+  wc: WebContainer,
+  baseline: FileSystem,
+  root = ''
+): Promise<{ changed: FileSystem; deleted: string[] }> => {
+  const seen = new Set<string>();
+  const current = await readProjectFiles(wc, seen, root);
+  const changed: FileSystem = {};
+  for (const [path, content] of Object.entries(current)) {
+    if (baseline[path] !== content && !baseline[path]?.startsWith('base64:')) changed[path] = content;
+  }
+  const deleted = Object.keys(baseline).filter(path =>
+    !seen.has(path) &&
+    baseline[path] !== '__DIR__' &&
+    !baseline[path].startsWith('base64:') &&
+    !path.split('/').some(part => IGNORED_DIRS.has(part))
+  );
+  return { changed, deleted };
+};
@@ -0,0 +1,77 @@
+import { getAuthToken, readErrorMessage } from './providers/providerUtils';
+
+// Keys written by earlier versions of the app, which kept them in localStorage.
+const LEGACY_STORAGE_KEYS: Record<string, string> = {
+  claude: 'claude_api_key',
+  openai: 'openai_api_key',
+  groq: 'groq_api_key',
+  pexels: 'pexels_api_key',
+};
+
+interface StoredKey {
+  provider: string;
+  key_hint: string;
+  updated_at: string;
+}
+
+// Last known vault status, so adapters can answer hasApiKey() synchronously.
+let storedKeys: Record<string, string> = {};
+let sharedProviders: string[] = [];
+
+const vaultRequest = async (init: RequestInit & { query?: string } = {}): Promise<Response> => {
+  const token = await getAuthToken();
+  const response = await fetch(`/api/keys${init.query || ''}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}`, ...init.headers },
+  });
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Key vault request failed'));
+  }
+  return response;
+};
+
+// Provider keys live encrypted in Supabase and are only ever decrypted by our server functions.
+// The browser can add, replace or remove a key, and see a short hint of it, but never read it back.
+export const keyVaultService = {
+  hasKey(provider: string): boolean {
+    return provider in storedKeys || sharedProviders.includes(provider);
+  },
+
+  getHint(provider: string): string | null {
+    return storedKeys[provider] ?? null;
+  },
+
+  isShared(provider: string): boolean {
+    return sharedProviders.includes(provider);
+  },
+
+  async refresh(): Promise<void> {
+    await this.migrateLegacyKeys();
+    const response = await vaultRequest();
+    const data: { keys: StoredKey[]; shared: string[] } = await response.json();
+    storedKeys = Object.fromEntries(data.keys.map(k => [k.provider, k.key_hint]));
+    sharedProviders = data.shared;
+  },
+
+  async saveKey(provider: string, key: string): Promise<void> {
+    const response = await vaultRequest({ method: 'PUT', body: JSON.stringify({ provider, key }) });
+    const data: { key_hint: string } = await response.json();
+    storedKeys = { ...storedKeys, [provider]: data.key_hint };
+  },
+
+  async deleteKey(provider: string): Promise<void> {
+    await vaultRequest({ method: 'DELETE', query: `?provider=${encodeURIComponent(provider)}` });
+    const { [provider]: _removed, ...rest } = storedKeys;
+    storedKeys = rest;
+  },
+
+  // Moves keys left in localStorage by older versions into the vault, then deletes them locally.
+  async migrateLegacyKeys(): Promise<void> {
+    for (const [provider, storageKey] of Object.entries(LEGACY_STORAGE_KEYS)) {
+      const key = localStorage.getItem(storageKey);
+      if (!key) continue;
+      await this.saveKey(provider, key);
+      localStorage.removeItem(storageKey);
+    }
+  },
+};
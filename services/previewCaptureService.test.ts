@@ -0,0 +1,55 @@
+import { WebContainer } from '@webcontainer/api';
+import { describe, expect, it, vi } from 'vitest';
+import { followPreviewServer, previewCaptureService } from './previewCaptureService';
+
+vi.mock('../utils/previewUtils', () => ({
+  PREVIEW_SCRIPT: '',
+  captureInFrame: async () => 'data:image/png;base64,iVBORw0KGgo=',
+}));
+
+// A live container whose dev server is already up. Every process it spawns reports ready on the
+// port it was asked for, as vite does.
+const fakeContainer = () => {
+  const listeners: ((port: number, url: string) => void)[] = [];
+  const emitReady = (port: number) => listeners.forEach(listener => listener(port, `https://preview-${port}.local`));
+  const wc = {
+    on: (event: string, listener: (port: number, url: string) => void) => {
+      if (event !== 'server-ready') return () => {};
+      listeners.push(listener);
+      return () => listeners.splice(listeners.indexOf(listener), 1);
+    },
+    setPreviewScript: async () => {},
+    fs: { rm: async () => {}, mkdir: async () => {}, readdir: async () => [], writeFile: async () => {} },
+    spawn: vi.fn(async (_command: string, args: string[]) => {
+      setTimeout(() => emitReady(Number(args[args.indexOf('--port') + 1])));
+      return { output: new ReadableStream(), exit: new Promise<number>(() => {}), kill: vi.fn() };
+    }),
+  };
+  return { wc: wc as unknown as WebContainer, emitReady };
+};
+
+describe('followPreviewServer', () => {
+  it('keeps the preview on the live dev server while a draft is captured', async () => {
+    const { wc, emitReady } = fakeContainer();
+    const setIframeUrl = vi.fn();
+    wc.on('server-ready', followPreviewServer(setIframeUrl));
+    emitReady(5173);
+
+    const { result } = await previewCaptureService.capture({ 'index.html': '<div id="root"></div>' }, { host: wc, viewports: ['desktop'] });
+
+    expect(result).toHaveLength(1);
+    expect(setIframeUrl).toHaveBeenCalledTimes(1);
+    expect(setIframeUrl).toHaveBeenCalledWith('https://preview-5173.local');
+  });
+
+  it('ignores other dev servers but follows the preview when it restarts', () => {
+    const onReady = vi.fn();
+    const listener = followPreviewServer(onReady);
+    listener(5199, 'https://capture.local');
+    listener(5173, 'https://preview.local');
+    listener(5174, 'https://agent-vite.local');
+    listener(5173, 'https://preview-restarted.local');
+
+    expect(onReady.mock.calls).toEqual([['https://preview.local'], ['https://preview-restarted.local']]);
+  });
+});
@@ -0,0 +1,97 @@
+import { WebContainer } from '@webcontainer/api';
+import { FileSystem } from '../types';
+import { captureInFrame, PREVIEW_SCRIPT } from '../utils/previewUtils';
+import { stripAnsi, truncateOutput } from './commandService';
+import { VerificationOptions, VerificationTimings, verificationService } from './verificationService';
+
+// Screenshots of the agent's draft for `capture_preview`. The live preview only shows the last
+// finished task, so the draft is served by a dev server of its own in the verification sandbox
+// and loaded in off-screen iframes at each viewport size.
+
+export type ViewportName = 'desktop' | 'tablet' | 'mobile';
+
+export const CAPTURE_VIEWPORTS: Record<ViewportName, { width: number; height: number }> = {
+  desktop: { width: 1280, height: 800 },
+  tablet: { width: 768, height: 1024 },
+  mobile: { width: 375, height: 812 },
+};
+
+export interface PreviewScreenshot {
+  viewport: ViewportName;
+  width: number;
+  height: number;
+  mimeType: string;
+  // Base64, without the data URL prefix.
+  data: string;
+}
+
+export interface CaptureOptions extends VerificationOptions {
+  viewports: ViewportName[];
+  // Route to open, e.g. '/settings'. Defaults to '/'.
+  path?: string;
+}
+
+// Away from the live preview's dev server, which may run in the same container.
+const CAPTURE_PORT = 5199;
+const SERVER_TIMEOUT_MS = 90000;
+
+// The live preview's `server-ready` listener. It follows the first dev server that reports ready in
+// the container and ignores any other, such as the capture server or a vite the agent starts with
+// `run_command`, so those never replace what the preview shows.
+export const followPreviewServer = (onReady: (url: string) => void) => {
+  let previewPort: number | null = null;
+  return (port: number, url: string) => {
+    if (port === CAPTURE_PORT) return;
+    previewPort ??= port;
+    if (port === previewPort) onReady(url);
+  };
+};
+
+const startDevServer = async (wc: WebContainer, cwd: string, signal?: AbortSignal) => {
+  const proc = await wc.spawn('npx', ['vite', '--port', String(CAPTURE_PORT), '--strictPort'], { cwd });
+  let output = '';
+  proc.output.pipeTo(new WritableStream({ write(data) { output += data; } })).catch(() => {});
+
+  let unsubscribe = () => {};
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    const url = await new Promise<string>((resolve, reject) => {
+      unsubscribe = wc.on('server-ready', (port, serverUrl) => {
+        if (port === CAPTURE_PORT) resolve(serverUrl);
+      });
+      proc.exit.then(code => reject(new Error(`The dev server exited with code ${code}.\n${truncateOutput(stripAnsi(output), 2000)}`)));
+      timer = setTimeout(() => reject(new Error(`The dev server did not start within ${SERVER_TIMEOUT_MS / 1000} seconds.`)), SERVER_TIMEOUT_MS);
+      if (signal?.aborted) reject(new DOMException('The agent was stopped.', 'AbortError'));
+      signal?.addEventListener('abort', () => reject(new DOMException('The agent was stopped.', 'AbortError')), { once: true });
+    });
+    return { url, stop: () => proc.kill() };
+  } catch (e) {
+    proc.kill();
+    throw e;
+  } finally {
+    clearTimeout(timer);
+    unsubscribe();
+  }
+};
+
+export const previewCaptureService = {
+  capture(fileSystem: FileSystem, options: CaptureOptions): Promise<{ result: PreviewScreenshot[]; timings: VerificationTimings }> {
+    return verificationService.run(fileSystem, options, async (wc, cwd) => {
+      // An owned sandbox container doesn't have the script yet; setting it again on the live one is harmless.
+      await wc.setPreviewScript(PREVIEW_SCRIPT);
+      const server = await startDevServer(wc, cwd, options.signal);
+      try {
+        const screenshots: PreviewScreenshot[] = [];
+        for (const viewport of options.viewports) {
+          const size = CAPTURE_VIEWPORTS[viewport];
+          const dataUrl = await captureInFrame(new URL(options.path || '/', server.url).href, size, { signal: options.signal });
+          const [header, data] = dataUrl.split(',');
+          screenshots.push({ viewport, ...size, mimeType: header.replace(/^data:|;base64$/g, ''), data });
+        }
+        return screenshots;
+      } finally {
+        server.stop();
+      }
+    });
+  },
+};
@@ -1,58 +1,161 @@
 import { supabase } from '../lib/supabaseClient';
-import { FileSystem, AiProvider, Project, ProjectVersion } from '../types';
+import { FileManifest, FileSystem, AiProvider, Project, ProjectAgentLock, ProjectMember, ProjectMessage, ProjectModelSettings, ProjectSummary, ProjectVersion, ProjectVersionSummary } from '../types';
+import { blobService } from './blobService';
+
+// Files are stored as manifests of content hashes (see blobService), so rows are selected without
+// them and file systems are only assembled when a project or checkpoint is opened.
+const PROJECT_COLUMNS = 'id, user_id, name, provider, model_settings, created_at, updated_at';
+const VERSION_COLUMNS = 'id, project_id, summary, pinned, source_version_id, created_at';
+
+// Rows saved before content-addressed storage still have their files inline.
+const loadFileSystem = (row: { manifest?: FileManifest | null; file_system?: FileSystem | null }, ownerId: string): Promise<FileSystem> =>
+  row.manifest ? blobService.load(row.manifest, ownerId) : Promise.resolve(row.file_system || {});
+
+// The owner of each project seen so far. A shared project's files are blobs of its owner, so
+// saves and loads by members need the owner's id.
+const projectOwners = new Map<string, string>();
+
+const rememberOwner = <T extends { id: string; user_id: string }>(project: T): T => {
+  projectOwners.set(project.id, project.user_id);
+  return project;
+};
+
+const getOwnerId = async (projectId: string): Promise<string> =>
+  projectOwners.get(projectId) ?? (await projectService.getProjectSummary(projectId)).user_id;
+
+// A conditional save found that the project was saved somewhere else (another tab or device)
+// after the version the edits started from.
+export class ProjectConflictError extends Error {
+  constructor(public readonly projectId: string, public readonly remoteUpdatedAt: string) {
+    super('The project was saved somewhere else since it was loaded.');
+    this.name = 'ProjectConflictError';
+  }
+}
 
 export const projectService = {
-  async getProjectsForUser(): Promise<Project[]> {
+  // The user's own projects and the ones shared with them.
+  async getProjectsForUser(): Promise<ProjectSummary[]> {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) throw new Error("User not authenticated");
 
+    const { data: memberships, error: membershipsError } = await supabase
+      .from('project_members')
+      .select('project_id')
+      .eq('user_id', user.id);
+
+    if (membershipsError) {
+        console.error("Supabase error getting shared projects:", membershipsError);
+        throw membershipsError;
+    }
+    const sharedIds = (memberships || []).map(m => m.project_id);
     const { data, error } = await supabase
       .from('projects')
-      .select('*')
-      .eq('user_id', user.id)
+      .select(PROJECT_COLUMNS)
+      .or(sharedIds.length > 0 ? `user_id.eq.${user.id},id.in.(${sharedIds.join(',')})` : `user_id.eq.${user.id}`)
       .order('updated_at', { ascending: false });
       
     if (error) {
         console.error("Supabase error getting projects:", error);
         throw error;
     }
-    return data || [];
+    return (data || []).map(rememberOwner);
+  },
+
+  async getProjectSummary(id: string): Promise<ProjectSummary> {
+    const { data, error } = await supabase
+      .from('projects')
+      .select(PROJECT_COLUMNS)
+      .eq('id', id)
+      .single();
+
+    if (error) {
+        console.error("Supabase error getting project:", error);
+        throw error;
+    }
+    return rememberOwner(data);
+  },
+
+  async getProject(id: string): Promise<Project> {
+    const { data, error } = await supabase
+      .from('projects')
+      .select(`${PROJECT_COLUMNS}, manifest, file_system`)
+      .eq('id', id)
+      .single();
+
+    if (error) {
+        console.error("Supabase error getting project:", error);
+        throw error;
+    }
+    const { manifest, file_system, ...project } = rememberOwner(data);
+    return { ...project, file_system: await loadFileSystem({ manifest, file_system }, project.user_id) };
   },
   
   async createProject(
     name: string,
     provider: AiProvider,
-    file_system: FileSystem
+    file_system: FileSystem,
+    model_settings?: ProjectModelSettings
   ): Promise<Project> {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) throw new Error("User not authenticated");
-    
+
+    const manifest = await blobService.save(file_system, user.id);
     const { data, error } = await supabase
       .from('projects')
-      .insert({ name, provider, file_system, user_id: user.id })
-      .select()
+      .insert({ name, provider, manifest, model_settings, user_id: user.id })
+      .select(PROJECT_COLUMNS)
       .single();
       
     if (error) {
         console.error("Supabase error creating project:", error);
         throw error;
     }
-    return data;
+    return { ...rememberOwner(data), file_system };
   },
 
+  // With `expectedUpdatedAt`, the update only goes through if nobody else has saved the project
+  // since then, and throws ProjectConflictError otherwise.
   async updateProject(
     id: string,
-    file_system: FileSystem
+    file_system: FileSystem,
+    expectedUpdatedAt?: string | null
   ): Promise<Project> {
+    // Only contents that aren't stored yet are uploaded; the row itself just gets the new manifest.
+    const manifest = await blobService.save(file_system, await getOwnerId(id));
+    let query = supabase
+      .from('projects')
+      .update({ manifest, file_system: null, updated_at: new Date().toISOString() })
+      .eq('id', id);
+    if (expectedUpdatedAt) query = query.eq('updated_at', expectedUpdatedAt);
+    const { data, error } = await query
+      .select(PROJECT_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+        console.error("Supabase error updating project:", error);
+        throw error;
+    }
+    if (!data) {
+        const { updated_at } = await projectService.getProjectSummary(id);
+        throw new ProjectConflictError(id, updated_at);
+    }
+    return { ...data, file_system };
+  },
+
+  async updateProjectModelSettings(
+    id: string,
+    provider: AiProvider,
+    model_settings: ProjectModelSettings
+  ): Promise<ProjectSummary> {
     const { data, error } = await supabase
       .from('projects')
-      .update({ file_system, updated_at: new Date().toISOString() })
+      .update({ provider, model_settings })
       .eq('id', id)
-      .select()
+      .select(PROJECT_COLUMNS)
       .single();
 
     if (error) {
-        console.error("Supabase error updating project:", error);
+        console.error("Supabase error updating project model settings:", error);
         throw error;
     }
     return data;
@@ -61,25 +164,29 @@ export const projectService = {
   async createProjectVersion(
     projectId: string,
     file_system: FileSystem,
-    summary?: string
+    summary?: string,
+    sourceVersionId?: string
   ): Promise<ProjectVersion> {
+    // Right after an autosave every blob is already stored, so a checkpoint costs one small row.
+    const manifest = await blobService.save(file_system, await getOwnerId(projectId));
     const { data, error } = await supabase
       .from('project_versions')
-      .insert({ project_id: projectId, file_system, summary })
-      .select()
+      .insert({ project_id: projectId, manifest, summary, source_version_id: sourceVersionId })
+      .select(VERSION_COLUMNS)
       .single();
 
     if (error) {
       console.error("Supabase error creating project version:", error);
       throw error;
     }
-    return data;
+    return { ...data, file_system };
   },
 
-  async getProjectVersions(projectId: string): Promise<ProjectVersion[]> {
+  // Lists checkpoints newest first, without their files; fetch one with getProjectVersion.
+  async getProjectVersions(projectId: string): Promise<ProjectVersionSummary[]> {
     const { data, error } = await supabase
       .from('project_versions')
-      .select('*')
+      .select(VERSION_COLUMNS)
       .eq('project_id', projectId)
       .order('created_at', { ascending: false });
     
@@ -89,4 +196,183 @@ export const projectService = {
     }
     return data || [];
   },
+
+  async getProjectVersion(id: string): Promise<ProjectVersion> {
+    const { data, error } = await supabase
+      .from('project_versions')
+      .select(`${VERSION_COLUMNS}, manifest, file_system`)
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error("Supabase error getting project version:", error);
+      throw error;
+    }
+    const { manifest, file_system, ...version } = data;
+    return { ...version, file_system: await loadFileSystem({ manifest, file_system }, await getOwnerId(version.project_id)) };
+  },
+
+  async setProjectVersionPinned(id: string, pinned: boolean): Promise<void> {
+    const { data, error } = await supabase
+      .from('project_versions')
+      .update({ pinned })
+      .eq('id', id)
+      .select('id');
+
+    if (error) {
+      console.error("Supabase error pinning project version:", error);
+      throw error;
+    }
+    // Row level security skips rows the caller may not update instead of failing.
+    if (!data || data.length === 0) throw new Error('Only the owner of a project can pin its checkpoints.');
+  },
+
+  // Applies the retention rule (see prune_project_versions) and then drops file blobs that only the
+  // deleted checkpoints used; returns how many checkpoints were deleted.
+  async pruneProjectVersions(projectId: string, keepLatest: number, keepDailyDays: number): Promise<number> {
+    const { data, error } = await supabase.rpc('prune_project_versions', {
+      p_project_id: projectId,
+      p_keep_latest: keepLatest,
+      p_keep_daily_days: keepDailyDays,
+    });
+
+    if (error) {
+      console.error("Supabase error pruning project versions:", error);
+      throw error;
+    }
+    if (data) await blobService.collectGarbage();
+    return data ?? 0;
+  },
+
+  // Creates a new project from a checkpoint, starting its history with a copy of that checkpoint.
+  async forkProjectVersion(
+    version: ProjectVersion,
+    name: string,
+    provider: AiProvider,
+    model_settings?: ProjectModelSettings
+  ): Promise<Project> {
+    const project = await projectService.createProject(name, provider, version.file_system, model_settings);
+    await projectService.createProjectVersion(project.id, version.file_system, `Forked from a checkpoint of ${new Date(version.created_at).toLocaleString()}`, version.id);
+    return project;
+  },
+
+  async getProjectMessages(projectId: string): Promise<ProjectMessage[]> {
+    const { data, error } = await supabase
+      .from('project_messages')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('seq', { ascending: true });
+
+    if (error) {
+      console.error("Supabase error getting project messages:", error);
+      throw error;
+    }
+    return data || [];
+  },
+
+  async saveProjectMessages(rows: Pick<ProjectMessage, 'project_id' | 'kind' | 'client_id' | 'seq' | 'payload'>[]): Promise<void> {
+    if (rows.length === 0) return;
+    const { error } = await supabase
+      .from('project_messages')
+      .upsert(rows, { onConflict: 'project_id,kind,client_id' });
+
+    if (error) {
+      console.error("Supabase error saving project messages:", error);
+      throw error;
+    }
+  },
+
+  // Drops agent history turns from `seq` onwards, e.g. after a rejected plan is undone.
+  async truncateProjectHistory(projectId: string, seq: number): Promise<void> {
+    const { error } = await supabase
+      .from('project_messages')
+      .delete()
+      .eq('project_id', projectId)
+      .eq('kind', 'history')
+      .gte('seq', seq);
+
+    if (error) {
+      console.error("Supabase error truncating project history:", error);
+      throw error;
+    }
+  },
+
+  async getProjectMembers(projectId: string): Promise<ProjectMember[]> {
+    const { data, error } = await supabase
+      .from('project_members')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('added_at', { ascending: true });
+
+    if (error) {
+      console.error("Supabase error getting project members:", error);
+      throw error;
+    }
+    return data || [];
+  },
+
+  // Shares one of the user's projects with the account registered with `email`.
+  async addProjectMember(projectId: string, email: string): Promise<ProjectMember> {
+    const { data, error } = await supabase.rpc('add_project_member', { p_project_id: projectId, p_email: email });
+
+    if (error) {
+      console.error("Supabase error adding project member:", error);
+      throw error;
+    }
+    return data;
+  },
+
+  async removeProjectMember(projectId: string, userId: string): Promise<void> {
+    const { error } = await supabase
+      .from('project_members')
+      .delete()
+      .eq('project_id', projectId)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error("Supabase error removing project member:", error);
+      throw error;
+    }
+  },
+
+  // Takes or renews the project's agent lock for `sessionId`; false while another session holds it.
+  async acquireAgentLock(projectId: string, sessionId: string, holderName: string, ttlSeconds: number): Promise<boolean> {
+    const { data, error } = await supabase.rpc('acquire_agent_lock', {
+      p_project_id: projectId,
+      p_session_id: sessionId,
+      p_holder_name: holderName,
+      p_ttl_seconds: ttlSeconds,
+    });
+
+    if (error) {
+      console.error("Supabase error acquiring agent lock:", error);
+      throw error;
+    }
+    return !!data;
+  },
+
+  async releaseAgentLock(projectId: string, sessionId: string): Promise<void> {
+    const { error } = await supabase.rpc('release_agent_lock', { p_project_id: projectId, p_session_id: sessionId });
+
+    if (error) {
+      console.error("Supabase error releasing agent lock:", error);
+      throw error;
+    }
+  },
+
+  // The project's current agent lock, or null when no unexpired lock is held.
+  async getAgentLock(projectId: string): Promise<ProjectAgentLock | null> {
+    const { data, error } = await supabase
+      .from('project_agent_locks')
+      .select('*')
+      .eq('project_id', projectId)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+
+    if (error) {
+      console.error("Supabase error getting agent lock:", error);
+      throw error;
+    }
+    return data;
+  },
 };
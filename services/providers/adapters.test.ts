@@ -0,0 +1,114 @@
+import { Content } from '@google/genai';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AiProvider, ModelSettings, ProviderRequest, StreamEvent } from '../../types';
+import { getProvider } from './registry';
+import history from './__fixtures__/history.json';
+import claude from './__fixtures__/claude.json';
+import gemini from './__fixtures__/gemini.json';
+import groq from './__fixtures__/groq.json';
+import openai from './__fixtures__/openai.json';
+import openrouter from './__fixtures__/openrouter.json';
+
+vi.mock('../../lib/supabaseClient', () => ({
+    supabase: { auth: { getSession: async () => ({ data: { session: { access_token: 'test-token' } }, error: null }) } },
+}));
+
+// Recorded provider traffic for one turn: the `response` body of a plain request and the `stream`
+// of server-sent events for a streamed one. `expected` holds what the adapter makes of the shared
+// history in __fixtures__/history.json, and the response both of them normalise to.
+interface ProviderFixture {
+    response: unknown;
+    stream: { event?: string; data: unknown }[];
+    expected: { messages: unknown[]; response: unknown };
+}
+
+const fixtures: [AiProvider, ProviderFixture][] = [
+    ['claude', claude],
+    ['gemini', gemini],
+    ['groq', groq],
+    ['openai', openai],
+    ['openrouter', openrouter],
+];
+
+// Serves the events in small chunks, so they arrive split across reads as they do over the network.
+const sseResponse = (events: ProviderFixture['stream']): Response => {
+    const body = events
+        .map(({ event, data }) => `${event ? `event: ${event}\n` : ''}data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`)
+        .join('');
+    const bytes = new TextEncoder().encode(body);
+    return new Response(new ReadableStream({
+        start(controller) {
+            for (let i = 0; i < bytes.length; i += 64) controller.enqueue(bytes.slice(i, i + 64));
+            controller.close();
+        },
+    }));
+};
+
+const buildRequest = (provider: AiProvider, turns: Content[], settings?: Partial<ModelSettings>): ProviderRequest => ({
+    history: turns,
+    fileSystem: {},
+    systemInstruction: 'You are MominAI.',
+    tools: [],
+    settings: { ...getProvider(provider).defaultSettings, ...settings },
+});
+
+const mockFetch = (response: () => Response) => {
+    const fetchMock = vi.fn(async (_input: RequestInfo | URL, _init?: RequestInit) => response());
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+};
+
+const sentBody = (fetchMock: ReturnType<typeof mockFetch>) => JSON.parse(fetchMock.mock.calls[0][1]!.body as string);
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe.each(fixtures)('%s adapter', (provider, fixture) => {
+    const adapter = getProvider(provider);
+
+    it('translates the history', () => {
+        expect(adapter.translateHistory(history as Content[])).toEqual(fixture.expected.messages);
+    });
+
+    it('normalises a recorded response', () => {
+        expect(adapter.normaliseResponse(fixture.response)).toEqual(fixture.expected.response);
+    });
+
+    it('generates from a recorded response', async () => {
+        mockFetch(() => Response.json(fixture.response));
+        expect(await adapter.generate(buildRequest(provider, history as Content[]))).toEqual(fixture.expected.response);
+    });
+
+    it('assembles the same response from a recorded stream', async () => {
+        mockFetch(() => sseResponse(fixture.stream));
+        const events: StreamEvent[] = [];
+        for await (const event of adapter.stream!(buildRequest(provider, history as Content[]))) events.push(event);
+
+        const done = events[events.length - 1];
+        expect(done).toEqual({ type: 'done', response: fixture.expected.response });
+        const streamedText = events.map(e => (e.type === 'text' ? e.delta : '')).join('');
+        expect(streamedText).toBe((fixture.expected.response as { text: string }).text);
+    });
+});
+
+describe('claude adapter with extended thinking', () => {
+    const thinking = { model: 'claude-sonnet-4-20250514', thinkingBudget: 2048 };
+
+    it('replays signed thinking ahead of the tool use it led to', async () => {
+        const fetchMock = mockFetch(() => Response.json(claude.response));
+        await getProvider('claude').generate(buildRequest('claude', history as Content[], thinking));
+
+        const body = sentBody(fetchMock);
+        expect(body.thinking).toEqual({ type: 'enabled', budget_tokens: 2048 });
+        expect(body.messages).toEqual(claude.expected.messages);
+    });
+
+    it('goes without thinking when the last tool use had none, as after failing over', async () => {
+        const fetchMock = mockFetch(() => Response.json(claude.response));
+        const withoutThoughts = (history as Content[]).map(turn => ({ ...turn, parts: (turn.parts || []).filter(p => !p.thought) }));
+        await getProvider('claude').generate(buildRequest('claude', withoutThoughts, thinking));
+
+        expect(sentBody(fetchMock).thinking).toBeUndefined();
+    });
+});
@@ -0,0 +1,232 @@
+import { Content, Part } from '@google/genai';
+import { ProviderAdapter, ProviderRequest, SimplifiedGenerateContentResponse, StreamEvent, UsageMetadata } from '../../types';
+import { readSseStream } from '../../utils/streamUtils';
+import { finalizeStreamedCalls, getAuthToken, ProviderError, responseError, withToolCallIds } from './providerUtils';
+import { keyVaultService } from '../keyVaultService';
+
+// Our authenticated proxy, which attaches the user's key from the vault.
+const CLAUDE_ENDPOINT = '/api/generate-claude';
+
+// With extended thinking, Claude signs its thinking blocks and rejects a tool-use turn sent back
+// without them, so they are kept in the history as `thought` parts: the thinking text with its
+// signature, or (for a redacted block) just the encrypted data in `thoughtSignature`.
+const toThoughtPart = (block: any): Part =>
+    block.type === 'redacted_thinking'
+        ? { thought: true, thoughtSignature: block.data }
+        : { text: block.thinking, thought: true, thoughtSignature: block.signature };
+
+const toThinkingBlock = (part: Part) =>
+    part.text !== undefined
+        ? { type: 'thinking', thinking: part.text, signature: part.thoughtSignature }
+        : { type: 'redacted_thinking', data: part.thoughtSignature };
+
+// Model turns become `assistant` messages with `tool_use` blocks; function turns become `user`
+// messages of `tool_result` blocks. Claude expects the roles to alternate, so consecutive turns
+// from the same side (e.g. tool results followed by a new prompt) are merged into one message.
+const translateHistory = (history: Content[]) => {
+    const messages: { role: 'user' | 'assistant'; content: any[] }[] = [];
+    for (const turn of withToolCallIds(history)) {
+        const role = turn.role === 'model' ? 'assistant' : 'user';
+        const content = (turn.parts || []).flatMap((p): any[] => {
+            // Thinking without a signature can't be verified by Claude, so it is left out.
+            if (p.thought) return p.thoughtSignature ? [toThinkingBlock(p)] : [];
+            if (p.text) return [{ type: 'text', text: p.text }];
+            if (p.inlineData) return [{ 
+                type: 'image', 
+                source: { 
+                    type: 'base64', 
+                    media_type: p.inlineData.mimeType, 
+                    data: p.inlineData.data 
+                }
+            }];
+            if (p.functionCall) return [{ type: 'tool_use', id: p.functionCall.id, name: p.functionCall.name, input: p.functionCall.args ?? {} }];
+            if (p.functionResponse) return [{
+                type: 'tool_result',
+                tool_use_id: p.functionResponse.id,
+                content: JSON.stringify(p.functionResponse.response ?? {}),
+            }];
+            return [];
+        });
+        if (content.length === 0) continue;
+
+        const last = messages[messages.length - 1];
+        if (last && last.role === role) {
+            last.content.push(...content);
+        } else {
+            messages.push({ role, content });
+        }
+    }
+    return messages;
+};
+
+const toUsage = (inputTokens: number, outputTokens: number): UsageMetadata => ({
+    promptTokenCount: inputTokens,
+    candidatesTokenCount: outputTokens,
+    totalTokenCount: inputTokens + outputTokens,
+});
+
+const normaliseResponse = (data: any): SimplifiedGenerateContentResponse => {
+    const functionCalls: any[] = [];
+    const thoughts: Part[] = [];
+    let text = '';
+
+    data.content.forEach((block: any) => {
+        if (block.type === 'thinking' || block.type === 'redacted_thinking') {
+            thoughts.push(toThoughtPart(block));
+        } else if (block.type === 'text') {
+            text += block.text;
+        } else if (block.type === 'tool_use') {
+            functionCalls.push({
+                id: block.id,
+                name: block.name,
+                args: block.input,
+            });
+        }
+    });
+
+    return {
+        text,
+        functionCalls: functionCalls.length > 0 ? functionCalls : undefined,
+        ...(thoughts.length > 0 ? { thoughts } : {}),
+        usage: data.usage ? toUsage(data.usage.input_tokens || 0, data.usage.output_tokens || 0) : undefined,
+    };
+};
+
+const buildRequest = async (request: ProviderRequest, stream: boolean): Promise<RequestInit> => {
+    const token = await getAuthToken();
+
+    const { settings } = request;
+    const model = claudeAdapter.models.find(m => m.id === settings.model);
+    const messages = translateHistory(request.history);
+    // Claude also rejects thinking when the turn it is continuing used tools without thinking first,
+    // as happens after failing over from another provider mid-run; such a request goes without it.
+    const lastAssistant = [...messages].reverse().find(m => m.role === 'assistant');
+    const canThink = !lastAssistant
+        || !lastAssistant.content.some(block => block.type === 'tool_use')
+        || ['thinking', 'redacted_thinking'].includes(lastAssistant.content[0]?.type);
+    const thinkingBudget = model?.supportsThinking && settings.thinkingBudget && canThink ? Math.max(settings.thinkingBudget, 1024) : 0;
+    // max_tokens includes the thinking budget, so make room for the answer on top of it.
+    const maxTokens = (settings.maxOutputTokens ?? 4096) + thinkingBudget;
+
+    return {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+            model: settings.model,
+            max_tokens: maxTokens,
+            system: request.systemInstruction,
+            messages,
+            tools: claudeAdapter.translateTools(request.tools),
+            tool_choice: { type: 'auto' },
+            // Extended thinking requires the default temperature, so the two are mutually exclusive.
+            ...(thinkingBudget
+                ? { thinking: { type: 'enabled', budget_tokens: thinkingBudget } }
+                : settings.temperature !== undefined ? { temperature: settings.temperature } : {}),
+            ...(stream ? { stream: true } : {}),
+        }),
+        signal: request.signal,
+    };
+};
+
+export const claudeAdapter: ProviderAdapter = {
+    id: 'claude',
+    name: 'Claude',
+    capabilities: { vision: true, tools: true, streaming: true },
+    models: [
+        { id: 'claude-3-5-haiku-20241022', name: 'Claude 3.5 Haiku', contextWindow: 200000, maxOutputTokens: 8192, tier: 'fast', pricing: { input: 0.8, output: 4 } },
+        { id: 'claude-3-5-sonnet-20240620', name: 'Claude 3.5 Sonnet', contextWindow: 200000, maxOutputTokens: 8192, tier: 'balanced', pricing: { input: 3, output: 15 } },
+        { id: 'claude-sonnet-4-20250514', name: 'Claude Sonnet 4', contextWindow: 200000, maxOutputTokens: 64000, supportsThinking: true, tier: 'strong', pricing: { input: 3, output: 15 } },
+    ],
+    defaultSettings: { model: 'claude-3-5-sonnet-20240620', maxOutputTokens: 4096 },
+    keyConfig: { label: 'Anthropic (Claude)', url: 'https://console.anthropic.com/settings/keys' },
+    hasApiKey: () => keyVaultService.hasKey('claude'),
+    translateHistory,
+    translateTools: (tools) => tools.map(t => ({
+        name: t.name,
+        description: t.description,
+        input_schema: t.parameters
+    })),
+    normaliseResponse,
+
+    async generate(request) {
+        const response = await fetch(CLAUDE_ENDPOINT, await buildRequest(request, false));
+        if (!response.ok) {
+            throw await responseError(response, 'Claude API request failed');
+        }
+        return normaliseResponse(await response.json());
+    },
+
+    async *stream(request): AsyncGenerator<StreamEvent> {
+        const response = await fetch(CLAUDE_ENDPOINT, await buildRequest(request, true));
+        if (!response.ok) {
+            throw await responseError(response, 'Claude API request failed');
+        }
+
+        let text = '';
+        const calls: { id?: string; name: string; args: string }[] = [];
+        // Thinking blocks by content block index, completed by their deltas.
+        const thinkingByBlock = new Map<number, any>();
+        // Claude indexes content blocks across text and tool_use; map them to our tool-call indices.
+        const toolIndexByBlock = new Map<number, number>();
+        // Input tokens are reported on message_start, the output total on the final message_delta.
+        let inputTokens = 0;
+        let outputTokens = 0;
+
+        for await (const { data } of readSseStream(response)) {
+            const payload = JSON.parse(data);
+            switch (payload.type) {
+                case 'message_start':
+                    inputTokens = payload.message?.usage?.input_tokens || 0;
+                    outputTokens = payload.message?.usage?.output_tokens || 0;
+                    break;
+                case 'message_delta':
+                    if (payload.usage?.output_tokens !== undefined) outputTokens = payload.usage.output_tokens;
+                    break;
+                case 'content_block_start':
+                    if (payload.content_block?.type === 'thinking' || payload.content_block?.type === 'redacted_thinking') {
+                        thinkingByBlock.set(payload.index, { thinking: '', signature: '', ...payload.content_block });
+                    } else if (payload.content_block?.type === 'tool_use') {
+                        const index = calls.length;
+                        toolIndexByBlock.set(payload.index, index);
+                        calls.push({ id: payload.content_block.id, name: payload.content_block.name, args: '' });
+                        yield { type: 'tool_call', index, name: payload.content_block.name, argsDelta: '' };
+                    }
+                    break;
+                case 'content_block_delta':
+                    if (payload.delta?.type === 'text_delta') {
+                        text += payload.delta.text;
+                        yield { type: 'text', delta: payload.delta.text };
+                    } else if (payload.delta?.type === 'input_json_delta') {
+                        const index = toolIndexByBlock.get(payload.index);
+                        if (index !== undefined) {
+                            calls[index].args += payload.delta.partial_json;
+                            yield { type: 'tool_call', index, argsDelta: payload.delta.partial_json };
+                        }
+                    } else if (payload.delta?.type === 'thinking_delta') {
+                        const block = thinkingByBlock.get(payload.index);
+                        if (block) block.thinking += payload.delta.thinking;
+                    } else if (payload.delta?.type === 'signature_delta') {
+                        const block = thinkingByBlock.get(payload.index);
+                        if (block) block.signature += payload.delta.signature;
+                    }
+                    break;
+                case 'error':
+                    throw new ProviderError(payload.error?.message || 'Claude stream failed', undefined, true);
+            }
+        }
+
+        const thoughts = [...thinkingByBlock.entries()].sort(([a], [b]) => a - b).map(([, block]) => toThoughtPart(block));
+        yield {
+            type: 'done',
+            response: {
+                text,
+                functionCalls: finalizeStreamedCalls(calls),
+                ...(thoughts.length > 0 ? { thoughts } : {}),
+                usage: toUsage(inputTokens, outputTokens),
+            },
+        };
+    },
+};
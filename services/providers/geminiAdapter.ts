@@ -0,0 +1,134 @@
+import { Content } from '@google/genai';
+import { ProviderAdapter, ProviderRequest, SimplifiedGenerateContentResponse, StreamEvent, UsageMetadata } from '../../types';
+import { readSseStream } from '../../utils/streamUtils';
+import { getAuthToken, ProviderError, responseError } from './providerUtils';
+
+// Gemini bills thinking tokens as output, so they are counted with the candidates.
+const toUsage = (usageMetadata: any): UsageMetadata | undefined => {
+    if (!usageMetadata) return undefined;
+    const promptTokenCount = usageMetadata.promptTokenCount || 0;
+    const candidatesTokenCount = (usageMetadata.candidatesTokenCount || 0) + (usageMetadata.thoughtsTokenCount || 0);
+    return { promptTokenCount, candidatesTokenCount, totalTokenCount: promptTokenCount + candidatesTokenCount };
+};
+
+// Gemini runs through our authenticated Vercel function, which holds the key and builds the
+// system instruction and tool list itself, so history and tools are sent almost untranslated.
+const normaliseResponse = (responseData: any): SimplifiedGenerateContentResponse => {
+    const candidates = responseData.candidates;
+    let text = '';
+    let functionCalls: SimplifiedGenerateContentResponse['functionCalls'] = undefined;
+
+    if (candidates && candidates.length > 0) {
+        const firstCandidate = candidates[0];
+        if (firstCandidate.content && firstCandidate.content.parts && firstCandidate.content.parts.length > 0) {
+            const calls = firstCandidate.content.parts
+                .filter((part: any) => part.functionCall)
+                .map((part: any) => ({
+                    ...(part.functionCall.id ? { id: part.functionCall.id } : {}),
+                    name: part.functionCall.name,
+                    args: part.functionCall.args,
+                }));
+            
+            if (calls.length > 0) {
+                functionCalls = calls;
+            }
+
+            text = firstCandidate.content.parts
+                .filter((part: any) => part.text)
+                .map((part: any) => part.text)
+                .join('');
+        }
+    }
+
+    return { text, functionCalls, usage: toUsage(responseData.usageMetadata) };
+};
+
+// Thinking that another provider needs replayed (Claude's signed blocks) means nothing to Gemini.
+const translateHistory = (history: Content[]): Content[] => history
+    .map(turn => ({ ...turn, parts: (turn.parts || []).filter(p => !p.thought) }))
+    .filter(turn => turn.parts.length > 0);
+
+const postToProxy = async (request: ProviderRequest, stream: boolean): Promise<Response> => {
+    const token = await getAuthToken();
+
+    const response = await fetch('/api/generate-gemini', {
+        method: 'POST',
+        headers: { 
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({
+            history: translateHistory(request.history),
+            fileSystem: request.fileSystem,
+            settings: request.settings,
+            ...(stream ? { stream: true } : {}),
+        }),
+        signal: request.signal,
+    });
+
+    if (!response.ok) {
+        throw await responseError(response, 'Failed to fetch from Gemini API proxy');
+    }
+    return response;
+};
+
+export const geminiAdapter: ProviderAdapter = {
+    id: 'gemini',
+    name: 'Gemini',
+    capabilities: { vision: true, tools: true, streaming: true },
+    // Must stay in sync with GEMINI_MODELS in api/generate-gemini.ts, which rejects anything else.
+    models: [
+        { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', contextWindow: 1048576, maxOutputTokens: 65536, supportsThinking: true, tier: 'balanced', pricing: { input: 0.3, output: 2.5 } },
+        { id: 'gemini-2.5-flash-lite', name: 'Gemini 2.5 Flash-Lite', contextWindow: 1048576, maxOutputTokens: 65536, supportsThinking: true, tier: 'fast', pricing: { input: 0.1, output: 0.4 } },
+        { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', contextWindow: 1048576, maxOutputTokens: 65536, supportsThinking: true, tier: 'strong', pricing: { input: 1.25, output: 10 } },
+    ],
+    defaultSettings: { model: 'gemini-2.5-flash' },
+    hasApiKey: () => true, // Held server-side.
+    translateHistory,
+    translateTools: (tools) => tools,
+    normaliseResponse,
+
+    async generate(request) {
+        const response = await postToProxy(request, false);
+        return normaliseResponse(await response.json());
+    },
+
+    async *stream(request): AsyncGenerator<StreamEvent> {
+        const response = await postToProxy(request, true);
+
+        let text = '';
+        const calls: { id?: string; name: string; args: any }[] = [];
+        let usage: UsageMetadata | undefined;
+
+        for await (const { event, data } of readSseStream(response)) {
+            if (data === '[DONE]') break;
+            const payload = JSON.parse(data);
+            if (event === 'error') {
+                throw new ProviderError(payload.error || 'Gemini stream failed', undefined, true);
+            }
+
+            // Every chunk carries the running totals; the last one wins.
+            if (payload.usageMetadata) usage = toUsage(payload.usageMetadata);
+
+            const parts = payload.candidates?.[0]?.content?.parts || [];
+            for (const part of parts) {
+                if (part.text) {
+                    text += part.text;
+                    yield { type: 'text', delta: part.text };
+                }
+                // Gemini delivers each function call whole, so it is emitted as a single delta.
+                if (part.functionCall) {
+                    const index = calls.length;
+                    calls.push({
+                        ...(part.functionCall.id ? { id: part.functionCall.id } : {}),
+                        name: part.functionCall.name,
+                        args: part.functionCall.args || {},
+                    });
+                    yield { type: 'tool_call', index, name: part.functionCall.name, argsDelta: JSON.stringify(part.functionCall.args || {}) };
+                }
+            }
+        }
+
+        yield { type: 'done', response: { text, functionCalls: calls.length > 0 ? calls : undefined, usage } };
+    },
+};
@@ -0,0 +1,222 @@
+import { Content, Part } from '@google/genai';
+import { AiProvider, ModelInfo, ModelSettings, ProviderAdapter, ProviderCapabilities, ProviderKeyConfig, ProviderRequest, SimplifiedGenerateContentResponse, StreamEvent, UsageMetadata } from '../../types';
+import { readSseStream } from '../../utils/streamUtils';
+import { finalizeStreamedCalls, getAuthToken, ProviderError, responseError, withToolCallIds } from './providerUtils';
+import { keyVaultService } from '../keyVaultService';
+
+// Configuration for any server speaking the OpenAI chat-completions protocol: OpenAI itself,
+// Groq, OpenRouter, and local servers such as Ollama, llama.cpp or LM Studio.
+export interface OpenAiCompatibleConfig {
+    id: AiProvider;
+    name: string;
+    // Where requests go, as exactly one of:
+    // - `proxyEndpoint`: one of our authenticated server functions (e.g. '/api/generate-openai'),
+    //   which attaches the user's key from the key vault; the browser never holds the key.
+    // - `baseUrl`: a server called directly from the browser, up to and including the API version,
+    //   e.g. 'http://localhost:11434/v1'. Used for local servers, with an optional fixed `apiKey`.
+    proxyEndpoint?: string;
+    baseUrl?: string;
+    apiKey?: string;
+    models: ModelInfo[];
+    defaultSettings: ModelSettings;
+    capabilities?: Partial<ProviderCapabilities>;
+    keyConfig?: ProviderKeyConfig;
+    // How thinking budgets are expressed for models that support them: OpenAI's `reasoning_effort`
+    // levels, or OpenRouter's `reasoning.max_tokens`.
+    reasoningStyle?: 'effort' | 'tokens';
+    // Groq only accepts plain string content, so images and structured parts are flattened.
+    textOnlyContent?: boolean;
+}
+
+// Text and image parts as chat-completions content blocks.
+const toUserContent = (parts: Part[]) => {
+    const content: any[] = [];
+    parts.forEach(p => {
+        if (p.text) content.push({ type: 'text', text: p.text });
+        if (p.inlineData) content.push({ 
+            type: 'image_url', 
+            image_url: { 
+                url: `data:${p.inlineData.mimeType};base64,${p.inlineData.data}`,
+                detail: 'high'
+            }
+        });
+    });
+    return content;
+};
+
+// Converts Gemini-style history into chat-completions messages: model turns become `assistant`
+// messages carrying `tool_calls`, and each functionResponse becomes a `tool` message answering its
+// call by `tool_call_id`. With `textOnly`, user content is sent as a plain string and images are dropped.
+const toChatMessages = (history: Content[], textOnly: boolean) => {
+    const messages: any[] = [];
+    for (const turn of withToolCallIds(history)) {
+        // Thinking kept for Claude has no place in chat-completions messages.
+        const parts = (turn.parts || []).filter(p => !p.thought);
+
+        if (turn.role === 'function') {
+            parts.forEach(p => {
+                if (!p.functionResponse) return;
+                messages.push({
+                    role: 'tool',
+                    tool_call_id: p.functionResponse.id,
+                    content: JSON.stringify(p.functionResponse.response ?? {}),
+                });
+            });
+            // Tool messages can only hold text, so images returned by a tool follow as a user message.
+            const extra = parts.filter(p => !p.functionResponse);
+            if (!textOnly && extra.some(p => p.inlineData)) messages.push({ role: 'user', content: toUserContent(extra) });
+            continue;
+        }
+
+        const text = parts.filter(p => p.text).map(p => p.text).join('\n');
+
+        if (turn.role === 'model') {
+            const toolCalls = parts.filter(p => p.functionCall).map(p => ({
+                id: p.functionCall!.id,
+                type: 'function',
+                function: { name: p.functionCall!.name, arguments: JSON.stringify(p.functionCall!.args ?? {}) },
+            }));
+            messages.push({ role: 'assistant', content: text || null, ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}) });
+            continue;
+        }
+
+        const images = parts.filter(p => p.inlineData);
+        if (textOnly || images.length === 0) {
+            messages.push({ role: 'user', content: text });
+            continue;
+        }
+        messages.push({ role: 'user', content: toUserContent(parts) });
+    }
+    return messages;
+};
+
+const toUsage = (usage: any): UsageMetadata | undefined => usage && {
+    promptTokenCount: usage.prompt_tokens || 0,
+    candidatesTokenCount: usage.completion_tokens || 0,
+    totalTokenCount: usage.total_tokens || (usage.prompt_tokens || 0) + (usage.completion_tokens || 0),
+};
+
+const normaliseResponse = (data: any): SimplifiedGenerateContentResponse => {
+    const message = data.choices[0].message;
+    const functionCalls = message.tool_calls?.map((tc: any) => ({
+        id: tc.id,
+        name: tc.function.name,
+        args: JSON.parse(tc.function.arguments)
+    }));
+    return { text: message.content || '', functionCalls, usage: toUsage(data.usage) };
+};
+
+export const createOpenAiCompatibleAdapter = (config: OpenAiCompatibleConfig): ProviderAdapter => {
+    const capabilities: ProviderCapabilities = { vision: true, tools: true, streaming: true, ...config.capabilities };
+    const textOnly = !!config.textOnlyContent || !capabilities.vision;
+    const translateHistory = (history: Content[]) => toChatMessages(history, textOnly);
+    const translateTools = (tools: ProviderRequest['tools']) => tools.map(t => ({ type: 'function', function: t }));
+
+    const buildRequest = async (request: ProviderRequest, stream: boolean): Promise<RequestInit> => {
+        const bearer = config.proxyEndpoint ? await getAuthToken() : config.apiKey;
+
+        const { settings } = request;
+        const model = config.models.find(m => m.id === settings.model);
+        const body: Record<string, any> = {
+            model: settings.model,
+            messages: [{ role: 'system', content: request.systemInstruction }, ...translateHistory(request.history)],
+        };
+        if (capabilities.tools) {
+            body.tools = translateTools(request.tools);
+            body.tool_choice = 'auto';
+        }
+        if (settings.maxOutputTokens !== undefined) body.max_tokens = settings.maxOutputTokens;
+
+        if (model?.supportsThinking && settings.thinkingBudget) {
+            if (config.reasoningStyle === 'tokens') {
+                body.reasoning = { max_tokens: settings.thinkingBudget };
+            } else {
+                body.reasoning_effort = settings.thinkingBudget <= 4096 ? 'low' : settings.thinkingBudget <= 16384 ? 'medium' : 'high';
+            }
+        }
+        // OpenAI reasoning models reject a custom temperature.
+        if (settings.temperature !== undefined && !(model?.supportsThinking && config.reasoningStyle !== 'tokens')) {
+            body.temperature = settings.temperature;
+        }
+        if (stream) {
+            body.stream = true;
+            // Without this, streamed responses carry no token counts.
+            body.stream_options = { include_usage: true };
+        }
+
+        return {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(bearer ? { 'Authorization': `Bearer ${bearer}` } : {}),
+            },
+            body: JSON.stringify(body),
+            signal: request.signal,
+        };
+    };
+
+    const endpoint = config.proxyEndpoint ?? `${(config.baseUrl || '').replace(/\/$/, '')}/chat/completions`;
+
+    return {
+        id: config.id,
+        name: config.name,
+        capabilities,
+        models: config.models,
+        defaultSettings: config.defaultSettings,
+        keyConfig: config.keyConfig,
+        hasApiKey: () => !config.proxyEndpoint || keyVaultService.hasKey(config.id),
+        translateHistory,
+        translateTools,
+        normaliseResponse,
+
+        async generate(request) {
+            const response = await fetch(endpoint, await buildRequest(request, false));
+            if (!response.ok) {
+                throw await responseError(response, `${config.name} API request failed`);
+            }
+            return normaliseResponse(await response.json());
+        },
+
+        async *stream(request): AsyncGenerator<StreamEvent> {
+            const response = await fetch(endpoint, await buildRequest(request, true));
+            if (!response.ok) {
+                throw await responseError(response, `${config.name} API request failed`);
+            }
+
+            let text = '';
+            const calls: { id?: string; name: string; args: string }[] = [];
+            let usage: UsageMetadata | undefined;
+
+            for await (const { data } of readSseStream(response)) {
+                if (data === '[DONE]') break;
+                const payload = JSON.parse(data);
+                if (payload.error) {
+                    throw new ProviderError(payload.error.message || `${config.name} stream failed`, undefined, true);
+                }
+
+                // Usage arrives on a final chunk with no choices (Groq nests it under `x_groq`).
+                const payloadUsage = payload.usage || payload.x_groq?.usage;
+                if (payloadUsage) usage = toUsage(payloadUsage);
+
+                const delta = payload.choices?.[0]?.delta;
+                if (!delta) continue;
+
+                if (delta.content) {
+                    text += delta.content;
+                    yield { type: 'text', delta: delta.content };
+                }
+                for (const tc of delta.tool_calls || []) {
+                    const index = tc.index ?? calls.length;
+                    if (!calls[index]) calls[index] = { name: '', args: '' };
+                    if (tc.id) calls[index].id = tc.id;
+                    if (tc.function?.name) calls[index].name = tc.function.name;
+                    const argsDelta = tc.function?.arguments || '';
+                    calls[index].args += argsDelta;
+                    yield { type: 'tool_call', index, name: tc.function?.name, argsDelta };
+                }
+            }
+
+            yield { type: 'done', response: { text, functionCalls: finalizeStreamedCalls(calls), usage } };
+        },
+    };
+};
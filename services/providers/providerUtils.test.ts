@@ -0,0 +1,70 @@
+import { Content } from '@google/genai';
+import { describe, expect, it, vi } from 'vitest';
+import { withToolCallIds } from './providerUtils';
+
+vi.mock('../../lib/supabaseClient', () => ({ supabase: {} }));
+
+const call = (name: string, id?: string) => ({ functionCall: { ...(id ? { id } : {}), name, args: {} } });
+const result = (name: string, response: Record<string, unknown>, id?: string) => ({ functionResponse: { ...(id ? { id } : {}), name, response } });
+
+describe('withToolCallIds', () => {
+    it('gives calls without an id one and answers them in order', () => {
+        const history: Content[] = [
+            { role: 'user', parts: [{ text: 'Fix the build' }] },
+            { role: 'model', parts: [{ text: 'Reading both files.' }, call('read_file'), call('read_file')] },
+            { role: 'function', parts: [result('read_file', { content: 'a' }), result('read_file', { content: 'b' })] },
+        ];
+
+        expect(withToolCallIds(history)).toEqual([
+            history[0],
+            { role: 'model', parts: [{ text: 'Reading both files.' }, { functionCall: { id: 'call_0', name: 'read_file', args: {} } }, { functionCall: { id: 'call_1', name: 'read_file', args: {} } }] },
+            {
+                role: 'function',
+                parts: [
+                    { functionResponse: { id: 'call_0', name: 'read_file', response: { content: 'a' } } },
+                    { functionResponse: { id: 'call_1', name: 'read_file', response: { content: 'b' } } },
+                ],
+            },
+        ]);
+    });
+
+    it('pairs results by id, then by name, whatever their order', () => {
+        const history: Content[] = [
+            { role: 'model', parts: [call('read_file', 'toolu_1'), call('run_build', 'toolu_2'), call('list_files')] },
+            { role: 'function', parts: [result('list_files', { files: [] }), result('run_build', { success: true }, 'toolu_2'), result('read_file', { content: 'x' }, 'toolu_1')] },
+        ];
+
+        expect(withToolCallIds(history)[1].parts).toEqual([
+            { functionResponse: { id: 'toolu_1', name: 'read_file', response: { content: 'x' } } },
+            { functionResponse: { id: 'toolu_2', name: 'run_build', response: { success: true } } },
+            { functionResponse: { id: 'call_0', name: 'list_files', response: { files: [] } } },
+        ]);
+    });
+
+    it('answers unanswered calls with an error result', () => {
+        const history: Content[] = [
+            { role: 'model', parts: [call('plan_steps', 'call_plan')] },
+            { role: 'user', parts: [{ text: 'Never mind, do something else.' }] },
+        ];
+
+        expect(withToolCallIds(history)).toEqual([
+            history[0],
+            { role: 'function', parts: [{ functionResponse: { id: 'call_plan', name: 'plan_steps', response: { error: 'No result was recorded for this call.' } } }] },
+            history[1],
+        ]);
+    });
+
+    it('drops function turns with no calls to answer and keeps other parts after the results', () => {
+        const screenshot = { inlineData: { mimeType: 'image/png', data: 'iVBORw0KGgo=' } };
+        const history: Content[] = [
+            { role: 'function', parts: [result('read_file', { content: 'stray' })] },
+            { role: 'model', parts: [call('capture_preview', 'toolu_9')] },
+            { role: 'function', parts: [screenshot, result('capture_preview', { success: true }, 'toolu_9')] },
+        ];
+
+        expect(withToolCallIds(history)).toEqual([
+            history[1],
+            { role: 'function', parts: [{ functionResponse: { id: 'toolu_9', name: 'capture_preview', response: { success: true } } }, screenshot] },
+        ]);
+    });
+});
@@ -0,0 +1,122 @@
+import { Content, FunctionCall, FunctionResponse } from '@google/genai';
+import { supabase } from '../../lib/supabaseClient';
+import { ProviderAdapter, ProviderRequest, SimplifiedGenerateContentResponse, StreamEvent } from '../../types';
+
+export const getAuthToken = async (): Promise<string> => {
+    const { data, error } = await supabase.auth.getSession();
+    if (error || !data.session) {
+      throw new Error("User not authenticated.");
+    }
+    return data.session.access_token;
+};
+
+// A failed provider call. `retryable` marks failures worth trying again (rate limits, server
+// errors, dropped streams), as opposed to bad keys or invalid requests.
+export class ProviderError extends Error {
+    constructor(message: string, public readonly status?: number, public readonly retryable = false) {
+        super(message);
+        this.name = 'ProviderError';
+    }
+}
+
+const isRetryableStatus = (status: number) => status === 408 || status === 429 || status >= 500;
+
+// Network failures surface from fetch as a TypeError; those are retryable too.
+export const isRetryableError = (error: unknown): boolean =>
+    error instanceof ProviderError ? error.retryable : error instanceof TypeError;
+
+// fetch rejects with an AbortError DOMException once its signal is aborted.
+export const isAbortError = (error: unknown): boolean =>
+    error instanceof DOMException && error.name === 'AbortError';
+
+// Reads a provider error body, falling back to a generic message when it isn't JSON.
+export const readErrorMessage = async (response: Response, fallback: string): Promise<string> => {
+    try {
+        const errorData = await response.json();
+        return errorData.error?.message || errorData.error || fallback;
+    } catch {
+        return fallback;
+    }
+};
+
+export const responseError = async (response: Response, fallback: string): Promise<ProviderError> =>
+    new ProviderError(await readErrorMessage(response, fallback), response.status, isRetryableStatus(response.status));
+
+// Turns accumulated `{ name, args: <json string> }` pairs from a stream into parsed function calls.
+export const finalizeStreamedCalls = (calls: { id?: string; name: string; args: string }[]): SimplifiedGenerateContentResponse['functionCalls'] => {
+    const functionCalls = calls.filter(Boolean).map(c => ({
+        ...(c.id ? { id: c.id } : {}),
+        name: c.name,
+        args: c.args ? JSON.parse(c.args) : {},
+    }));
+    return functionCalls.length > 0 ? functionCalls : undefined;
+};
+
+// Presents a non-streaming adapter as a stream so callers can treat every provider the same way.
+export async function* streamFromGenerate(adapter: ProviderAdapter, request: ProviderRequest): AsyncGenerator<StreamEvent> {
+    const response = await adapter.generate(request);
+    if (response.text) {
+        yield { type: 'text', delta: response.text };
+    }
+    for (const [index, call] of (response.functionCalls || []).entries()) {
+        yield { type: 'tool_call', index, name: call.name, argsDelta: JSON.stringify(call.args ?? {}) };
+    }
+    yield { type: 'done', response };
+}
+
+// Chat-completions and Claude both link a tool result to its call by id, and reject a call that has
+// no result. Gemini-style history only pairs them by position (and calls made by Gemini carry no
+// id), so before translating, every functionCall gets an id, the following 'function' turn is
+// rewritten to answer exactly those calls in order, and any call left unanswered (e.g. a rejected
+// plan) gets an error result. Stray 'function' turns with nothing to answer are dropped. Other
+// parts of a 'function' turn, such as screenshots from capture_preview, follow the results.
+export const withToolCallIds = (history: Content[]): Content[] => {
+    const result: Content[] = [];
+    let generatedIds = 0;
+
+    for (let i = 0; i < history.length; i++) {
+        const turn = history[i];
+        if (turn.role === 'function') continue;
+
+        const calls = (turn.parts || []).filter(p => p.functionCall).map(p => p.functionCall as FunctionCall);
+        if (turn.role !== 'model' || calls.length === 0) {
+            result.push(turn);
+            continue;
+        }
+
+        const identifiedCalls = calls.map(call => ({ ...call, id: call.id || `call_${generatedIds++}` }));
+        let callIndex = 0;
+        result.push({
+            role: 'model',
+            parts: (turn.parts || []).map(p => (p.functionCall ? { functionCall: identifiedCalls[callIndex++] } : p)),
+        });
+
+        const next = history[i + 1];
+        const pending = next?.role === 'function'
+            ? (next.parts || []).filter(p => p.functionResponse).map(p => p.functionResponse as FunctionResponse)
+            : [];
+        const takeResponse = (call: FunctionCall): FunctionResponse | undefined => {
+            const index = [
+                pending.findIndex(r => r.id && r.id === call.id),
+                pending.findIndex(r => !r.id && r.name === call.name),
+                pending.findIndex(r => !r.id),
+            ].find(idx => idx !== -1);
+            return index === undefined ? undefined : pending.splice(index, 1)[0];
+        };
+
+        result.push({
+            role: 'function',
+            parts: [
+                ...identifiedCalls.map(call => ({
+                    functionResponse: {
+                        id: call.id,
+                        name: call.name,
+                        response: takeResponse(call)?.response ?? { error: 'No result was recorded for this call.' },
+                    },
+                })),
+                ...(next?.role === 'function' ? (next.parts || []).filter(p => !p.functionResponse) : []),
+            ],
+        });
+    }
+    return result;
+};
@@ -0,0 +1,136 @@
+import { AiProvider, ModelInfo, ModelSettings, ProjectModelSettings, ProviderAdapter } from '../../types';
+import { geminiAdapter } from './geminiAdapter';
+import { claudeAdapter } from './claudeAdapter';
+import { createOpenAiCompatibleAdapter } from './openAiCompatibleAdapter';
+
+const openRouterAdapter = createOpenAiCompatibleAdapter({
+    id: 'openrouter',
+    name: 'OpenRouter',
+    proxyEndpoint: '/api/generate-openrouter',
+    models: [
+        { id: 'openai/gpt-4o-mini', name: 'GPT-4o mini', contextWindow: 128000, maxOutputTokens: 16384, tier: 'fast', pricing: { input: 0.15, output: 0.6 } },
+        { id: 'google/gemini-2.5-flash', name: 'Gemini 2.5 Flash', contextWindow: 1048576, maxOutputTokens: 65536, supportsThinking: true, tier: 'fast', pricing: { input: 0.3, output: 2.5 } },
+        { id: 'anthropic/claude-3.5-sonnet', name: 'Claude 3.5 Sonnet', contextWindow: 200000, maxOutputTokens: 8192, tier: 'balanced', pricing: { input: 3, output: 15 } },
+        { id: 'deepseek/deepseek-chat', name: 'DeepSeek V3', contextWindow: 163840, maxOutputTokens: 16384, tier: 'balanced', pricing: { input: 0.3, output: 0.85 } },
+        { id: 'anthropic/claude-sonnet-4', name: 'Claude Sonnet 4', contextWindow: 200000, maxOutputTokens: 64000, supportsThinking: true, tier: 'strong', pricing: { input: 3, output: 15 } },
+    ],
+    defaultSettings: { model: 'anthropic/claude-3.5-sonnet', temperature: 0.1 },
+    reasoningStyle: 'tokens',
+    keyConfig: { label: 'OpenRouter', url: 'https://openrouter.ai/keys' },
+});
+
+const openAiAdapter = createOpenAiCompatibleAdapter({
+    id: 'openai',
+    name: 'OpenAI',
+    proxyEndpoint: '/api/generate-openai',
+    models: [
+        { id: 'gpt-4o-mini', name: 'GPT-4o mini', contextWindow: 128000, maxOutputTokens: 16384, tier: 'fast', pricing: { input: 0.15, output: 0.6 } },
+        { id: 'gpt-4.1-mini', name: 'GPT-4.1 mini', contextWindow: 1047576, maxOutputTokens: 32768, tier: 'fast', pricing: { input: 0.4, output: 1.6 } },
+        { id: 'gpt-4o', name: 'GPT-4o', contextWindow: 128000, maxOutputTokens: 16384, tier: 'balanced', pricing: { input: 2.5, output: 10 } },
+        { id: 'gpt-4.1', name: 'GPT-4.1', contextWindow: 1047576, maxOutputTokens: 32768, tier: 'strong', pricing: { input: 2, output: 8 } },
+        { id: 'o4-mini', name: 'o4-mini', contextWindow: 200000, maxOutputTokens: 100000, supportsThinking: true, tier: 'strong', pricing: { input: 1.1, output: 4.4 } },
+    ],
+    defaultSettings: { model: 'gpt-4o' },
+    reasoningStyle: 'effort',
+    keyConfig: { label: 'OpenAI', url: 'https://platform.openai.com/api-keys' },
+});
+
+const groqAdapter = createOpenAiCompatibleAdapter({
+    id: 'groq',
+    name: 'Groq',
+    proxyEndpoint: '/api/generate-groq',
+    models: [
+        { id: 'llama-3.1-8b-instant', name: 'Llama 3.1 8B Instant', contextWindow: 131072, maxOutputTokens: 8192, tier: 'fast', pricing: { input: 0.05, output: 0.08 } },
+        { id: 'llama3-70b-8192', name: 'Llama 3 70B', contextWindow: 8192, maxOutputTokens: 8192, tier: 'balanced', pricing: { input: 0.59, output: 0.79 } },
+        { id: 'llama-3.3-70b-versatile', name: 'Llama 3.3 70B Versatile', contextWindow: 131072, maxOutputTokens: 32768, tier: 'strong', pricing: { input: 0.59, output: 0.79 } },
+    ],
+    defaultSettings: { model: 'llama3-70b-8192', temperature: 0.1 },
+    textOnlyContent: true,
+    capabilities: { vision: false },
+    keyConfig: { label: 'Groq', url: 'https://console.groq.com/keys' },
+});
+
+// --- Locally configured OpenAI-compatible servers ---
+// VITE_LOCAL_PROVIDERS holds a JSON array, e.g.
+// [{ "id": "ollama", "name": "Ollama", "baseUrl": "http://localhost:11434/v1", "model": "qwen2.5-coder:14b" }]
+// Further models the server hosts can be listed in an optional `models` array of ids.
+interface LocalProviderConfig {
+    id: string;
+    name: string;
+    baseUrl: string;
+    model: string;
+    models?: string[];
+    contextWindow?: number;
+    apiKey?: string;
+    vision?: boolean;
+    tools?: boolean;
+    streaming?: boolean;
+}
+
+const loadLocalProviders = (): ProviderAdapter[] => {
+    const raw = process.env.VITE_LOCAL_PROVIDERS;
+    if (!raw) return [];
+
+    try {
+        const configs: LocalProviderConfig[] = JSON.parse(raw);
+        return configs
+            .filter(c => c.id && c.name && c.baseUrl && c.model)
+            .map(c => createOpenAiCompatibleAdapter({
+                id: c.id,
+                name: c.name,
+                baseUrl: c.baseUrl,
+                models: Array.from(new Set([c.model, ...(c.models || [])])).map((id): ModelInfo => ({
+                    id,
+                    name: id,
+                    contextWindow: c.contextWindow ?? 32768,
+                    maxOutputTokens: 8192,
+                })),
+                defaultSettings: { model: c.model },
+                capabilities: { vision: c.vision ?? false, tools: c.tools ?? true, streaming: c.streaming ?? true },
+                apiKey: c.apiKey,
+            }));
+    } catch (e) {
+        console.error("Invalid VITE_LOCAL_PROVIDERS configuration:", e);
+        return [];
+    }
+};
+
+// --- Registry ---
+const adapters = new Map<AiProvider, ProviderAdapter>();
+
+export const registerProvider = (adapter: ProviderAdapter) => {
+    adapters.set(adapter.id, adapter);
+};
+
+export const getProvider = (id: AiProvider): ProviderAdapter => {
+    const adapter = adapters.get(id);
+    if (!adapter) throw new Error(`Unsupported provider: ${id}`);
+    return adapter;
+};
+
+export const hasProvider = (id: AiProvider): boolean => adapters.has(id);
+
+// A project may reference a provider that is no longer configured (e.g. a local server dropped from
+// VITE_LOCAL_PROVIDERS); such a project falls back to the first registered provider.
+export const resolveProvider = (id: AiProvider): AiProvider => (adapters.has(id) ? id : listProviders()[0].id);
+
+// Fills in provider defaults for anything the project hasn't chosen, and drops a stored model
+// that the provider no longer offers.
+export const resolveModelSettings = (provider: AiProvider, projectSettings?: ProjectModelSettings | null): ModelSettings => {
+    const adapter = getProvider(provider);
+    const stored = projectSettings?.[provider];
+    const settings = { ...adapter.defaultSettings, ...stored };
+    if (!adapter.models.some(m => m.id === settings.model)) {
+        settings.model = adapter.defaultSettings.model;
+    }
+    return settings;
+};
+
+export const getModelInfo = (provider: AiProvider, modelId: string): ModelInfo | undefined =>
+    getProvider(provider).models.find(m => m.id === modelId);
+
+// Registration order is the order the UI lists providers in.
+export const listProviders = (): ProviderAdapter[] => Array.from(adapters.values());
+
+[geminiAdapter, openRouterAdapter, openAiAdapter, claudeAdapter, groqAdapter, ...loadLocalProviders()]
+    .forEach(registerProvider);
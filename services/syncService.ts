@@ -0,0 +1,249 @@
+import { supabase } from '../lib/supabaseClient';
+import { FileSystem, Project, ProjectSummary } from '../types';
+import { cacheService, PendingSave } from './cacheService';
+import { projectService, ProjectConflictError } from './projectService';
+import { agentSettingsService } from './agentSettingsService';
+
+// Offline-first project saving. Saves are written to IndexedDB first and replayed to Supabase by
+// flush(), which useProjectSync runs after each save and whenever the browser comes back online.
+// A save only goes through if the project's updated_at still matches the one the edits started
+// from; otherwise it is kept as a conflict until the user picks a side.
+
+export type SyncStatus = 'synced' | 'pending' | 'syncing' | 'offline' | 'conflict' | 'error';
+
+export interface SyncResult {
+  projectId: string;
+  status: 'synced' | 'conflict' | 'error';
+  // The project as saved, when status is 'synced'.
+  project?: Project;
+  error?: unknown;
+}
+
+// Both sides of a conflict, plus the version they both started from when it is known.
+export interface SyncConflict {
+  base?: FileSystem;
+  local: FileSystem;
+  remote: Project;
+  // Identifies the local save that was loaded, so a merge can't drop edits saved after it.
+  localQueuedAt: number;
+}
+
+export interface CheckpointInfo {
+  summary?: string;
+  sourceVersionId?: string;
+}
+
+// Fallback for when IndexedDB can't be opened (e.g. some private windows): saves still queue and
+// sync, they just don't survive a reload.
+const memoryPendingSaves = new Map<string, PendingSave>();
+let isIndexedDbUnavailable = false;
+
+const withPendingStore = async <T,>(indexedDb: () => Promise<T>, memory: () => T): Promise<T> => {
+  if (isIndexedDbUnavailable) return memory();
+  try {
+    return await indexedDb();
+  } catch (error) {
+    console.error("IndexedDB unavailable, keeping unsynced saves in memory:", error);
+    isIndexedDbUnavailable = true;
+    return memory();
+  }
+};
+
+const pendingStore = {
+  get: (projectId: string) => withPendingStore(
+    () => cacheService.getPendingSave(projectId),
+    () => memoryPendingSaves.get(projectId) || null,
+  ),
+  getAll: () => withPendingStore(
+    () => cacheService.getPendingSaves(),
+    () => [...memoryPendingSaves.values()],
+  ),
+  set: (save: PendingSave) => withPendingStore(
+    () => cacheService.setPendingSave(save),
+    () => { memoryPendingSaves.set(save.id, save); },
+  ),
+  delete: (projectId: string) => withPendingStore(
+    () => cacheService.deletePendingSave(projectId),
+    () => { memoryPendingSaves.delete(projectId); },
+  ),
+};
+
+// Every read-modify-write of a pending save goes through this chain, so a save queued while an
+// older one is uploading is neither lost nor overwritten.
+let pendingChain: Promise<unknown> = Promise.resolve();
+const withPendingSaves = <T,>(update: () => Promise<T>): Promise<T> => {
+  const result = pendingChain.then(update);
+  pendingChain = result.catch(() => {});
+  return result;
+};
+
+// Uploads run one at a time.
+let flushChain: Promise<unknown> = Promise.resolve();
+
+const createCheckpoint = async (project: Project, save: PendingSave) => {
+  // The files are already saved, so a failed checkpoint is logged rather than retried; retrying
+  // would replay the save against the updated_at it has just changed.
+  try {
+    await projectService.createProjectVersion(project.id, save.fileSystem, save.summary, save.sourceVersionId);
+    const { versionsKeepLatest, versionsKeepDailyDays } = agentSettingsService.getSettings();
+    if (versionsKeepLatest) {
+      await projectService.pruneProjectVersions(project.id, versionsKeepLatest, versionsKeepDailyDays);
+    }
+  } catch (error) {
+    console.error("Creating or pruning the project version checkpoint failed:", error);
+  }
+};
+
+const uploadSave = async (save: PendingSave): Promise<SyncResult> => {
+  if (save.conflictUpdatedAt) return { projectId: save.id, status: 'conflict' };
+  try {
+    const project = await projectService.updateProject(save.id, save.fileSystem, save.baseUpdatedAt);
+
+    await withPendingSaves(async () => {
+      const current = await pendingStore.get(save.id);
+      if (!current) return;
+      if (current.queuedAt === save.queuedAt) {
+        await pendingStore.delete(save.id);
+      } else {
+        // Saved again during the upload: the newer files build on what was just uploaded.
+        await pendingStore.set({ ...current, baseUpdatedAt: project.updated_at, baseFileSystem: save.fileSystem });
+      }
+    });
+    await cacheService.setProjectMirror(project);
+    await createCheckpoint(project, save);
+    return { projectId: save.id, status: 'synced', project };
+  } catch (error) {
+    if (error instanceof ProjectConflictError) {
+      await withPendingSaves(async () => {
+        const current = await pendingStore.get(save.id);
+        if (current) await pendingStore.set({ ...current, conflictUpdatedAt: error.remoteUpdatedAt });
+      });
+      return { projectId: save.id, status: 'conflict' };
+    }
+    console.error(`Syncing project ${save.id} failed:`, error);
+    return { projectId: save.id, status: 'error', error };
+  }
+};
+
+export const syncService = {
+  // Records the files locally; they reach Supabase on the next flush. `baseUpdatedAt` is the
+  // project's updated_at the files were edited from, kept from the oldest unsynced save.
+  queueSave(projectId: string, fileSystem: FileSystem, baseUpdatedAt: string | null, checkpoint?: CheckpointInfo): Promise<void> {
+    return withPendingSaves(async () => {
+      const existing = await pendingStore.get(projectId);
+      // The mirror is the last version synced, which is the base unless another tab has synced since.
+      const mirror = existing ? null : await cacheService.getProjectMirror(projectId);
+      await pendingStore.set({
+        id: projectId,
+        fileSystem,
+        baseUpdatedAt: existing ? existing.baseUpdatedAt : baseUpdatedAt,
+        baseFileSystem: existing
+          ? existing.baseFileSystem
+          : mirror && mirror.project.updated_at === baseUpdatedAt ? mirror.project.file_system : undefined,
+        summary: checkpoint?.summary ?? existing?.summary,
+        sourceVersionId: checkpoint?.sourceVersionId ?? existing?.sourceVersionId,
+        queuedAt: Math.max(Date.now(), (existing?.queuedAt ?? 0) + 1),
+        conflictUpdatedAt: existing?.conflictUpdatedAt,
+      });
+    });
+  },
+
+  getPendingSave(projectId: string): Promise<PendingSave | null> {
+    return pendingStore.get(projectId);
+  },
+
+  // Uploads the pending saves of one project, or of every project.
+  flush(projectId?: string): Promise<SyncResult[]> {
+    const run = flushChain.then(async () => {
+      const saves = projectId
+        ? [await pendingStore.get(projectId)].filter((save): save is PendingSave => !!save)
+        : await pendingStore.getAll();
+      const results: SyncResult[] = [];
+      for (const save of saves) results.push(await uploadSave(save));
+      return results;
+    });
+    flushChain = run.catch(() => {});
+    return run;
+  },
+
+  // Resolves a conflict in favour of the local files: they are saved over the newer version.
+  async keepLocal(projectId: string): Promise<void> {
+    await withPendingSaves(async () => {
+      const current = await pendingStore.get(projectId);
+      if (!current?.conflictUpdatedAt) return;
+      await pendingStore.set({ ...current, baseUpdatedAt: current.conflictUpdatedAt, baseFileSystem: undefined, conflictUpdatedAt: undefined });
+    });
+  },
+
+  // Loads both sides of a conflict for merging; null when there is no conflict.
+  async getConflict(projectId: string): Promise<SyncConflict | null> {
+    const pending = await pendingStore.get(projectId);
+    if (!pending?.conflictUpdatedAt) return null;
+    const remote = await projectService.getProject(projectId);
+    await cacheService.setProjectMirror(remote);
+    return { base: pending.baseFileSystem, local: pending.fileSystem, remote, localQueuedAt: pending.queuedAt };
+  },
+
+  // Resolves a conflict with files merged from `conflict`, which are saved over its remote
+  // version. If the project has been saved elsewhere again since, this ends in another conflict.
+  async resolveWithMerge(projectId: string, merged: FileSystem, conflict: SyncConflict): Promise<void> {
+    const { remote } = conflict;
+    await withPendingSaves(async () => {
+      const current = await pendingStore.get(projectId);
+      if (!current) return;
+      if (current.queuedAt !== conflict.localQueuedAt) {
+        throw new Error('The files changed on this device while merging. Open the merge again to include those changes.');
+      }
+      await pendingStore.set({
+        ...current,
+        fileSystem: merged,
+        baseUpdatedAt: remote.updated_at,
+        baseFileSystem: remote.file_system,
+        queuedAt: Math.max(Date.now(), current.queuedAt + 1),
+        conflictUpdatedAt: undefined,
+      });
+    });
+  },
+
+  // Resolves a conflict in favour of Supabase: the local files are dropped and the saved project
+  // is returned.
+  async keepRemote(projectId: string): Promise<Project> {
+    const project = await projectService.getProject(projectId);
+    await withPendingSaves(() => pendingStore.delete(projectId));
+    await cacheService.setProjectMirror(project);
+    return project;
+  },
+
+  // Loads a project to open, falling back to the local mirror while offline. Unsynced local
+  // files win over the loaded ones; they are checked against Supabase when they are replayed.
+  async openProject(projectId: string): Promise<Project> {
+    let project: Project;
+    try {
+      project = await projectService.getProject(projectId);
+      await cacheService.setProjectMirror(project);
+    } catch (error) {
+      const mirror = await cacheService.getProjectMirror(projectId);
+      if (!mirror) throw error;
+      console.warn("Opening the local copy of the project:", error);
+      project = mirror.project;
+    }
+    const pending = await pendingStore.get(projectId);
+    return pending ? { ...project, file_system: pending.fileSystem } : project;
+  },
+
+  // The dashboard list, or the projects mirrored on this device while offline.
+  async getProjects(): Promise<ProjectSummary[]> {
+    try {
+      return await projectService.getProjectsForUser();
+    } catch (error) {
+      // The stored session works offline; mirrors of other accounts on this device are left out.
+      const { data: { session } } = await supabase.auth.getSession();
+      const mirrors = (await cacheService.getProjectMirrors()).filter(m => m.project.user_id === session?.user.id);
+      if (mirrors.length === 0) throw error;
+      console.warn("Listing the projects saved on this device:", error);
+      return mirrors
+        .map(({ project: { file_system, ...summary } }) => summary)
+        .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+    }
+  },
+};
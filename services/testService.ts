@@ -0,0 +1,60 @@
+import { FileSystem, TestRunResult } from '../types';
+import { parseVitestJson, TestFilter, toTestNamePattern } from '../utils/testResultsUtils';
+import { runProcess } from './commandService';
+import { VerificationOptions, VerificationTimings, verificationService } from './verificationService';
+
+// Runs the project's Vitest tests in the verification sandbox, for the agent's `run_tests` tool and
+// the Tests panel.
+
+export const TEST_TIMEOUT_MS = 300000;
+
+// Inside node_modules, so the report is never picked up as a project file.
+const REPORT_FILE = 'node_modules/.mominai/test-results.json';
+
+export interface TestRun {
+  // null when Vitest didn't write a report, e.g. because it crashed or timed out.
+  results: TestRunResult | null;
+  exitCode: number | null;
+  timedOut: boolean;
+  output: string;
+}
+
+// Returns why the draft can't run tests, or null if it can.
+export const getTestSetupError = (fileSystem: FileSystem): string | null => {
+  let packageJson;
+  try {
+    packageJson = fileSystem['package.json'] ? JSON.parse(fileSystem['package.json']) : null;
+  } catch {
+    return 'package.json is not valid JSON.';
+  }
+  if (!packageJson) return 'No package.json found. Cannot run tests.';
+  if (!packageJson.devDependencies?.vitest && !packageJson.dependencies?.vitest) {
+    return "Vitest is not in package.json. Add 'vitest' to devDependencies and a \"test\": \"vitest run\" script.";
+  }
+  return null;
+};
+
+export const testService = {
+  // Runs `vitest run`, narrowed to one file and/or test name by `filter`.
+  run(fileSystem: FileSystem, filter: TestFilter, options: VerificationOptions): Promise<{ result: TestRun; timings: VerificationTimings }> {
+    return verificationService.run(fileSystem, options, async (wc, cwd) => {
+      await wc.fs.rm(`${cwd}/${REPORT_FILE}`, { force: true });
+      const argv = [
+        'npx', 'vitest', 'run',
+        ...(filter.file ? [filter.file] : []),
+        ...(filter.testName ? ['-t', toTestNamePattern(filter.testName)] : []),
+        '--reporter=default', '--reporter=json', `--outputFile.json=${REPORT_FILE}`,
+        '--passWithNoTests',
+      ];
+      const proc = await runProcess(wc, argv, { cwd, timeoutMs: TEST_TIMEOUT_MS, signal: options.signal });
+
+      let report: string | null = null;
+      try {
+        report = await wc.fs.readFile(`${cwd}/${REPORT_FILE}`, 'utf-8');
+      } catch {
+        // Vitest exited before writing one.
+      }
+      return { results: report ? parseVitestJson(report, cwd) : null, exitCode: proc.exitCode, timedOut: proc.timedOut, output: proc.output };
+    });
+  },
+};
@@ -0,0 +1,159 @@
+import { supabase } from '../lib/supabaseClient';
+import { AiProvider, UsageEvent, UsageMetadata } from '../types';
+import { getModelInfo, hasProvider } from './providers/registry';
+
+export const estimateCost = (provider: AiProvider, model: string, usage: UsageMetadata): number => {
+  const pricing = hasProvider(provider) ? getModelInfo(provider, model)?.pricing : undefined;
+  if (!pricing) return 0;
+  return (usage.promptTokenCount * pricing.input + usage.candidatesTokenCount * pricing.output) / 1_000_000;
+};
+
+export const formatCost = (usd: number): string => `$${usd < 0.01 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+export const addUsage = (a: UsageMetadata | undefined, b: UsageMetadata): UsageMetadata => ({
+  promptTokenCount: (a?.promptTokenCount || 0) + b.promptTokenCount,
+  candidatesTokenCount: (a?.candidatesTokenCount || 0) + b.candidatesTokenCount,
+  totalTokenCount: (a?.totalTokenCount || 0) + b.totalTokenCount,
+  costUsd: (a?.costUsd || 0) + (b.costUsd || 0),
+});
+
+// In UTC, the month the server enforces the budget for (see api/_lib/budget.ts).
+const startOfMonth = () => {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString();
+};
+
+// The budget and this month's spend are kept current by setMonthlyBudget and recordUsage, so the
+// budget check before each agent turn rarely costs a round trip. They are re-read after a few
+// minutes to pick up spending from other devices.
+const CACHE_TTL_MS = 5 * 60 * 1000;
+let monthlySpendCache: { since: string; amount: number; fetchedAt: number } | null = null;
+let budgetCache: { limit: number | null; fetchedAt: number } | null = null;
+
+const isFresh = (cache: { fetchedAt: number } | null) => !!cache && Date.now() - cache.fetchedAt < CACHE_TTL_MS;
+
+// From the locally stored session, so it needs no request; row level security checks it anyway.
+const getUserId = async (): Promise<string> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error("User not authenticated");
+  return session.user.id;
+};
+
+export const usageService = {
+  async recordUsage(
+    projectId: string | null,
+    provider: AiProvider,
+    model: string,
+    usage: UsageMetadata
+  ): Promise<void> {
+    const userId = await getUserId();
+
+    const cost_usd = usage.costUsd ?? estimateCost(provider, model, usage);
+    const { error } = await supabase
+      .from('usage_events')
+      .insert({
+        user_id: userId,
+        project_id: projectId,
+        provider,
+        model,
+        prompt_tokens: usage.promptTokenCount,
+        output_tokens: usage.candidatesTokenCount,
+        cost_usd,
+      });
+
+    if (error) {
+        console.error("Supabase error recording usage:", error);
+        throw error;
+    }
+    if (monthlySpendCache && monthlySpendCache.since === startOfMonth()) {
+      monthlySpendCache.amount += cost_usd;
+    }
+  },
+
+  async getProjectUsage(projectId: string): Promise<UsageEvent[]> {
+    const { data, error } = await supabase
+      .from('usage_events')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error("Supabase error getting project usage:", error);
+      throw error;
+    }
+    return data || [];
+  },
+
+  async getMonthlySpend(): Promise<number> {
+    const since = startOfMonth();
+    if (monthlySpendCache?.since === since && isFresh(monthlySpendCache)) return monthlySpendCache.amount;
+
+    const userId = await getUserId();
+
+    const { data, error } = await supabase
+      .from('usage_events')
+      .select('cost_usd')
+      .eq('user_id', userId)
+      .gte('created_at', since);
+
+    if (error) {
+      console.error("Supabase error getting monthly spend:", error);
+      throw error;
+    }
+    const amount = (data || []).reduce((sum, row) => sum + Number(row.cost_usd), 0);
+    monthlySpendCache = { since, amount, fetchedAt: Date.now() };
+    return amount;
+  },
+
+  async getMonthlyBudget(): Promise<number | null> {
+    if (budgetCache && isFresh(budgetCache)) return budgetCache.limit;
+
+    const userId = await getUserId();
+
+    const { data, error } = await supabase
+      .from('usage_budgets')
+      .select('monthly_limit_usd')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Supabase error getting usage budget:", error);
+      throw error;
+    }
+    const limit = data?.monthly_limit_usd != null ? Number(data.monthly_limit_usd) : null;
+    budgetCache = { limit, fetchedAt: Date.now() };
+    return limit;
+  },
+
+  async setMonthlyBudget(limit: number | null): Promise<void> {
+    const userId = await getUserId();
+
+    const { error } = await supabase
+      .from('usage_budgets')
+      .upsert({ user_id: userId, monthly_limit_usd: limit });
+
+    if (error) {
+      console.error("Supabase error saving usage budget:", error);
+      throw error;
+    }
+    budgetCache = { limit, fetchedAt: Date.now() };
+  },
+
+  // Throws if the user has set a monthly budget and this month's spend has reached it. A failed
+  // lookup doesn't hold up the turn; the server functions enforce the budget on shared keys anyway.
+  async assertWithinBudget(): Promise<void> {
+    let limit: number | null;
+    let spent: number;
+    try {
+      limit = await this.getMonthlyBudget();
+      if (limit === null) return;
+      spent = await this.getMonthlySpend();
+    } catch (error) {
+      console.warn("Couldn't check the monthly budget; continuing without it:", error);
+      return;
+    }
+    if (spent >= limit) {
+      throw new Error(`Monthly AI budget of $${limit.toFixed(2)} reached ($${spent.toFixed(2)} spent). Raise the limit in Settings to continue.`);
+    }
+  },
+};
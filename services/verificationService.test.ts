@@ -0,0 +1,30 @@
+import { WebContainer } from '@webcontainer/api';
+import { describe, expect, it, vi } from 'vitest';
+import { verificationService } from './verificationService';
+
+vi.mock('@webcontainer/api', () => ({ WebContainer: { boot: vi.fn() } }));
+
+const fakeContainer = () => ({
+  fs: { rm: async () => {}, mkdir: async () => {}, readdir: async () => [], writeFile: async () => {} },
+  teardown: vi.fn(),
+}) as unknown as WebContainer;
+
+describe('verificationService', () => {
+  it('waits for the preview to boot instead of booting a second container', async () => {
+    const live = fakeContainer();
+    let finishBoot = (_wc: WebContainer) => {};
+    vi.mocked(WebContainer.boot).mockReturnValueOnce(new Promise(resolve => { finishBoot = resolve; }));
+
+    const booted = verificationService.bootHost();
+    const check = verificationService.run({ 'index.html': '' }, { host: null }, async wc => wc);
+    finishBoot(live);
+
+    expect(await booted).toBe(live);
+    const { result, timings } = await check;
+    expect(result).toBe(live);
+    expect(timings.reusedContainer).toBe(false);
+    expect(WebContainer.boot).toHaveBeenCalledTimes(1);
+
+    await verificationService.release();
+  });
+});
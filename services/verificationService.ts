@@ -0,0 +1,206 @@
+import { WebContainer } from '@webcontainer/api';
+import { FileSystem } from '../types';
+import { diffFileSystems, readDirectory, writeDirectory } from '../utils/fileUtils';
+import { cacheService, NPM_CACHE_PATH } from './cacheService';
+import { runProcess, truncateOutput, VERIFY_DIR } from './commandService';
+
+// A warm sandbox for checking the agent's draft (`run_build_and_lint` and `run_command` in the
+// verification environment). It is kept between calls, so each check only writes the files that
+// changed and `npm install` only reruns when package.json does.
+//
+// Only one WebContainer can be booted per page, so the sandbox lives in VERIFY_DIR of the live
+// preview container when there is one, and otherwise boots a container of its own. The preview
+// boots through bootHost, which releases that container first, and a check that starts while the
+// preview boots waits for it and uses it.
+
+export interface VerificationTimings {
+  bootMs: number;
+  syncMs: number;
+  installMs: number;
+  runMs: number;
+  filesWritten: number;
+  reusedContainer: boolean;
+  installSkipped: boolean;
+}
+
+interface Sandbox {
+  wc: WebContainer;
+  // Booted by the sandbox rather than borrowed from the live preview.
+  owned: boolean;
+  // What VERIFY_DIR holds, or null when a sync was interrupted and the directory has to be rebuilt.
+  files: FileSystem | null;
+  installedPackageJson: string | null;
+}
+
+export interface VerificationOptions {
+  // The live preview container, if it is running.
+  host: WebContainer | null;
+  projectId?: string;
+  signal?: AbortSignal;
+  // Output of `npm install`, when it has to run.
+  onOutput?: (data: string) => void;
+}
+
+const INSTALL_TIMEOUT_MS = 300000;
+
+let sandbox: Sandbox | null = null;
+// The live preview's boot, from bootHost until release.
+let hostBoot: Promise<WebContainer> | null = null;
+// Sandbox operations run one at a time.
+let queue: Promise<unknown> = Promise.resolve();
+
+const serialize = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = queue.then(task, task);
+  queue = run.catch(() => {});
+  return run;
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('The agent was stopped.', 'AbortError');
+};
+
+// `hostBooting` is the preview's boot if it was under way when the check was queued, and so
+// finishes before the check starts.
+const acquireSandbox = async (
+  options: VerificationOptions,
+  hostBooting: Promise<WebContainer> | null
+): Promise<{ sandbox: Sandbox; bootMs: number; reused: boolean }> => {
+  const { projectId } = options;
+  const host = options.host ?? (hostBooting ? await hostBooting.catch(() => null) : null);
+  if (sandbox && (host ? sandbox.wc === host : sandbox.owned)) {
+    return { sandbox, bootMs: 0, reused: true };
+  }
+  if (sandbox?.owned) sandbox.wc.teardown();
+  sandbox = null;
+
+  const start = Date.now();
+  let wc = host;
+  if (!wc) {
+    wc = await WebContainer.boot();
+    // The live preview restores the npm cache when it boots; a container of our own has to do it.
+    const cached = projectId ? await cacheService.getProjectCache(projectId) : null;
+    if (cached?.npmCache && Object.keys(cached.npmCache).length > 0) {
+      await writeDirectory(wc, cached.npmCache, NPM_CACHE_PATH);
+    }
+  }
+  // A directory left behind by an earlier sandbox in this container may hold stale files.
+  await wc.fs.rm(VERIFY_DIR, { recursive: true, force: true });
+  await wc.fs.mkdir(VERIFY_DIR, { recursive: true });
+  sandbox = { wc, owned: !host, files: {}, installedPackageJson: null };
+  return { sandbox, bootMs: Date.now() - start, reused: false };
+};
+
+// Brings VERIFY_DIR in line with `fileSystem`. Returns how many files were written.
+const syncFiles = async (box: Sandbox, fileSystem: FileSystem): Promise<number> => {
+  let previous = box.files;
+  box.files = null;
+  if (!previous) {
+    // Start over, keeping node_modules so a full resync doesn't also mean a full install.
+    const entries = await box.wc.fs.readdir(VERIFY_DIR);
+    for (const name of entries) {
+      if (name !== 'node_modules') await box.wc.fs.rm(`${VERIFY_DIR}/${name}`, { recursive: true, force: true });
+    }
+    previous = {};
+  }
+
+  const { added, modified, deleted } = diffFileSystems(previous, fileSystem);
+  for (const path of deleted) {
+    await box.wc.fs.rm(`${VERIFY_DIR}/${path}`, { recursive: true, force: true });
+  }
+  const changed = { ...added, ...modified };
+  await writeDirectory(box.wc, changed, VERIFY_DIR);
+  box.files = fileSystem;
+  return Object.keys(changed).length;
+};
+
+const installDependencies = async (box: Sandbox, packageJson: string, options: VerificationOptions) => {
+  box.installedPackageJson = null;
+  options.onOutput?.('$ npm install\n');
+  const install = await runProcess(box.wc, ['npm', 'install', '--prefer-offline', '--no-audit', '--no-fund'], {
+    cwd: VERIFY_DIR,
+    timeoutMs: INSTALL_TIMEOUT_MS,
+    signal: options.signal,
+    onOutput: options.onOutput,
+  });
+  throwIfAborted(options.signal);
+  if (install.timedOut) {
+    throw new Error(`'npm install' timed out in the verification environment.\n${truncateOutput(install.output)}`);
+  }
+  if (install.exitCode !== 0) {
+    throw new Error(`'npm install' failed in the verification environment.\n${truncateOutput(install.output)}`);
+  }
+  box.installedPackageJson = packageJson;
+
+  // Save the npm cache for next time, as the live preview does.
+  if (box.owned && options.projectId) {
+    const npmCache = await readDirectory(box.wc, NPM_CACHE_PATH);
+    if (Object.keys(npmCache).length > 0) {
+      await cacheService.setProjectCache(options.projectId, npmCache, packageJson);
+    }
+  }
+};
+
+export const verificationService = {
+  // Syncs the draft into the sandbox, installs dependencies if package.json changed since the last
+  // install, then runs `task` with the container and the sandbox directory to use as cwd.
+  run<T>(
+    fileSystem: FileSystem,
+    options: VerificationOptions,
+    task: (wc: WebContainer, cwd: string) => Promise<T>
+  ): Promise<{ result: T; timings: VerificationTimings }> {
+    const hostBooting = hostBoot;
+    return serialize(async () => {
+      const { sandbox: box, bootMs, reused } = await acquireSandbox(options, hostBooting);
+      throwIfAborted(options.signal);
+
+      let start = Date.now();
+      const filesWritten = await syncFiles(box, fileSystem);
+      const syncMs = Date.now() - start;
+      throwIfAborted(options.signal);
+
+      start = Date.now();
+      const packageJson = fileSystem['package.json'];
+      const installSkipped = !packageJson || packageJson === box.installedPackageJson;
+      if (!installSkipped) await installDependencies(box, packageJson, options);
+      const installMs = Date.now() - start;
+
+      start = Date.now();
+      const result = await task(box.wc, VERIFY_DIR);
+      const runMs = Date.now() - start;
+
+      return { result, timings: { bootMs, syncMs, installMs, runMs, filesWritten, reusedContainer: reused, installSkipped } };
+    });
+  },
+
+  // Boots the live preview's container once the sandbox has released its own, after any check
+  // already running.
+  bootHost(): Promise<WebContainer> {
+    const boot = serialize(async () => {
+      if (sandbox?.owned) sandbox.wc.teardown();
+      sandbox = null;
+      return WebContainer.boot();
+    });
+    hostBoot = boot;
+    return boot;
+  },
+
+  // Drops the sandbox: tears down its own container, or forgets the live container it was using
+  // when that one is torn down.
+  release(): Promise<void> {
+    hostBoot = null;
+    return serialize(async () => {
+      if (sandbox?.owned) sandbox.wc.teardown();
+      sandbox = null;
+    });
+  },
+};
+
+export const formatTimings = (timings: VerificationTimings): string => {
+  const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+  return [
+    timings.reusedContainer ? 'warm sandbox' : `sandbox ready in ${seconds(timings.bootMs)}`,
+    `synced ${timings.filesWritten} file${timings.filesWritten === 1 ? '' : 's'} in ${seconds(timings.syncMs)}`,
+    timings.installSkipped ? 'install skipped' : `install ${seconds(timings.installMs)}`,
+    `run ${seconds(timings.runMs)}`,
+  ].join(', ');
+};
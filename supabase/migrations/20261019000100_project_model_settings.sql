@@ -0,0 +1,4 @@
+-- Per-project model choice and generation parameters, keyed by provider id:
+-- { "gemini": { "model": "gemini-2.5-pro", "temperature": 0.2 }, "claude": { ... } }
+alter table public.projects
+    add column if not exists model_settings jsonb;
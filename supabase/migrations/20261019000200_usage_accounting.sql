@@ -0,0 +1,40 @@
+-- One row per billed provider call, written by the client after each agent turn. The server sums
+-- cost_usd to enforce the budget on its shared keys, so the checks keep a client from recording
+-- negative usage to raise its own budget.
+create table if not exists public.usage_events (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references auth.users (id) on delete cascade,
+    project_id uuid references public.projects (id) on delete set null,
+    provider text not null,
+    model text not null,
+    prompt_tokens integer not null default 0 check (prompt_tokens >= 0),
+    output_tokens integer not null default 0 check (output_tokens >= 0),
+    cost_usd numeric(12, 6) not null default 0 check (cost_usd >= 0),
+    created_at timestamptz not null default now()
+);
+
+create index if not exists usage_events_user_created_idx on public.usage_events (user_id, created_at);
+create index if not exists usage_events_project_idx on public.usage_events (project_id);
+
+alter table public.usage_events enable row level security;
+
+create policy "Users can read their own usage"
+    on public.usage_events for select
+    using (auth.uid() = user_id);
+
+create policy "Users can record their own usage"
+    on public.usage_events for insert
+    with check (auth.uid() = user_id);
+
+-- Optional per-user monthly spending limit; no row (or a null limit) means unlimited.
+create table if not exists public.usage_budgets (
+    user_id uuid primary key references auth.users (id) on delete cascade,
+    monthly_limit_usd numeric(10, 2)
+);
+
+alter table public.usage_budgets enable row level security;
+
+create policy "Users can manage their own budget"
+    on public.usage_budgets for all
+    using (auth.uid() = user_id)
+    with check (auth.uid() = user_id);
@@ -0,0 +1,15 @@
+-- Users' provider API keys, AES-256-GCM encrypted by the server functions with KEY_VAULT_SECRET.
+-- Row level security is enabled with no policies, so only the service role (i.e. the functions
+-- under api/) can read or write this table; the browser never sees a stored key.
+create table if not exists public.provider_keys (
+    user_id uuid not null references auth.users (id) on delete cascade,
+    provider text not null,
+    ciphertext text not null,
+    iv text not null,
+    auth_tag text not null,
+    key_hint text not null,
+    updated_at timestamptz not null default now(),
+    primary key (user_id, provider)
+);
+
+alter table public.provider_keys enable row level security;
@@ -0,0 +1,22 @@
+-- Chat messages and agent conversation turns for each project, so a conversation can be resumed
+-- on another session or device. See ProjectMessage in types.ts for the two kinds of row.
+create table if not exists public.project_messages (
+    id uuid primary key default gen_random_uuid(),
+    project_id uuid not null references public.projects (id) on delete cascade,
+    user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+    kind text not null check (kind in ('chat', 'history')),
+    client_id text not null,
+    seq integer not null,
+    payload jsonb not null,
+    created_at timestamptz not null default now(),
+    unique (project_id, kind, client_id)
+);
+
+create index if not exists project_messages_project_seq_idx on public.project_messages (project_id, kind, seq);
+
+alter table public.project_messages enable row level security;
+
+create policy "Users can manage messages of their own projects"
+    on public.project_messages for all
+    using (exists (select 1 from public.projects p where p.id = project_id and p.user_id = auth.uid()))
+    with check (exists (select 1 from public.projects p where p.id = project_id and p.user_id = auth.uid()));
@@ -0,0 +1,57 @@
+-- Version browser support: pinned checkpoints, where a restored or forked checkpoint came from,
+-- and a retention rule so project_versions doesn't grow with every autosave.
+alter table public.project_versions
+    add column if not exists pinned boolean not null default false,
+    add column if not exists source_version_id uuid references public.project_versions (id) on delete set null;
+
+create index if not exists project_versions_project_created_idx on public.project_versions (project_id, created_at desc);
+
+create policy "Users can update versions of their own projects"
+    on public.project_versions for update
+    using (exists (select 1 from public.projects p where p.id = project_id and p.user_id = auth.uid()))
+    with check (exists (select 1 from public.projects p where p.id = project_id and p.user_id = auth.uid()));
+
+create policy "Users can delete versions of their own projects"
+    on public.project_versions for delete
+    using (exists (select 1 from public.projects p where p.id = project_id and p.user_id = auth.uid()));
+
+-- Deletes a project's checkpoints except pinned ones, the newest p_keep_latest, and the newest
+-- checkpoint of each day within the last p_keep_daily_days. A p_keep_latest of 0 keeps everything.
+-- Runs as the caller, so row level security limits it to the caller's own projects.
+create or replace function public.prune_project_versions(
+    p_project_id uuid,
+    p_keep_latest integer,
+    p_keep_daily_days integer
+) returns integer
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+    deleted_count integer;
+begin
+    if p_keep_latest <= 0 then
+        return 0;
+    end if;
+
+    with ranked as (
+        select
+            id,
+            pinned,
+            created_at,
+            row_number() over (order by created_at desc) as recency,
+            row_number() over (partition by date_trunc('day', created_at) order by created_at desc) as daily_rank
+        from public.project_versions
+        where project_id = p_project_id
+    )
+    delete from public.project_versions v
+    using ranked r
+    where v.id = r.id
+        and not r.pinned
+        and r.recency > p_keep_latest
+        and not (r.daily_rank = 1 and r.created_at > now() - make_interval(days => greatest(p_keep_daily_days, 0)));
+
+    get diagnostics deleted_count = row_count;
+    return deleted_count;
+end;
+$$;
@@ -0,0 +1,111 @@
+-- Content-addressed file storage. Each distinct file content is stored once per user, keyed by
+-- the hex SHA-256 of its UTF-8 bytes; projects and checkpoints hold path -> hash manifests
+-- instead of full copies of their files. See services/blobService.ts.
+create table if not exists public.file_blobs (
+    user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+    hash text not null,
+    content text not null,
+    created_at timestamptz not null default now(),
+    -- When a save last stored or reused the blob; garbage collection goes by this.
+    last_used_at timestamptz not null default now(),
+    primary key (user_id, hash)
+);
+
+alter table public.file_blobs enable row level security;
+
+create policy "Users can manage their own file blobs"
+    on public.file_blobs for all
+    using (auth.uid() = user_id)
+    with check (auth.uid() = user_id);
+
+alter table public.projects
+    add column if not exists manifest jsonb,
+    alter column file_system drop not null;
+
+alter table public.project_versions
+    add column if not exists manifest jsonb,
+    alter column file_system drop not null;
+
+-- Move existing file systems into blobs and manifests. Rows without a manifest are still read
+-- from file_system by the client, so this can run while older rows are being written.
+insert into public.file_blobs (user_id, hash, content)
+select p.user_id, encode(sha256(convert_to(f.value, 'UTF8')), 'hex'), f.value
+from public.projects p
+cross join lateral jsonb_each_text(p.file_system) f
+where p.manifest is null and p.file_system is not null
+on conflict do nothing;
+
+insert into public.file_blobs (user_id, hash, content)
+select p.user_id, encode(sha256(convert_to(f.value, 'UTF8')), 'hex'), f.value
+from public.project_versions v
+join public.projects p on p.id = v.project_id
+cross join lateral jsonb_each_text(v.file_system) f
+where v.manifest is null and v.file_system is not null
+on conflict do nothing;
+
+update public.projects
+set manifest = coalesce(
+        (select jsonb_object_agg(f.key, encode(sha256(convert_to(f.value, 'UTF8')), 'hex')) from jsonb_each_text(file_system) f),
+        '{}'::jsonb
+    ),
+    file_system = null
+where manifest is null and file_system is not null;
+
+update public.project_versions
+set manifest = coalesce(
+        (select jsonb_object_agg(f.key, encode(sha256(convert_to(f.value, 'UTF8')), 'hex')) from jsonb_each_text(file_system) f),
+        '{}'::jsonb
+    ),
+    file_system = null
+where manifest is null and file_system is not null;
+
+-- Marks the caller's blobs among p_hashes as used now and returns the hashes of those that exist.
+-- A save calls this for the blobs it reuses rather than uploads, so that garbage collection
+-- leaves them alone until the manifest that uses them is written: an update that commits first
+-- makes the delete below skip the row, and one that waits for the delete finds the row gone, so
+-- the save uploads it again.
+create or replace function public.touch_file_blobs(p_user_id uuid, p_hashes text[])
+returns setof text
+language sql
+security invoker
+set search_path = public
+as $$
+    update public.file_blobs
+    set last_used_at = now()
+    where user_id = p_user_id and hash = any(p_hashes)
+    returning hash;
+$$;
+
+-- Deletes the caller's blobs that no project or checkpoint manifest refers to. Blobs used in the
+-- last day are kept, since a save uploads or touches its blobs before writing the manifest that
+-- uses them.
+create or replace function public.delete_unreferenced_file_blobs()
+returns integer
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+    deleted_count integer;
+begin
+    with referenced as (
+        select m.value as hash
+        from public.projects p
+        cross join lateral jsonb_each_text(p.manifest) m
+        where p.user_id = auth.uid()
+        union
+        select m.value
+        from public.project_versions v
+        join public.projects p on p.id = v.project_id
+        cross join lateral jsonb_each_text(v.manifest) m
+        where p.user_id = auth.uid()
+    )
+    delete from public.file_blobs b
+    where b.user_id = auth.uid()
+        and b.last_used_at < now() - interval '1 day'
+        and not exists (select 1 from referenced r where r.hash = b.hash);
+
+    get diagnostics deleted_count = row_count;
+    return deleted_count;
+end;
+$$;
@@ -0,0 +1,270 @@
+-- Real-time collaboration: project members who can open, edit and prompt in a project alongside
+-- its owner, the lock that keeps one agent run per project, and access to each project's private
+-- Realtime channel (topic 'project:<id>'). See hooks/useCollaboration.ts.
+create table if not exists public.project_members (
+    project_id uuid not null references public.projects (id) on delete cascade,
+    user_id uuid not null references auth.users (id) on delete cascade,
+    email text not null,
+    added_at timestamptz not null default now(),
+    primary key (project_id, user_id)
+);
+
+create index if not exists project_members_user_idx on public.project_members (user_id);
+
+alter table public.project_members enable row level security;
+
+-- Owner or member. Security definer so the policies below can call it without recursing into
+-- the row level security of the tables it reads.
+create or replace function public.can_access_project(p_project_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select exists (select 1 from public.projects p where p.id = p_project_id and p.user_id = auth.uid())
+        or exists (select 1 from public.project_members m where m.project_id = p_project_id and m.user_id = auth.uid());
+$$;
+
+create policy "Users can see the members of projects they can access"
+    on public.project_members for select
+    using (public.can_access_project(project_id));
+
+-- Owners remove members; members can leave.
+create policy "Owners and the member themselves can remove a member"
+    on public.project_members for delete
+    using (
+        user_id = auth.uid()
+        or exists (select 1 from public.projects p where p.id = project_id and p.user_id = auth.uid())
+    );
+
+-- Adds the account registered with p_email to one of the caller's projects.
+create or replace function public.add_project_member(p_project_id uuid, p_email text)
+returns public.project_members
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    member_id uuid;
+    member public.project_members;
+begin
+    if not exists (select 1 from public.projects p where p.id = p_project_id and p.user_id = auth.uid()) then
+        raise exception 'Only the owner of a project can share it';
+    end if;
+
+    select u.id into member_id from auth.users u where lower(u.email) = lower(trim(p_email));
+    if member_id is null then
+        raise exception 'No MominAI account uses %', p_email;
+    end if;
+    if member_id = auth.uid() then
+        raise exception 'You already own this project';
+    end if;
+
+    insert into public.project_members (project_id, user_id, email)
+    values (p_project_id, member_id, lower(trim(p_email)))
+    on conflict (project_id, user_id) do update set email = excluded.email
+    returning * into member;
+    return member;
+end;
+$$;
+
+create policy "Members can read shared projects"
+    on public.projects for select
+    using (exists (select 1 from public.project_members m where m.project_id = projects.id and m.user_id = auth.uid()));
+
+create policy "Members can save shared projects"
+    on public.projects for update
+    using (exists (select 1 from public.project_members m where m.project_id = projects.id and m.user_id = auth.uid()))
+    with check (exists (select 1 from public.project_members m where m.project_id = projects.id and m.user_id = auth.uid()));
+
+-- Row level security can't limit an update to some columns, so this keeps members to saving the
+-- files: anything else (owner, name, provider, model settings) only the owner can change.
+create or replace function public.restrict_member_project_updates()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+    if auth.uid() is not null
+        and old.user_id <> auth.uid()
+        and to_jsonb(new) - array['manifest', 'file_system', 'updated_at']
+            is distinct from to_jsonb(old) - array['manifest', 'file_system', 'updated_at'] then
+        raise exception 'Only the owner of a project can change its settings';
+    end if;
+    return new;
+end;
+$$;
+
+create trigger restrict_member_project_updates
+    before update on public.projects
+    for each row execute function public.restrict_member_project_updates();
+
+-- Members can browse and create checkpoints; pinning and deleting them is left to the owner.
+create policy "Members can read versions of shared projects"
+    on public.project_versions for select
+    using (public.can_access_project(project_id));
+
+create policy "Members can add versions to shared projects"
+    on public.project_versions for insert
+    with check (public.can_access_project(project_id));
+
+create policy "Members can manage messages of shared projects"
+    on public.project_messages for all
+    using (public.can_access_project(project_id))
+    with check (public.can_access_project(project_id));
+
+-- A project's files are stored as blobs of its owner, whoever saves them. Members can read the
+-- blobs that the shared project or one of its checkpoints refers to, none of the owner's others,
+-- and add (but not delete) blobs, which must hold the contents their hash names.
+create or replace function public.is_shared_project_blob(p_owner_id uuid, p_hash text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select exists (
+        select 1
+        from public.project_members m
+        join public.projects p on p.id = m.project_id
+        where m.user_id = auth.uid()
+            and p.user_id = p_owner_id
+            and (
+                exists (select 1 from jsonb_each_text(p.manifest) f where f.value = p_hash)
+                or exists (
+                    select 1
+                    from public.project_versions v
+                    cross join lateral jsonb_each_text(v.manifest) f
+                    where v.project_id = p.id and f.value = p_hash
+                )
+            )
+    );
+$$;
+
+create policy "Members can read file blobs of shared projects"
+    on public.file_blobs for select
+    using (public.is_shared_project_blob(user_id, hash));
+
+create policy "Members can add file blobs to shared projects"
+    on public.file_blobs for insert
+    with check (
+        hash = encode(sha256(convert_to(content, 'UTF8')), 'hex')
+        and exists (
+            select 1 from public.project_members m
+            join public.projects p on p.id = m.project_id
+            where m.user_id = auth.uid() and p.user_id = file_blobs.user_id
+        )
+    );
+
+-- Members reuse the owner's blobs when they save, so they touch them too (see
+-- 20261019000600_file_blobs.sql). Members can't update blobs, hence security definer.
+create or replace function public.touch_file_blobs(p_user_id uuid, p_hashes text[])
+returns setof text
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if p_user_id <> auth.uid() and not exists (
+        select 1 from public.project_members m
+        join public.projects p on p.id = m.project_id
+        where m.user_id = auth.uid() and p.user_id = p_user_id
+    ) then
+        raise exception 'Not allowed to use these file blobs';
+    end if;
+
+    return query
+    with touched as (
+        update public.file_blobs b
+        set last_used_at = now()
+        where b.user_id = p_user_id and b.hash = any(p_hashes)
+        returning b.hash
+    )
+    select t.hash from touched t;
+end;
+$$;
+
+-- At most one agent run per project. A lock is held by one browser session and lapses at
+-- expires_at unless that session renews it, so a closed tab can't hold a project forever.
+create table if not exists public.project_agent_locks (
+    project_id uuid primary key references public.projects (id) on delete cascade,
+    session_id text not null,
+    user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+    holder_name text,
+    acquired_at timestamptz not null default now(),
+    expires_at timestamptz not null
+);
+
+alter table public.project_agent_locks enable row level security;
+
+create policy "Users can see agent locks of projects they can access"
+    on public.project_agent_locks for select
+    using (public.can_access_project(project_id));
+
+-- Takes or renews the lock; returns false while another session holds an unexpired one.
+create or replace function public.acquire_agent_lock(
+    p_project_id uuid,
+    p_session_id text,
+    p_holder_name text,
+    p_ttl_seconds integer
+) returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if not public.can_access_project(p_project_id) then
+        raise exception 'Not allowed to run the agent in this project';
+    end if;
+
+    insert into public.project_agent_locks as l (project_id, session_id, user_id, holder_name, acquired_at, expires_at)
+    values (p_project_id, p_session_id, auth.uid(), p_holder_name, now(), now() + make_interval(secs => p_ttl_seconds))
+    on conflict (project_id) do update
+        set session_id = excluded.session_id,
+            user_id = excluded.user_id,
+            holder_name = excluded.holder_name,
+            acquired_at = case when l.session_id = excluded.session_id then l.acquired_at else excluded.acquired_at end,
+            expires_at = excluded.expires_at
+        where l.session_id = excluded.session_id or l.expires_at < now();
+
+    return found;
+end;
+$$;
+
+create or replace function public.release_agent_lock(p_project_id uuid, p_session_id text)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+    delete from public.project_agent_locks
+    where project_id = p_project_id and session_id = p_session_id and user_id = auth.uid();
+$$;
+
+-- Realtime authorization for private channels: only the owner and members of a project can join
+-- its channel, receive its broadcasts and presence, and send on it.
+create or replace function public.can_access_project_topic(p_topic text)
+returns boolean
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+    if p_topic !~ '^project:[0-9a-f-]{36}$' then
+        return false;
+    end if;
+    return public.can_access_project(substring(p_topic from 9)::uuid);
+end;
+$$;
+
+create policy "Project members can receive on the project channel"
+    on realtime.messages for select
+    to authenticated
+    using (public.can_access_project_topic(realtime.topic()));
+
+create policy "Project members can send on the project channel"
+    on realtime.messages for insert
+    to authenticated
+    with check (public.can_access_project_topic(realtime.topic()));
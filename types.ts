@@ -1,4 +1,5 @@
 import { User } from '@supabase/supabase-js';
+import type { Content, FunctionDeclaration, Part } from '@google/genai';
 
 export interface FileNode {
   name: string;
@@ -176,6 +177,57 @@ export type FileSystem = {
   [path: string]: string;
 };
 
+// Maps each file path to the SHA-256 of its contents, which are stored once in `file_blobs`.
+export type FileManifest = {
+  [path: string]: string;
+};
+
+// A compiler or linter finding from verifying the draft, with a project-relative path.
+export interface Diagnostic {
+  file: string;
+  line: number; // 1-based
+  column: number; // 1-based
+  code?: string; // e.g. 'TS2322' or an ESLint rule id
+  message: string;
+  severity: 'error' | 'warning';
+  source: 'typescript' | 'eslint' | 'vite';
+}
+
+// An error reported by the script injected into the preview iframe.
+export interface RuntimeError {
+  id: string;
+  kind: 'error' | 'unhandledrejection' | 'console';
+  message: string;
+  stack?: string;
+  // `url:line:column` of the throwing script, when the browser reports it.
+  location?: string;
+  // Identical errors are counted rather than listed again.
+  count: number;
+  timestamp: string;
+}
+
+export type TestStatus = 'passed' | 'failed' | 'skipped';
+
+export interface TestCaseResult {
+  file: string;
+  // Enclosing describe blocks and the test title, joined with spaces as Vitest's -t option matches them.
+  name: string;
+  status: TestStatus;
+  durationMs?: number;
+  failureMessage?: string;
+}
+
+export interface TestRunResult {
+  tests: TestCaseResult[];
+  // Test files that failed before any test ran, e.g. on a syntax error or a bad import.
+  fileErrors: { file: string; message: string }[];
+  passed: number;
+  failed: number;
+  skipped: number;
+  durationMs: number;
+  finishedAt: string;
+}
+
 export enum MessageType {
   User = 'user',
   AgentThought = 'agent_thought',
@@ -220,6 +272,9 @@ export type ActionType =
 export interface AIAction {
   type: ActionType;
   target?: string;
+  // For COMMAND actions: what the process printed so far, and its exit code once it has finished.
+  output?: string;
+  exitCode?: number | null;
 }
 
 export type TaskStatus = 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'FAILED';
@@ -243,45 +298,235 @@ export interface GroundingSource {
 
 export interface UsageMetadata {
   promptTokenCount: number;
-  candidatesTokenCount: number;
+  candidatesTokenCount: number; // output tokens, including any thinking tokens
   totalTokenCount: number;
+  costUsd?: number;
 }
 
 export interface ChatMessage {
+  id?: string;
   role: 'user' | 'assistant';
   content: string;
   image?: ImageData;
+  // Screenshots taken by `capture_preview`, labelled with their viewport.
+  screenshots?: (ImageData & { label: string })[];
   actions?: AIAction[];
   tasks?: AITask[];
   isLoading?: boolean;
   sources?: GroundingSource[];
   usageMetadata?: UsageMetadata;
+  isStreaming?: boolean; // true while text deltas are still arriving from the provider
+  servedBy?: { provider: AiProvider; model: string }; // which provider/model produced this turn
+  runUsage?: UsageMetadata; // totals for the whole agent run, set on the run's final message
+  author?: { id: string; name: string }; // who sent a user message; projects can be shared with collaborators
 }
 
 // FIX: Removed 'pexels' as it is a tool used by providers, not a standalone content generation provider. This resolves type errors in components that use AiProvider as a key for Record types.
-export type AiProvider = 'gemini' | 'claude' | 'openai' | 'groq' | 'openrouter';
+export type BuiltInAiProvider = 'gemini' | 'claude' | 'openai' | 'groq' | 'openrouter';
+
+// Providers are identified by their registry id. Besides the built-ins, OpenAI-compatible
+// servers configured through VITE_LOCAL_PROVIDERS (Ollama, llama.cpp, LM Studio) use their own ids.
+export type AiProvider = BuiltInAiProvider | (string & {});
 
 export interface Project {
   id: string;
   user_id: string;
   name: string;
+  // Assembled from the project's manifest by projectService.
   file_system: FileSystem;
   provider: AiProvider;
+  model_settings?: ProjectModelSettings | null;
   created_at: string;
   updated_at: string;
 }
 
+// A project as listed on the dashboard, without its files.
+export type ProjectSummary = Omit<Project, 'file_system'>;
+
 export interface ProjectVersion {
   id: string;
   project_id: string;
+  // Assembled from the checkpoint's manifest by projectService.
   file_system: FileSystem;
   summary: string | null;
+  // Pinned checkpoints are never removed by the retention rule.
+  pinned: boolean;
+  // The checkpoint this one was restored or forked from.
+  source_version_id: string | null;
   created_at: string;
 }
 
+// A checkpoint as listed in the version browser, without its files.
+export type ProjectVersionSummary = Omit<ProjectVersion, 'file_system'>;
+
+// One row of the `project_members` table: an account a project's owner has shared it with.
+export interface ProjectMember {
+  project_id: string;
+  user_id: string;
+  email: string;
+  added_at: string;
+}
+
+// One row of the `project_agent_locks` table: the session running the agent in a project.
+export interface ProjectAgentLock {
+  project_id: string;
+  session_id: string;
+  user_id: string;
+  holder_name: string | null;
+  acquired_at: string;
+  expires_at: string;
+}
+
+// Someone with the project open, as tracked by Realtime presence (see useCollaboration).
+export interface Collaborator {
+  sessionId: string;
+  userId: string;
+  name: string;
+  // One of the cursor colours, as an index into COLLABORATOR_COLORS.
+  color: number;
+  joinedAt: number;
+  // Holds the project's agent lock, i.e. is running MominAI.
+  isRunningAgent: boolean;
+}
+
 export interface SimplifiedGenerateContentResponse {
   text: string;
-  functionCalls: ({ name: string; args: any; })[] | undefined;
+  // `id` is the provider's tool-call id, echoed back on the matching functionResponse.
+  functionCalls: ({ id?: string; name: string; args: any; })[] | undefined;
+  // Reasoning the provider needs back verbatim on later requests (Claude's signed thinking blocks),
+  // as `thought` parts that go first in the model's turn. Other providers leave them out.
+  thoughts?: Part[];
+  usage?: UsageMetadata;
+}
+
+// --- Provider Adapters ---
+
+export interface ModelInfo {
+  id: string;
+  name: string;
+  contextWindow: number;
+  maxOutputTokens: number;
+  supportsThinking?: boolean;
+  tier?: 'fast' | 'balanced' | 'strong';
+  pricing?: ModelPricing;
+}
+
+// USD per million tokens. Models without pricing (e.g. local servers) are counted as free.
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+// One row of the `project_messages` table. 'chat' rows hold a ChatMessage keyed by its id;
+// 'history' rows hold one turn of the agent's Gemini-format conversation, keyed by its position.
+export interface ProjectMessage {
+  id: string;
+  project_id: string;
+  kind: 'chat' | 'history';
+  client_id: string;
+  seq: number;
+  payload: any;
+  created_at: string;
+}
+
+// One row of the `usage_events` table: a single billed provider call.
+export interface UsageEvent {
+  id: string;
+  user_id: string;
+  project_id: string | null;
+  provider: AiProvider;
+  model: string;
+  prompt_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  created_at: string;
+}
+
+// Per-request model parameters. Anything left undefined falls back to the provider's defaults.
+export interface ModelSettings {
+  model: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  thinkingBudget?: number; // tokens; 0 disables thinking on models that support it
+}
+
+// Stored on the project so switching providers back and forth keeps each one's choices.
+export type ProjectModelSettings = Partial<Record<AiProvider, ModelSettings>>;
+
+export interface ProviderCapabilities {
+  vision: boolean;
+  tools: boolean;
+  streaming: boolean;
+}
+
+// Where the UI asks the user for this provider's key, which is stored in the server-side key vault
+// under the provider id. Providers without one (server-held keys, local servers) leave it undefined.
+export interface ProviderKeyConfig {
+  label: string;
+  url: string;
+}
+
+export interface ProviderRequest {
+  history: Content[];
+  fileSystem: FileSystem;
+  systemInstruction: string;
+  tools: FunctionDeclaration[];
+  settings: ModelSettings;
+  // Aborts the provider call when the user stops the agent.
+  signal?: AbortSignal;
+}
+
+// Everything needed to talk to one model provider. History and tool declarations are kept in the
+// Gemini format throughout the app; each adapter translates them to its wire format and normalises
+// the reply back into a SimplifiedGenerateContentResponse.
+export interface ProviderAdapter {
+  id: AiProvider;
+  name: string;
+  capabilities: ProviderCapabilities;
+  models: ModelInfo[];
+  defaultSettings: ModelSettings;
+  keyConfig?: ProviderKeyConfig;
+  hasApiKey: () => boolean;
+  translateHistory: (history: Content[]) => any[];
+  translateTools: (tools: FunctionDeclaration[]) => any[];
+  normaliseResponse: (data: any) => SimplifiedGenerateContentResponse;
+  generate: (request: ProviderRequest) => Promise<SimplifiedGenerateContentResponse>;
+  stream?: (request: ProviderRequest) => AsyncGenerator<StreamEvent>;
+}
+
+// Incremental events emitted by streamContentWithTools. Tool-call arguments arrive as raw JSON
+// fragments keyed by the call's index within the turn; `done` carries the fully assembled response.
+export type StreamEvent =
+  | { type: 'text'; delta: string }
+  | { type: 'tool_call'; index: number; name?: string; argsDelta: string }
+  | { type: 'done'; response: SimplifiedGenerateContentResponse };
+
+// Events from an agent turn run across the failover chain. `retry` means the attempt so far was
+// discarded (any streamed text is stale) and the turn restarts on `provider` after `delayMs`.
+export type AgentStreamEvent =
+  | Exclude<StreamEvent, { type: 'done' }>
+  | { type: 'retry'; failedProvider: AiProvider; provider: AiProvider; attempt: number; delayMs: number; error: string }
+  | { type: 'done'; response: SimplifiedGenerateContentResponse; provider: AiProvider; model: string };
+
+// User-level agent preferences, kept in localStorage.
+export interface AgentSettings {
+  // Providers to fall back to, in order, when the selected one keeps failing.
+  failoverChain: AiProvider[];
+  maxRetries: number;
+  // Upper bound on history tokens sent per request; older turns are compacted to fit.
+  maxContextTokens: number;
+  // Per-run limits after which the agent gives up instead of looping; 0 means no limit.
+  maxTurns: number;
+  maxBuildAttempts: number;
+  maxRunTokens: number;
+  maxRunCostUsd: number;
+  // Commands the agent's run_command tool may run, matched as whole-word prefixes; deny wins.
+  commandAllowList: string[];
+  commandDenyList: string[];
+  // Checkpoint retention: the newest versionsKeepLatest are kept, plus one per day for
+  // versionsKeepDailyDays; pinned checkpoints are always kept. 0 keeps every checkpoint.
+  versionsKeepLatest: number;
+  versionsKeepDailyDays: number;
 }
 
 
@@ -0,0 +1,39 @@
+import { Content } from '@google/genai';
+import { describe, expect, it } from 'vitest';
+import { compactHistory, estimateTokens } from './contextUtils';
+
+// One prompt followed by a long run of builds, each failing with a page of output.
+const longRun = (steps: number): Content[] => [
+    { role: 'user', parts: [{ text: 'Make the build pass.' }] },
+    ...Array.from({ length: steps }, (_, i): Content[] => [
+        { role: 'model', parts: [{ text: `Attempt ${i + 1}.` }, { functionCall: { id: `call_${i}`, name: 'run_build', args: {} } }] },
+        { role: 'function', parts: [{ functionResponse: { id: `call_${i}`, name: 'run_build', response: { success: false, output: `error TS2322 in step ${i}\n`.repeat(100) } } }] },
+    ]).flat(),
+];
+
+describe('compactHistory', () => {
+    it('summarises within a single long agent run', () => {
+        const history = longRun(30);
+        const budget = Math.floor(estimateTokens(history) / 3);
+        const compacted = compactHistory(history, {}, budget);
+
+        expect(estimateTokens(compacted)).toBeLessThanOrEqual(budget);
+        const [first, ...rest] = compacted;
+        expect(first.role).toBe('user');
+        expect(first.parts?.[0].text).toMatch(/^\[Earlier conversation, summarised/);
+        expect(first.parts?.[1]).toEqual({ text: 'Make the build pass.' });
+        // The kept turns are whole tool calls, each followed by its results.
+        expect(rest[0].role).toBe('model');
+        rest.forEach((turn, i) => expect(turn.role).toBe(i % 2 === 0 ? 'model' : 'function'));
+        expect(rest[rest.length - 1]).toEqual(history[history.length - 1]);
+    });
+
+    it('keeps only the latest prompt when nothing else fits', () => {
+        const history = [...longRun(10), { role: 'model', parts: [{ text: 'Done.' }] }, { role: 'user', parts: [{ text: 'Now add a footer.' }] }];
+        const compacted = compactHistory(history, {}, 1);
+
+        expect(compacted).toHaveLength(1);
+        expect(compacted[0].parts?.[0].text).toContain('- User: Make the build pass.');
+        expect(compacted[0].parts?.[1]).toEqual({ text: 'Now add a footer.' });
+    });
+});
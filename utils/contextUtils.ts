@@ -0,0 +1,164 @@
+import { Content, Part } from '@google/genai';
+import { FileSystem, ModelInfo, ModelSettings } from '../types';
+
+// Helpers that keep the agent's conversation history within a provider's context window.
+// The full history stays in IdeLayout; only the copy sent with each request is compacted.
+
+// Rough token estimate (~4 characters per token). Images are counted at a flat rate instead of
+// by the length of their base64 data.
+const IMAGE_TOKENS = 1000;
+
+const estimatePartTokens = (part: Part): number => {
+    if (part.inlineData) return IMAGE_TOKENS;
+    return Math.ceil(JSON.stringify(part).length / 4);
+};
+
+export const estimateTokens = (value: Content[] | string): number => {
+    if (typeof value === 'string') return Math.ceil(value.length / 4);
+    return value.reduce((sum, turn) => sum + (turn.parts || []).reduce((s, p) => s + estimatePartTokens(p), 0), 0);
+};
+
+// Tokens available for history in one request: the model's window minus room for the reply and
+// the system instruction, further capped by the user's per-request limit to keep costs down.
+export const getHistoryBudget = (
+    model: ModelInfo | undefined,
+    settings: ModelSettings,
+    systemInstruction: string,
+    maxContextTokens: number
+): number => {
+    if (!model) return maxContextTokens;
+    const reservedOutput = Math.min(settings.maxOutputTokens ?? 4096, Math.floor(model.contextWindow / 4)) + (settings.thinkingBudget ?? 0);
+    const available = model.contextWindow - reservedOutput - estimateTokens(systemInstruction);
+    return Math.min(Math.max(available, Math.floor(model.contextWindow / 4)), maxContextTokens);
+};
+
+// File payloads in the last few turns are left alone so the model still sees what it just did.
+const RECENT_TURNS = 4;
+// Payloads shorter than a reference would be are kept as they are.
+const MIN_PAYLOAD_CHARS = 200;
+const SUMMARY_MAX_CHARS = 4000;
+
+const fileReference = (path: string, payload: string, fileSystem: FileSystem): string => {
+    const current = fileSystem[path];
+    if (current === undefined) return `[${path}: ${payload.length} chars omitted; the file has since been deleted]`;
+    const state = current === payload ? 'unchanged since' : 'modified since';
+    return `[${path}: ${payload.length} chars omitted; ${state} - use read_file for the current version]`;
+};
+
+// Replaces file contents carried in `create_or_update_files` calls and `read_file` results with a
+// short reference, unless it is the latest copy of that file within the recent turns. Screenshots
+// from `capture_preview` outside the recent turns are dropped the same way.
+const replaceStaleFilePayloads = (history: Content[], fileSystem: FileSystem): Content[] => {
+    const latestTurnForPath = new Map<string, number>();
+    const readPaths = (turn: Content) =>
+        (turn.parts || []).filter(p => p.functionCall?.name === 'read_file').map(p => p.functionCall!.args?.path as string);
+
+    history.forEach((turn, i) => {
+        for (const part of turn.parts || []) {
+            if (part.functionCall?.name === 'create_or_update_files') {
+                Object.keys((part.functionCall.args?.files as Record<string, string>) || {}).forEach(path => latestTurnForPath.set(path, i));
+            }
+        }
+        if (turn.role === 'function' && i > 0) readPaths(history[i - 1]).forEach(path => latestTurnForPath.set(path, i));
+    });
+
+    const isStale = (path: string, content: string, turnIndex: number) =>
+        content.length > MIN_PAYLOAD_CHARS &&
+        (turnIndex < history.length - RECENT_TURNS || latestTurnForPath.get(path) !== turnIndex);
+
+    return history.map((turn, i) => {
+        const parts = turn.parts || [];
+        if (turn.role === 'model') {
+            return {
+                ...turn,
+                parts: parts.map(part => {
+                    const call = part.functionCall;
+                    if (call?.name !== 'create_or_update_files' || !call.args?.files) return part;
+                    const files = Object.fromEntries(Object.entries(call.args.files as Record<string, string>).map(([path, content]) => [
+                        path,
+                        typeof content === 'string' && isStale(path, content, i) ? fileReference(path, content, fileSystem) : content,
+                    ]));
+                    return { functionCall: { ...call, args: { ...call.args, files } } };
+                }),
+            };
+        }
+        if (turn.role === 'function' && i > 0) {
+            const calls = (history[i - 1].parts || []).filter(p => p.functionCall).map(p => p.functionCall!);
+            let responseIndex = 0;
+            return {
+                ...turn,
+                parts: parts.map(part => {
+                    if (part.inlineData && i < history.length - RECENT_TURNS) return { text: '[Screenshot omitted; call capture_preview again to see the current state]' };
+                    const response = part.functionResponse;
+                    if (!response) return part;
+                    const call = calls[responseIndex++];
+                    const content = response.response?.content;
+                    if (response.name !== 'read_file' || call?.name !== 'read_file' || typeof content !== 'string') return part;
+                    const path = call.args?.path as string;
+                    if (!isStale(path, content, i)) return part;
+                    return { functionResponse: { ...response, response: { ...response.response, content: fileReference(path, content, fileSystem) } } };
+                }),
+            };
+        }
+        return turn;
+    });
+};
+
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max)}...` : text);
+
+const summariseTurn = (turn: Content): string | null => {
+    const parts = turn.parts || [];
+    const text = parts.filter(p => p.text && !p.thought).map(p => p.text).join(' ').trim();
+    if (turn.role === 'user') return text ? `- User: ${truncate(text, 300)}` : null;
+    if (turn.role !== 'model') return null;
+
+    const calls = parts.filter(p => p.functionCall).map(p => {
+        const { name, args } = p.functionCall!;
+        const targets = name === 'create_or_update_files' ? Object.keys((args?.files as object) || {}) : args?.path ? [args.path as string] : [];
+        return targets.length > 0 ? `${name} (${targets.join(', ')})` : name;
+    });
+    const pieces = [text && truncate(text, 200), calls.length > 0 && `called ${calls.join(', ')}`].filter(Boolean);
+    return pieces.length > 0 ? `- You: ${pieces.join('; ')}` : null;
+};
+
+const isPrompt = (turn: Content) => turn.role === 'user' && (turn.parts || []).some(p => p.text);
+
+// Older turns are dropped and replaced by a plain-text summary prepended to the first kept user
+// prompt. A cut is made before a user prompt or, within a long agent run, before a model turn that
+// follows a complete set of tool results, so tool calls and their results stay paired. A cut within
+// a run keeps the prompt that started it in front of the summary, so the model still knows its task.
+const summariseOldTurns = (history: Content[], budget: number): Content[] => {
+    const cutPoints = history
+        .map((turn, i) => (isPrompt(turn) || (turn.role === 'model' && history[i - 1]?.role === 'function') ? i : -1))
+        .filter(i => i > 0);
+
+    for (const cut of cutPoints) {
+        let promptIndex = cut;
+        while (promptIndex >= 0 && !isPrompt(history[promptIndex])) promptIndex--;
+
+        const lines = history.slice(0, cut)
+            .filter((_, i) => i !== promptIndex)
+            .map(summariseTurn)
+            .filter((line): line is string => !!line);
+        let summary = lines.join('\n');
+        if (summary.length > SUMMARY_MAX_CHARS) summary = `...\n${summary.slice(-SUMMARY_MAX_CHARS)}`;
+        const header = `[Earlier conversation, summarised to save context. The project files reflect all changes made so far.]\n${summary}\n[End of summary]`;
+
+        const prompt = promptIndex >= 0 ? history[promptIndex] : undefined;
+        const rest = history.slice(promptIndex === cut ? cut + 1 : cut);
+        const compacted: Content[] = [{ role: 'user', parts: [{ text: header }, ...(prompt?.parts || [])] }, ...rest];
+        if (estimateTokens(compacted) <= budget || cut === cutPoints[cutPoints.length - 1]) {
+            return compacted;
+        }
+    }
+    return history;
+};
+
+// Returns a copy of `history` to send to the model. Stale file payloads are always swapped for
+// references to the current file system, since resending them only costs tokens; if the result
+// still doesn't fit in `budget`, the oldest turns are summarised as well.
+export const compactHistory = (history: Content[], fileSystem: FileSystem, budget: number): Content[] => {
+    const withoutStalePayloads = replaceStaleFilePayloads(history, fileSystem);
+    if (estimateTokens(withoutStalePayloads) <= budget) return withoutStalePayloads;
+    return summariseOldTurns(withoutStalePayloads, budget);
+};
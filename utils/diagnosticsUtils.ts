@@ -0,0 +1,131 @@
+import { Diagnostic } from '../types';
+
+// Turns build and lint output from the verification sandbox into structured diagnostics, for the
+// agent's `run_build_and_lint` result, editor markers and the Problems panel.
+
+// tsc without a TTY: `src/App.tsx(12,5): error TS2322: Type ...`
+const TSC_PLAIN = /^(.+?)\((\d+),(\d+)\): (error|warning) (TS\d+): (.*)$/;
+// tsc with --pretty: `src/App.tsx:12:5 - error TS2322: Type ...`
+const TSC_PRETTY = /^(.+?):(\d+):(\d+) - (error|warning) (TS\d+): (.*)$/;
+// esbuild transform errors reported by Vite: `/home/project/src/App.tsx:12:5: ERROR: Expected ";"`
+const ESBUILD = /^(.+?):(\d+):(\d+): (ERROR|WARNING): (.*)$/;
+// `[vite]: Rollup failed to resolve import "zod" from "/home/project/src/App.tsx".`
+const UNRESOLVED_IMPORT = /Rollup failed to resolve import "(.+?)" from "(.+?)"/;
+
+// Paths in the output are absolute or relative to wherever the tool ran; diagnostics use paths
+// relative to the project root.
+export const toProjectPath = (path: string, projectDir?: string): string => {
+    let relative = path.trim().replace(/\\/g, '/');
+    if (projectDir && relative.includes(`/${projectDir}/`)) {
+        relative = relative.slice(relative.indexOf(`/${projectDir}/`) + projectDir.length + 2);
+    } else if (projectDir && relative.startsWith(`${projectDir}/`)) {
+        relative = relative.slice(projectDir.length + 1);
+    } else {
+        // The WebContainer's working directory, e.g. /home/project.
+        relative = relative.replace(/^\/home\/[^/]+\//, '');
+    }
+    return relative.replace(/^\.\//, '');
+};
+
+export const parseBuildOutput = (output: string, projectDir?: string): Diagnostic[] => {
+    const diagnostics: Diagnostic[] = [];
+    for (const rawLine of output.split('\n')) {
+        const line = rawLine.trim();
+        const tsc = line.match(TSC_PLAIN) || line.match(TSC_PRETTY);
+        if (tsc) {
+            diagnostics.push({
+                file: toProjectPath(tsc[1], projectDir),
+                line: Number(tsc[2]),
+                column: Number(tsc[3]),
+                code: tsc[5],
+                message: tsc[6],
+                severity: tsc[4] as Diagnostic['severity'],
+                source: 'typescript',
+            });
+            continue;
+        }
+        const esbuild = line.match(ESBUILD);
+        if (esbuild) {
+            diagnostics.push({
+                file: toProjectPath(esbuild[1], projectDir),
+                line: Number(esbuild[2]),
+                column: Number(esbuild[3]),
+                message: esbuild[5],
+                severity: esbuild[4] === 'ERROR' ? 'error' : 'warning',
+                source: 'vite',
+            });
+            continue;
+        }
+        const unresolved = line.match(UNRESOLVED_IMPORT);
+        if (unresolved) {
+            diagnostics.push({
+                file: toProjectPath(unresolved[2], projectDir),
+                line: 1,
+                column: 1,
+                code: 'UNRESOLVED_IMPORT',
+                message: `Cannot resolve import "${unresolved[1]}". Add the package to package.json or fix the path.`,
+                severity: 'error',
+                source: 'vite',
+            });
+        }
+    }
+    return dedupeDiagnostics(diagnostics);
+};
+
+interface EslintFileResult {
+    filePath: string;
+    messages: { ruleId: string | null; severity: number; message: string; line?: number; column?: number }[];
+}
+
+// Parses `eslint --format json` output. Returns null when the output isn't ESLint JSON, e.g.
+// because ESLint crashed before linting anything.
+export const parseEslintJson = (output: string, projectDir?: string): Diagnostic[] | null => {
+    const start = output.search(/\[\s*[{\]]/);
+    const end = output.lastIndexOf(']');
+    if (start === -1 || end < start) return null;
+    let results: EslintFileResult[];
+    try {
+        results = JSON.parse(output.slice(start, end + 1));
+    } catch {
+        return null;
+    }
+    if (!Array.isArray(results)) return null;
+
+    return results.flatMap(result => (result.messages || []).map(message => ({
+        file: toProjectPath(result.filePath, projectDir),
+        line: message.line ?? 1,
+        column: message.column ?? 1,
+        code: message.ruleId ?? undefined,
+        message: message.message,
+        severity: message.severity === 2 ? 'error' as const : 'warning' as const,
+        source: 'eslint' as const,
+    })));
+};
+
+const dedupeDiagnostics = (diagnostics: Diagnostic[]): Diagnostic[] => {
+    const seen = new Set<string>();
+    return diagnostics.filter(d => {
+        const key = `${d.file}:${d.line}:${d.column}:${d.code}:${d.message}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+};
+
+export const sortDiagnostics = (diagnostics: Diagnostic[]): Diagnostic[] =>
+    [...diagnostics].sort((a, b) =>
+        (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1) ||
+        a.file.localeCompare(b.file) ||
+        a.line - b.line ||
+        a.column - b.column
+    );
+
+// One line per diagnostic for the agent, errors first: `src/App.tsx:12:5 error TS2322: message`.
+export const formatDiagnostics = (diagnostics: Diagnostic[], maxItems = 50): string => {
+    const sorted = sortDiagnostics(diagnostics);
+    const lines = sorted.slice(0, maxItems).map(d =>
+        `${d.file}:${d.line}:${d.column} ${d.severity}${d.code ? ` ${d.code}` : ''}: ${d.message}`
+    );
+    if (sorted.length > maxItems) lines.push(`... and ${sorted.length - maxItems} more`);
+    return lines.join('\n');
+};
@@ -1,5 +1,5 @@
 import { FileSystem } from '../types';
-import { FileSystemTree } from '@webcontainer/api';
+import { FileSystemTree, WebContainer } from '@webcontainer/api';
 
 // Helper to decode a Base64 string into a Uint8Array.
 function base64ToUint8Array(base64: string) {
@@ -12,6 +12,121 @@ function base64ToUint8Array(base64: string) {
   return bytes;
 }
 
+// Helper to encode Uint8Array to a Base64 string.
+function uint8ArrayToBase64(bytes: Uint8Array) {
+  let binary = '';
+  const len = bytes.byteLength;
+  for (let i = 0; i < len; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+// A heuristic to identify text files based on their extension.
+// Files not on this list will be treated as binary and Base64-encoded for safety.
+const TEXT_FILE_EXTENSIONS = [
+  '.js', '.jsx', '.ts', '.tsx', '.json', '.css', '.html', '.md', '.svg', '.txt', 
+  '.lock', '.yml', '.yaml', '.toml', '.ini', '.sh', '.py', '.rb', '.java', '.go',
+  '.c', '.cpp', '.h', '.hpp', '.rs', '.php', 'Dockerfile', '.env', '.gitignore',
+  '.babelrc', '.eslintrc', '.prettierrc', 'vite.config.ts', 'tailwind.config.js', 'postcss.config.js'
+];
+
+const isTextFile = (path: string): boolean => {
+    if (path.toUpperCase().includes('LICENSE') || path.includes('.tldraw')) return true;
+    const lowerPath = path.toLowerCase();
+    return TEXT_FILE_EXTENSIONS.some(ext => lowerPath.endsWith(ext));
+};
+
+export const readDirectory = async (wc: WebContainer, path: string): Promise<FileSystem> => {
+  const fs: FileSystem = {};
+  // Start with an empty string for the root of the target path to build clean relative paths
+  const queue: string[] = [""]; 
+
+  while (queue.length > 0) {
+    const currentRelativeDir = queue.shift()!;
+    const fullDirPath = currentRelativeDir ? `${path}/${currentRelativeDir}` : path;
+    
+    let entries;
+    try {
+      entries = await wc.fs.readdir(fullDirPath, { withFileTypes: true });
+    } catch (e) {
+      // If the directory doesn't exist (e.g., first run, no cache), it's not an error we need to log loudly.
+      // This is a normal "cache miss" scenario.
+      if (e instanceof Error && e.message.includes('ENOENT')) {
+          if (currentRelativeDir === "") {
+             console.log(`[readDirectory] Cache path ${path} not found, returning empty cache.`);
+             return {}; // Return empty object, signaling a cache miss.
+          }
+          // If a subdirectory is missing, that's more unusual, maybe log it as a warning.
+          console.warn(`[readDirectory] Subdirectory not found during scan: ${fullDirPath}`);
+          continue; // Skip this branch of the directory tree.
+      }
+      // For other, unexpected errors, log them.
+      console.error(`Error reading directory ${fullDirPath}:`, e);
+      continue;
+    }
+      
+    if (entries.length === 0 && currentRelativeDir) {
+        fs[currentRelativeDir + '/'] = '__DIR__';
+    }
+
+    for (const entry of entries) {
+      const entryRelativePath = currentRelativeDir ? `${currentRelativeDir}/${entry.name}` : entry.name;
+      
+      if (entry.isDirectory()) {
+        queue.push(entryRelativePath);
+      } else if (entry.isFile()) {
+        try {
+            const contentBytes = await wc.fs.readFile(`${path}/${entryRelativePath}`);
+            if (isTextFile(entryRelativePath)) {
+                fs[entryRelativePath] = new TextDecoder().decode(contentBytes);
+            } else {
+                fs[entryRelativePath] = `base64:${uint8ArrayToBase64(contentBytes)}`;
+            }
+        } catch (fileReadError) {
+             console.error(`Error reading file ${path}/${entryRelativePath}:`, fileReadError);
+        }
+      }
+    }
+  }
+  return fs;
+};
+
+export const writeDirectory = async (wc: WebContainer, fs: FileSystem, targetPath: string) => {
+    await wc.fs.mkdir(targetPath, { recursive: true });
+
+    const dirs: string[] = [];
+    const files: { path: string, content: string }[] = [];
+
+    for (const relPath in fs) {
+        if (fs[relPath] === '__DIR__') {
+            dirs.push(relPath.endsWith('/') ? relPath.slice(0, -1) : relPath);
+        } else {
+            files.push({ path: relPath, content: fs[relPath] });
+        }
+    }
+
+    for (const dirRelPath of dirs) {
+        await wc.fs.mkdir(`${targetPath}/${dirRelPath}`, { recursive: true });
+    }
+
+    for (const { path: relPath, content } of files) {
+        const fullPath = `${targetPath}/${relPath}`;
+        const dir = fullPath.substring(0, fullPath.lastIndexOf('/'));
+        if (dir) {
+            await wc.fs.mkdir(dir, { recursive: true });
+        }
+        
+        let fileContents: string | Uint8Array;
+        if (content.startsWith('base64:')) {
+            fileContents = base64ToUint8Array(content.substring(7));
+        } else {
+            fileContents = content;
+        }
+        await wc.fs.writeFile(fullPath, fileContents);
+    }
+};
+
 export function transformFileSystem(fs: FileSystem): FileSystemTree {
     const files: FileSystemTree = {};
     for (const path in fs) {
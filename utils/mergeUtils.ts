@@ -0,0 +1,65 @@
+import { FileSystem } from '../types';
+import { diffFileSystems } from './fileUtils';
+
+export type MergeSide = 'local' | 'remote';
+
+export type FileChange = 'added' | 'modified' | 'deleted' | 'unchanged';
+
+export interface MergeEntry {
+    path: string;
+    // How each side changed the file since the base, or relative to the other side without one.
+    local: FileChange;
+    remote: FileChange;
+    // Both sides changed the file, so the user has to pick one.
+    isConflict: boolean;
+    // The side that changed the file, or this device's side when both did.
+    defaultSide: MergeSide;
+}
+
+const hasPath = (fileSystem: FileSystem, path: string) => Object.prototype.hasOwnProperty.call(fileSystem, path);
+
+const getChange = (from: FileSystem, to: FileSystem, path: string): FileChange => {
+    if (!hasPath(from, path)) return hasPath(to, path) ? 'added' : 'unchanged';
+    if (!hasPath(to, path)) return 'deleted';
+    return from[path] === to[path] ? 'unchanged' : 'modified';
+};
+
+// The files that differ between the two sides, sorted by path. With the base both sides started
+// from, a file changed on one side only isn't a conflict; without it every difference is.
+export const getMergeEntries = (local: FileSystem, remote: FileSystem, base?: FileSystem): MergeEntry[] => {
+    const { added, modified, deleted } = diffFileSystems(local, remote);
+    const paths = [...Object.keys(added), ...Object.keys(modified), ...deleted].sort();
+
+    return paths.map(path => {
+        if (!base) {
+            return {
+                path,
+                local: getChange(remote, local, path),
+                remote: getChange(local, remote, path),
+                isConflict: true,
+                defaultSide: 'local',
+            };
+        }
+        const localChange = getChange(base, local, path);
+        const remoteChange = getChange(base, remote, path);
+        return {
+            path,
+            local: localChange,
+            remote: remoteChange,
+            isConflict: localChange !== 'unchanged' && remoteChange !== 'unchanged',
+            defaultSide: localChange === 'unchanged' ? 'remote' : 'local',
+        };
+    });
+};
+
+// Builds the merged file system: this device's files, with each chosen path taken from its side
+// (or removed, when that side deleted it).
+export const applyMergeChoices = (local: FileSystem, remote: FileSystem, choices: Record<string, MergeSide>): FileSystem => {
+    const merged: FileSystem = { ...local };
+    for (const [path, side] of Object.entries(choices)) {
+        const source = side === 'local' ? local : remote;
+        if (hasPath(source, path)) merged[path] = source[path];
+        else delete merged[path];
+    }
+    return merged;
+};
@@ -0,0 +1,212 @@
+import { FileSystem } from '../types';
+
+// Implementations of the agent's incremental edit tools (`replace_in_file` and `apply_patch`).
+// Both work on the draft file system and either apply every change or none; failures carry an
+// error message meant for the model, saying what didn't match and how to fix the call.
+
+export type EditResult =
+    | { success: true; fileSystem: FileSystem; changedPaths: string[] }
+    | { success: false; error: string };
+
+export interface ReplaceEdit {
+    search: string;
+    replace: string;
+    all?: boolean;
+}
+
+const fail = (error: string): EditResult => ({ success: false, error });
+
+const countOccurrences = (text: string, search: string): number => {
+    let count = 0;
+    for (let i = text.indexOf(search); i !== -1; i = text.indexOf(search, i + search.length)) count++;
+    return count;
+};
+
+export const replaceInFile = (fileSystem: FileSystem, path: string, edits: ReplaceEdit[]): EditResult => {
+    const original = fileSystem[path];
+    if (original === undefined) {
+        return fail(`File not found: ${path}. Use create_or_update_files to create new files.`);
+    }
+    if (!Array.isArray(edits) || edits.length === 0) {
+        return fail("'edits' must be a non-empty array of { search, replace } objects.");
+    }
+
+    let content = original;
+    for (const [i, edit] of edits.entries()) {
+        const label = edits.length > 1 ? `Edit ${i + 1}` : 'The edit';
+        if (typeof edit?.search !== 'string' || typeof edit.replace !== 'string') {
+            return fail(`${label} needs string 'search' and 'replace' fields.`);
+        }
+        if (!edit.search) {
+            return fail(`${label} has an empty 'search'.`);
+        }
+        const count = countOccurrences(content, edit.search);
+        if (count === 0) {
+            const after = i > 0 ? ' after applying the earlier edits' : '';
+            return fail(`${label}: the search text was not found in ${path}${after}. Whitespace and indentation must match exactly; use read_file to see the current content. No edits were applied.`);
+        }
+        if (count > 1 && !edit.all) {
+            return fail(`${label}: the search text matches ${count} times in ${path}. Include more surrounding lines to make it unique, or set 'all' to replace every match. No edits were applied.`);
+        }
+        // Function replacers keep `$&`-style sequences in the replacement literal.
+        content = edit.all ? content.split(edit.search).join(edit.replace) : content.replace(edit.search, () => edit.replace);
+    }
+
+    return { success: true, fileSystem: { ...fileSystem, [path]: content }, changedPaths: [path] };
+};
+
+interface Hunk {
+    header: string;
+    oldStart: number;
+    lines: string[]; // each prefixed with ' ', '-' or '+'
+}
+
+interface FilePatch {
+    oldPath: string | null; // null for a new file
+    newPath: string | null; // null for a deleted file
+    hunks: Hunk[];
+}
+
+const parsePath = (headerLine: string): string | null => {
+    const path = headerLine.slice(4).split('\t')[0].trim();
+    if (path === '/dev/null') return null;
+    return path.replace(/^[ab]\//, '');
+};
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/;
+
+const parsePatch = (patch: string): FilePatch[] | string => {
+    const lines = patch.replace(/\r\n/g, '\n').split('\n');
+    const files: FilePatch[] = [];
+    let current: FilePatch | null = null;
+    let hunk: Hunk | null = null;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+            current = { oldPath: parsePath(line), newPath: parsePath(lines[i + 1]), hunks: [] };
+            files.push(current);
+            hunk = null;
+            i++;
+            continue;
+        }
+        const header = line.match(HUNK_HEADER);
+        if (header) {
+            if (!current) return `Hunk "${line}" comes before any '--- a/path' / '+++ b/path' file header.`;
+            hunk = { header: line, oldStart: Number(header[1]), lines: [] };
+            current.hunks.push(hunk);
+            continue;
+        }
+        if (!hunk) continue; // git metadata such as 'diff --git' or 'index' lines
+        if (line.startsWith('\\')) continue; // '\ No newline at end of file'
+        if (line.startsWith(' ') || line.startsWith('-') || line.startsWith('+')) {
+            hunk.lines.push(line);
+        } else if (line === '') {
+            // Models often drop the leading space of blank context lines.
+            hunk.lines.push(' ');
+        } else {
+            hunk = null;
+        }
+    }
+
+    // A trailing blank line is usually just the end of the patch text, not context.
+    for (const file of files) {
+        for (const h of file.hunks) {
+            while (h.lines.length > 0 && h.lines[h.lines.length - 1] === ' ') h.lines.pop();
+        }
+    }
+
+    if (files.length === 0) return "No file headers found. The patch must contain '--- a/path' and '+++ b/path' lines followed by '@@' hunks.";
+    return files;
+};
+
+const matchesAt = (fileLines: string[], block: string[], index: number, loose: boolean): boolean =>
+    block.every((line, j) => (loose ? fileLines[index + j]?.trimEnd() === line.trimEnd() : fileLines[index + j] === line));
+
+// Where the hunk's old lines occur in the file, searching from `from` and preferring the match
+// closest to the line number in its header (which models often get slightly wrong).
+const locateHunk = (fileLines: string[], oldLines: string[], expected: number, from: number): number => {
+    for (const loose of [false, true]) {
+        let best = -1;
+        for (let i = from; i + oldLines.length <= fileLines.length; i++) {
+            if (matchesAt(fileLines, oldLines, i, loose) && (best === -1 || Math.abs(i - expected) < Math.abs(best - expected))) {
+                best = i;
+            }
+        }
+        if (best !== -1) return best;
+    }
+    return -1;
+};
+
+const applyHunks = (path: string, content: string, hunks: Hunk[]): string | { error: string } => {
+    const fileLines = content === '' ? [] : content.split('\n');
+    // Lines added or removed by earlier hunks shift where later ones are expected.
+    let offset = 0;
+    let searchFrom = 0;
+
+    for (const [i, hunk] of hunks.entries()) {
+        const oldLines = hunk.lines.filter(l => !l.startsWith('+')).map(l => l.slice(1));
+        const newLines = hunk.lines.filter(l => !l.startsWith('-')).map(l => l.slice(1));
+        let index: number;
+        if (oldLines.length === 0) {
+            index = Math.min(hunk.oldStart + offset, fileLines.length);
+        } else {
+            index = locateHunk(fileLines, oldLines, Math.max(hunk.oldStart - 1 + offset, 0), searchFrom);
+            if (index === -1) {
+                return { error: `Hunk ${i + 1} (${hunk.header}) does not apply to ${path}: its context and removed lines were not found. Use read_file to see the current content and regenerate the patch. No files were changed.` };
+            }
+        }
+        fileLines.splice(index, oldLines.length, ...newLines);
+        offset += newLines.length - oldLines.length;
+        searchFrom = index + newLines.length;
+    }
+    return fileLines.join('\n');
+};
+
+export const applyPatch = (fileSystem: FileSystem, patch: string): EditResult => {
+    if (typeof patch !== 'string' || !patch.trim()) {
+        return fail("'patch' must be a non-empty unified diff.");
+    }
+    const parsed = parsePatch(patch);
+    if (typeof parsed === 'string') return fail(parsed);
+
+    const next = { ...fileSystem };
+    const changedPaths: string[] = [];
+
+    for (const file of parsed) {
+        const { oldPath, newPath } = file;
+        if (!oldPath && !newPath) return fail('A file header has /dev/null on both sides.');
+
+        if (!oldPath) {
+            if (next[newPath!] !== undefined) {
+                return fail(`${newPath} already exists. Patch it with '--- a/${newPath}' instead of '--- /dev/null'. No files were changed.`);
+            }
+            const created = applyHunks(newPath!, '', file.hunks);
+            if (typeof created !== 'string') return fail(created.error);
+            next[newPath!] = created.endsWith('\n') ? created : `${created}\n`;
+            changedPaths.push(newPath!);
+            continue;
+        }
+
+        const original = next[oldPath];
+        if (original === undefined) {
+            return fail(`File not found: ${oldPath}. Use '--- /dev/null' to create a new file. No files were changed.`);
+        }
+        if (!newPath) {
+            delete next[oldPath];
+            changedPaths.push(oldPath);
+            continue;
+        }
+
+        const updated = applyHunks(oldPath, original, file.hunks);
+        if (typeof updated !== 'string') return fail(updated.error);
+        if (newPath !== oldPath) {
+            delete next[oldPath];
+            changedPaths.push(oldPath);
+        }
+        next[newPath] = updated;
+        changedPaths.push(newPath);
+    }
+
+    return { success: true, fileSystem: next, changedPaths: [...new Set(changedPaths)] };
+};
@@ -0,0 +1,255 @@
+import { RuntimeError } from '../types';
+
+// The bridge between the IDE and pages served by the preview. PREVIEW_SCRIPT is injected into every
+// page a WebContainer serves. It posts runtime errors to the IDE window, which IdeLayout collects
+// and can hand to the agent as a prompt, and renders the page to an image on request, which
+// `capture_preview` uses to show the agent what it built.
+
+export const PREVIEW_MESSAGE_SOURCE = 'mominai-preview';
+const IDE_MESSAGE_SOURCE = 'mominai-ide';
+
+const MAX_MESSAGE_CHARS = 4000;
+
+// Plain ES5, since it runs before the app's own code in whatever browser the user has.
+// Screenshots draw a copy of the DOM through an SVG <foreignObject>: scripts are dropped, and
+// images, canvases, form values and linked stylesheets are inlined first, because an SVG image
+// can't load anything itself.
+export const PREVIEW_SCRIPT = `(function () {
+  if (window.__mominaiPreview) return;
+  window.__mominaiPreview = true;
+  var limit = function (text) { text = String(text); return text.length > ${MAX_MESSAGE_CHARS} ? text.slice(0, ${MAX_MESSAGE_CHARS}) + '...' : text; };
+  var describe = function (value) {
+    if (value instanceof Error) return value.message || String(value);
+    if (typeof value === 'string') return value;
+    try { return JSON.stringify(value); } catch (e) { return String(value); }
+  };
+  var send = function (report) {
+    report.source = '${PREVIEW_MESSAGE_SOURCE}';
+    if (report.message) report.message = limit(report.message);
+    if (report.stack) report.stack = limit(report.stack);
+    try { window.parent.postMessage(report, '*'); } catch (e) {}
+  };
+  window.addEventListener('error', function (event) {
+    send({
+      type: 'runtime-error',
+      kind: 'error',
+      message: event.message || describe(event.error),
+      stack: event.error && event.error.stack,
+      location: event.filename ? event.filename + ':' + event.lineno + ':' + event.colno : undefined
+    });
+  });
+  window.addEventListener('unhandledrejection', function (event) {
+    var reason = event.reason;
+    send({ type: 'runtime-error', kind: 'unhandledrejection', message: describe(reason), stack: reason && reason.stack });
+  });
+  var consoleError = console.error;
+  console.error = function () {
+    var args = Array.prototype.slice.call(arguments);
+    var error = args.filter(function (arg) { return arg instanceof Error; })[0];
+    send({ type: 'runtime-error', kind: 'console', message: args.map(describe).join(' '), stack: error && error.stack });
+    return consoleError.apply(console, args);
+  };
+
+  var toDataUrl = function (url) {
+    return fetch(url).then(function (response) {
+      if (!response.ok) throw new Error('HTTP ' + response.status);
+      return response.blob();
+    }).then(function (blob) {
+      return new Promise(function (resolve, reject) {
+        var reader = new FileReader();
+        reader.onload = function () { resolve(reader.result); };
+        reader.onerror = reject;
+        reader.readAsDataURL(blob);
+      });
+    });
+  };
+  var isTransparent = function (color) { return !color || color === 'transparent' || color === 'rgba(0, 0, 0, 0)'; };
+  var snapshot = function (maxHeight) {
+    var root = document.documentElement;
+    var width = root.clientWidth;
+    var height = Math.min(Math.max(root.scrollHeight, window.innerHeight), maxHeight);
+    var clone = root.cloneNode(true);
+    var selector = 'img, canvas, input, textarea';
+    var originals = root.querySelectorAll(selector);
+    var copies = clone.querySelectorAll(selector);
+    var pending = [];
+    Array.prototype.forEach.call(originals, function (original, i) {
+      var copy = copies[i];
+      if (original.tagName === 'IMG') {
+        var src = original.currentSrc || original.src;
+        copy.removeAttribute('srcset');
+        copy.removeAttribute('loading');
+        if (src && src.indexOf('data:') !== 0) {
+          pending.push(toDataUrl(src).then(function (url) { copy.setAttribute('src', url); }, function () { copy.removeAttribute('src'); }));
+        }
+      } else if (original.tagName === 'CANVAS') {
+        var image = document.createElement('img');
+        try { image.src = original.toDataURL(); } catch (e) {}
+        image.style.width = original.clientWidth + 'px';
+        image.style.height = original.clientHeight + 'px';
+        copy.parentNode.replaceChild(image, copy);
+      } else if (original.tagName === 'TEXTAREA') {
+        copy.textContent = original.value;
+      } else {
+        copy.setAttribute('value', original.value);
+        if (original.checked) copy.setAttribute('checked', '');
+      }
+    });
+    Array.prototype.forEach.call(clone.querySelectorAll('script'), function (script) { script.parentNode.removeChild(script); });
+    Array.prototype.forEach.call(clone.querySelectorAll('link[rel="stylesheet"]'), function (link) {
+      pending.push(fetch(link.href).then(function (response) { return response.text(); }).then(function (css) {
+        var style = document.createElement('style');
+        style.textContent = css;
+        link.parentNode.replaceChild(style, link);
+      }, function () {}));
+    });
+    var background = [document.body, root].map(function (el) { return el && getComputedStyle(el).backgroundColor; }).filter(function (color) { return !isTransparent(color); })[0] || '#ffffff';
+
+    return Promise.all(pending).then(function () {
+      clone.style.width = width + 'px';
+      var svg = '<svg xmlns="http://www.w3.org/2000/svg" width="' + width + '" height="' + height + '">' +
+        '<foreignObject x="0" y="0" width="100%" height="100%">' + new XMLSerializer().serializeToString(clone) + '</foreignObject></svg>';
+      return new Promise(function (resolve, reject) {
+        var image = new Image();
+        image.onload = function () { resolve(image); };
+        image.onerror = function () { reject(new Error('The page could not be rendered to an image.')); };
+        image.src = 'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(svg);
+      });
+    }).then(function (image) {
+      var canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      var context = canvas.getContext('2d');
+      context.fillStyle = background;
+      context.fillRect(0, 0, width, height);
+      context.drawImage(image, 0, 0);
+      return canvas.toDataURL('image/jpeg', 0.8);
+    });
+  };
+  var whenSettled = function (settleMs) {
+    return new Promise(function (resolve) {
+      var wait = function () { setTimeout(resolve, settleMs); };
+      if (document.readyState === 'complete') wait();
+      else window.addEventListener('load', wait, { once: true });
+    });
+  };
+  window.addEventListener('message', function (event) {
+    var request = event.data;
+    if (event.source !== window.parent || !request || request.source !== '${IDE_MESSAGE_SOURCE}' || request.type !== 'capture') return;
+    whenSettled(request.settleMs || 0).then(function () { return snapshot(request.maxHeight || 4000); }).then(function (dataUrl) {
+      send({ type: 'capture-result', id: request.id, dataUrl: dataUrl });
+    }, function (error) {
+      send({ type: 'capture-result', id: request.id, error: describe(error) });
+    });
+  });
+
+  send({ type: 'page-loaded', url: location.href });
+})();`;
+
+export type PreviewMessage =
+  | { type: 'page-loaded'; url: string }
+  | { type: 'runtime-error'; kind: RuntimeError['kind']; message: string; stack?: string; location?: string }
+  | { type: 'capture-result'; id: string; dataUrl?: string; error?: string };
+
+// Returns the report if `data` came from PREVIEW_SCRIPT.
+export const parsePreviewMessage = (data: unknown): PreviewMessage | null => {
+    if (!data || typeof data !== 'object') return null;
+    const message = data as Record<string, unknown>;
+    if (message.source !== PREVIEW_MESSAGE_SOURCE) return null;
+    if (message.type === 'page-loaded') return { type: 'page-loaded', url: String(message.url ?? '') };
+    if (message.type === 'capture-result') {
+        return {
+            type: 'capture-result',
+            id: String(message.id ?? ''),
+            ...(typeof message.dataUrl === 'string' && { dataUrl: message.dataUrl }),
+            ...(typeof message.error === 'string' && { error: message.error }),
+        };
+    }
+    if (message.type !== 'runtime-error') return null;
+    const kind = message.kind === 'unhandledrejection' || message.kind === 'console' ? message.kind : 'error';
+    return {
+        type: 'runtime-error',
+        kind,
+        message: String(message.message ?? 'Unknown error'),
+        ...(typeof message.stack === 'string' && { stack: message.stack }),
+        ...(typeof message.location === 'string' && { location: message.location }),
+    };
+};
+
+// Loads `url` in an off-screen iframe of the given size and asks PREVIEW_SCRIPT in it for a
+// screenshot once the page has loaded and had `settleMs` to render. Resolves with a JPEG data URL.
+// The request is sent again whenever the page reloads, e.g. when Vite reloads after optimizing
+// dependencies on the first visit.
+export const captureInFrame = (
+    url: string,
+    size: { width: number; height: number },
+    options: { signal?: AbortSignal; settleMs?: number; timeoutMs?: number } = {}
+): Promise<string> => new Promise((resolve, reject) => {
+    const { signal, settleMs = 1500, timeoutMs = 60000 } = options;
+    const id = Date.now().toString(36) + Math.random().toString(36).slice(2);
+    const frame = document.createElement('iframe');
+    frame.src = url;
+    frame.title = 'Preview capture';
+    frame.tabIndex = -1;
+    frame.setAttribute('aria-hidden', 'true');
+    frame.setAttribute('allow', 'cross-origin-isolated');
+    Object.assign(frame.style, { position: 'fixed', top: '0', left: '-20000px', width: `${size.width}px`, height: `${size.height}px`, border: '0', pointerEvents: 'none' });
+
+    const finish = (error: Error | null, dataUrl?: string) => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', abort);
+        window.removeEventListener('message', onMessage);
+        frame.remove();
+        if (error) reject(error);
+        else resolve(dataUrl!);
+    };
+    const onMessage = (event: MessageEvent) => {
+        if (event.source !== frame.contentWindow) return;
+        const message = parsePreviewMessage(event.data);
+        if (message?.type === 'page-loaded') {
+            frame.contentWindow?.postMessage({ source: IDE_MESSAGE_SOURCE, type: 'capture', id, settleMs, maxHeight: size.height * 2 }, '*');
+        } else if (message?.type === 'capture-result' && message.id === id) {
+            if (message.dataUrl) finish(null, message.dataUrl);
+            else finish(new Error(message.error || 'The page could not be captured.'));
+        }
+    };
+    const abort = () => finish(new DOMException('The agent was stopped.', 'AbortError'));
+    const timer = setTimeout(() => finish(new Error(`The preview did not respond within ${timeoutMs / 1000} seconds.`)), timeoutMs);
+
+    if (signal?.aborted) {
+        abort();
+        return;
+    }
+    signal?.addEventListener('abort', abort, { once: true });
+    window.addEventListener('message', onMessage);
+    document.body.appendChild(frame);
+});
+
+// Preview URLs are on the WebContainer's own origin; file locations are easier to read as paths.
+const toSourcePath = (text: string): string => text.replace(/https?:\/\/[^/\s]+\//g, '/');
+
+const KIND_LABELS: Record<RuntimeError['kind'], string> = {
+    error: 'Runtime error',
+    unhandledrejection: 'Unhandled promise rejection',
+    console: 'console.error',
+};
+
+export const getRuntimeErrorLabel = (error: RuntimeError): string => KIND_LABELS[error.kind];
+
+// The prompt behind "Fix with MominAI": every distinct error with where it happened.
+export const formatRuntimeErrorsPrompt = (errors: RuntimeError[], maxErrors = 10): string => {
+    const blocks = errors.slice(0, maxErrors).map((error, index) => {
+        const lines = [`${index + 1}. ${getRuntimeErrorLabel(error)}${error.count > 1 ? ` (x${error.count})` : ''}: ${error.message}`];
+        if (error.location) lines.push(`   at ${toSourcePath(error.location)}`);
+        if (error.stack) lines.push(toSourcePath(error.stack).split('\n').slice(0, 8).map(line => `   ${line.trim()}`).join('\n'));
+        return lines.join('\n');
+    });
+    if (errors.length > maxErrors) blocks.push(`... and ${errors.length - maxErrors} more`);
+    return [
+        'The app crashes or logs errors at runtime in the preview, even though it builds. Find the cause of these errors and fix them, then verify the build.',
+        '',
+        '<runtime_errors>',
+        blocks.join('\n\n'),
+        '</runtime_errors>',
+    ].join('\n');
+};
@@ -0,0 +1,125 @@
+import { FileSystem } from '../types';
+
+// Text search over the in-memory file system, used by the agent's `search_files` tool and the
+// search panel in the file explorer.
+
+export interface SearchOptions {
+    query: string;
+    isRegex?: boolean;
+    caseSensitive?: boolean;
+    // e.g. 'src/**/*.tsx' or '*.css'; a pattern without a slash is matched against the file name.
+    glob?: string;
+    contextLines?: number;
+    maxResults?: number;
+}
+
+export interface SearchMatch {
+    path: string;
+    line: number; // 1-based
+    column: number; // 1-based
+    text: string;
+    before: string[];
+    after: string[];
+}
+
+export interface SearchResult {
+    matches: SearchMatch[];
+    filesSearched: number;
+    // More matches exist than maxResults allowed.
+    truncated: boolean;
+    error?: string;
+}
+
+const DEFAULT_MAX_RESULTS = 200;
+const MAX_CONTEXT_LINES = 10;
+// Minified bundles and data URIs aren't worth showing in full.
+const MAX_LINE_CHARS = 300;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const globToRegExp = (glob: string): RegExp => {
+    let pattern = '';
+    let inGroup = false;
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*' && glob[i + 1] === '*') {
+            // '**/' matches any number of directories, including none.
+            pattern += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+            i += glob[i + 2] === '/' ? 2 : 1;
+        } else if (char === '*') {
+            pattern += '[^/]*';
+        } else if (char === '?') {
+            pattern += '[^/]';
+        } else if (char === '{') {
+            inGroup = true;
+            pattern += '(?:';
+        } else if (char === '}' && inGroup) {
+            inGroup = false;
+            pattern += ')';
+        } else if (char === ',' && inGroup) {
+            pattern += '|';
+        } else {
+            pattern += escapeRegExp(char);
+        }
+    }
+    return new RegExp(`^${pattern}$`);
+};
+
+const clip = (line: string) => (line.length > MAX_LINE_CHARS ? `${line.slice(0, MAX_LINE_CHARS)}...` : line);
+
+export const searchFileSystem = (fileSystem: FileSystem, options: SearchOptions): SearchResult => {
+    const { query, isRegex = false, caseSensitive = false, glob } = options;
+    const contextLines = Math.max(0, Math.min(options.contextLines ?? 0, MAX_CONTEXT_LINES));
+    const maxResults = Math.max(1, options.maxResults ?? DEFAULT_MAX_RESULTS);
+    if (!query) return { matches: [], filesSearched: 0, truncated: false };
+
+    let matcher: RegExp;
+    try {
+        matcher = new RegExp(isRegex ? query : escapeRegExp(query), caseSensitive ? '' : 'i');
+    } catch (e) {
+        return { matches: [], filesSearched: 0, truncated: false, error: e instanceof Error ? e.message : `Invalid regular expression: ${query}` };
+    }
+    const globPattern = glob ? globToRegExp(glob.trim()) : null;
+    const matchesGlob = (path: string) =>
+        !globPattern || globPattern.test(path) || (!glob!.includes('/') && globPattern.test(path.split('/').pop()!));
+
+    const matches: SearchMatch[] = [];
+    let filesSearched = 0;
+    let truncated = false;
+
+    for (const path of Object.keys(fileSystem).sort()) {
+        if (!matchesGlob(path)) continue;
+        filesSearched++;
+        const lines = fileSystem[path].split('\n');
+        for (let i = 0; i < lines.length; i++) {
+            const found = matcher.exec(lines[i]);
+            if (!found) continue;
+            if (matches.length >= maxResults) {
+                truncated = true;
+                break;
+            }
+            matches.push({
+                path,
+                line: i + 1,
+                column: found.index + 1,
+                text: clip(lines[i]),
+                before: lines.slice(Math.max(0, i - contextLines), i).map(clip),
+                after: lines.slice(i + 1, i + 1 + contextLines).map(clip),
+            });
+        }
+        if (truncated) break;
+    }
+
+    return { matches, filesSearched, truncated };
+};
+
+// grep-style text for the agent: `path:line: text` for matches and `path-line- text` for context.
+export const formatSearchResults = (result: SearchResult): string =>
+    result.matches.map(m => {
+        const context = (lines: string[], start: number) => lines.map((text, i) => `${m.path}-${start + i}- ${text}`);
+        return [
+            ...context(m.before, m.line - m.before.length),
+            `${m.path}:${m.line}: ${m.text}`,
+            ...context(m.after, m.line + 1),
+        ].join('\n');
+    }).join(result.matches.some(m => m.before.length || m.after.length) ? '\n--\n' : '\n');
@@ -0,0 +1,82 @@
+// Helpers for consuming Server-Sent Events from the AI providers and our own Vercel functions.
+
+export interface SseMessage {
+    event?: string;
+    data: string;
+}
+
+// Reads a `text/event-stream` response body and yields one message per blank-line separated block.
+// Multi-line `data:` fields are joined with newlines as per the SSE spec.
+export async function* readSseStream(response: Response): AsyncGenerator<SseMessage> {
+    if (!response.body) {
+        throw new Error('Streaming response has no body.');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    const parseBlock = (block: string): SseMessage | null => {
+        let event: string | undefined;
+        const dataLines: string[] = [];
+        for (const line of block.split('\n')) {
+            if (line.startsWith(':')) continue; // comment / keep-alive
+            if (line.startsWith('event:')) {
+                event = line.slice(6).trim();
+            } else if (line.startsWith('data:')) {
+                dataLines.push(line.slice(5).replace(/^ /, ''));
+            }
+        }
+        if (dataLines.length === 0) return null;
+        return { event, data: dataLines.join('\n') };
+    };
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+            let separatorIndex = buffer.indexOf('\n\n');
+            while (separatorIndex !== -1) {
+                const block = buffer.slice(0, separatorIndex);
+                buffer = buffer.slice(separatorIndex + 2);
+                const message = parseBlock(block);
+                if (message) yield message;
+                separatorIndex = buffer.indexOf('\n\n');
+            }
+        }
+        // Flush whatever is left if the server didn't terminate the last block.
+        const trailing = parseBlock(buffer.trim());
+        if (trailing) yield trailing;
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+// Pulls the file paths out of a partially streamed file-writing tool's argument string, e.g.
+// `{"files": {"src/App.tsx": "import Re` -> ['src/App.tsx'] for `create_or_update_files`.
+// Only keys that look like paths (contain a dot or slash) directly followed by a colon are matched,
+// so string values that happen to contain quotes don't produce false positives in practice.
+// `replace_in_file` names its file in `path`, and `apply_patch` in the patch's `+++` headers.
+export const extractStreamingFilePaths = (toolName: string, partialArgs: string): string[] => {
+    if (toolName === 'replace_in_file') {
+        const match = partialArgs.match(/"path"\s*:\s*"((?:[^"\\]|\\.)+)"/);
+        return match ? [match[1]] : [];
+    }
+    if (toolName === 'apply_patch') {
+        // Only complete header lines, so a path still being streamed isn't reported half-written.
+        const headers = partialArgs.matchAll(/\\n\+\+\+ (?:b\/)?([^\\\s]+)\\[nt]/g);
+        return [...new Set([...headers].map(m => m[1]).filter(path => path !== '/dev/null'))];
+    }
+    const paths: string[] = [];
+    const keyPattern = /[{,]\s*"((?:[^"\\]|\\.)+)"\s*:/g;
+    let match: RegExpExecArray | null;
+    while ((match = keyPattern.exec(partialArgs)) !== null) {
+        const key = match[1];
+        if (key !== 'files' && /[./]/.test(key) && !paths.includes(key)) {
+            paths.push(key);
+        }
+    }
+    return paths;
+};
@@ -0,0 +1,125 @@
+import { TestCaseResult, TestRunResult, TestStatus } from '../types';
+import { toProjectPath } from './diagnosticsUtils';
+
+// Turns Vitest's JSON report into per-test results, for the agent's `run_tests` result and the
+// Tests panel.
+
+export interface TestFilter {
+    // Only run this test file.
+    file?: string;
+    // Only run tests whose full name matches, as with Vitest's -t option.
+    testName?: string;
+}
+
+interface VitestAssertionResult {
+    fullName?: string;
+    ancestorTitles?: string[];
+    title: string;
+    status: string;
+    duration?: number | null;
+    failureMessages?: string[] | null;
+}
+
+interface VitestFileResult {
+    name: string;
+    status: string;
+    message?: string;
+    startTime?: number;
+    endTime?: number;
+    assertionResults?: VitestAssertionResult[];
+}
+
+interface VitestReport {
+    startTime?: number;
+    testResults?: VitestFileResult[];
+}
+
+const toStatus = (status: string): TestStatus =>
+    status === 'passed' ? 'passed' : status === 'failed' ? 'failed' : 'skipped';
+
+const countResults = (tests: TestCaseResult[]) => ({
+    passed: tests.filter(t => t.status === 'passed').length,
+    failed: tests.filter(t => t.status === 'failed').length,
+    skipped: tests.filter(t => t.status === 'skipped').length,
+});
+
+// Parses the file written by `vitest run --reporter=json`. Returns null when it isn't a Vitest
+// report, e.g. because Vitest crashed before writing it.
+export const parseVitestJson = (json: string, projectDir?: string): TestRunResult | null => {
+    let report: VitestReport;
+    try {
+        report = JSON.parse(json);
+    } catch {
+        return null;
+    }
+    if (!report || !Array.isArray(report.testResults)) return null;
+
+    const tests: TestCaseResult[] = [];
+    const fileErrors: TestRunResult['fileErrors'] = [];
+    let endTime = report.startTime ?? 0;
+    for (const fileResult of report.testResults) {
+        const file = toProjectPath(fileResult.name, projectDir);
+        const assertions = fileResult.assertionResults || [];
+        endTime = Math.max(endTime, fileResult.endTime ?? 0);
+        if (fileResult.status === 'failed' && fileResult.message && !assertions.some(a => a.status === 'failed')) {
+            fileErrors.push({ file, message: fileResult.message.trim() });
+        }
+        for (const assertion of assertions) {
+            const failureMessage = (assertion.failureMessages || []).map(m => m.trim()).join('\n\n');
+            tests.push({
+                file,
+                name: assertion.fullName || [...(assertion.ancestorTitles || []), assertion.title].join(' '),
+                status: toStatus(assertion.status),
+                ...(typeof assertion.duration === 'number' && { durationMs: Math.round(assertion.duration) }),
+                ...(failureMessage && { failureMessage }),
+            });
+        }
+    }
+
+    return {
+        tests,
+        fileErrors,
+        ...countResults(tests),
+        durationMs: report.startTime ? Math.max(endTime - report.startTime, 0) : 0,
+        finishedAt: new Date().toISOString(),
+    };
+};
+
+// Folds the results of a filtered re-run into the previous results: the re-run replaces what it
+// covered and everything else is kept.
+export const mergeTestResults = (previous: TestRunResult | null, next: TestRunResult, filter: TestFilter): TestRunResult => {
+    if (!previous || (!filter.file && !filter.testName)) return next;
+
+    const key = (test: TestCaseResult) => `${test.file}\n${test.name}`;
+    // With -t, Vitest reports the tests that didn't match as skipped; those keep their previous result.
+    const rerun = filter.testName ? next.tests.filter(t => t.status !== 'skipped') : next.tests;
+    const rerunKeys = new Set(rerun.map(key));
+    const rerunFiles = new Set([...next.tests.map(t => t.file), ...next.fileErrors.map(e => e.file)]);
+    const tests = [
+        ...previous.tests.filter(t => filter.testName ? !rerunKeys.has(key(t)) : !rerunFiles.has(t.file)),
+        ...rerun,
+    ];
+    const fileErrors = [
+        ...previous.fileErrors.filter(e => !rerunFiles.has(e.file)),
+        ...next.fileErrors,
+    ];
+    return { ...next, tests, fileErrors, ...countResults(tests) };
+};
+
+// Escapes a test name for Vitest's -t option, which takes a regular expression.
+export const toTestNamePattern = (name: string): string => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// A short summary for the agent, with the failure message of each failing test:
+// `FAIL src/utils/math.test.ts > adds numbers\nAssertionError: expected 3 to be 4`.
+export const formatTestFailures = (result: TestRunResult, maxFailures = 20, maxMessageChars = 1500): string => {
+    const failures = [
+        ...result.fileErrors.map(e => ({ title: `FAIL ${e.file} (the file could not run)`, message: e.message })),
+        ...result.tests.filter(t => t.status === 'failed').map(t => ({ title: `FAIL ${t.file} > ${t.name}`, message: t.failureMessage || '' })),
+    ];
+    const blocks = failures.slice(0, maxFailures).map(({ title, message }) => {
+        const trimmed = message.length > maxMessageChars ? `${message.slice(0, maxMessageChars)}\n...` : message;
+        return trimmed ? `${title}\n${trimmed}` : title;
+    });
+    if (failures.length > maxFailures) blocks.push(`... and ${failures.length - maxFailures} more failures`);
+    return blocks.join('\n\n');
+};
@@ -0,0 +1,84 @@
+import * as Y from 'yjs';
+import { FileSystem } from '../types';
+
+// The shared document behind collaborative editing: a map from file path to the file's text.
+// Concurrent edits to the same file merge character by character. Creating the same path on two
+// sides at once keeps only one of the two files.
+
+export interface TextChange {
+    index: number;
+    deleteCount: number;
+    insert: string;
+}
+
+export const getFilesMap = (doc: Y.Doc): Y.Map<Y.Text> => doc.getMap<Y.Text>('files');
+
+const isHighSurrogate = (code: number) => code >= 0xd800 && code <= 0xdbff;
+const isLowSurrogate = (code: number) => code >= 0xdc00 && code <= 0xdfff;
+
+// The smallest single replacement that turns `from` into `to`, or null when they are equal.
+// Keeping edits small is what lets concurrent edits elsewhere in the file survive.
+export const diffText = (from: string, to: string): TextChange | null => {
+    if (from === to) return null;
+    let start = 0;
+    const maxStart = Math.min(from.length, to.length);
+    while (start < maxStart && from.charCodeAt(start) === to.charCodeAt(start)) start++;
+    let fromEnd = from.length;
+    let toEnd = to.length;
+    while (fromEnd > start && toEnd > start && from.charCodeAt(fromEnd - 1) === to.charCodeAt(toEnd - 1)) {
+        fromEnd--;
+        toEnd--;
+    }
+    // Don't split a surrogate pair between the kept and the replaced text.
+    if (start > 0 && isHighSurrogate(from.charCodeAt(start - 1))) start--;
+    if (fromEnd < from.length && isLowSurrogate(from.charCodeAt(fromEnd)) && fromEnd > start) {
+        fromEnd++;
+        toEnd++;
+    }
+    return { index: start, deleteCount: fromEnd - start, insert: to.slice(start, toEnd) };
+};
+
+export const docToFileSystem = (doc: Y.Doc): FileSystem => {
+    const fileSystem: FileSystem = {};
+    getFilesMap(doc).forEach((text, path) => {
+        fileSystem[path] = text.toString();
+    });
+    return fileSystem;
+};
+
+// Applies new contents for `paths` in one transaction; a path missing from `fileSystem` is deleted.
+export const applyFilesToDoc = (doc: Y.Doc, fileSystem: FileSystem, paths: Iterable<string>, origin: unknown) => {
+    const files = getFilesMap(doc);
+    doc.transact(() => {
+        for (const path of paths) {
+            const content = fileSystem[path];
+            const text = files.get(path);
+            if (content === undefined) {
+                if (text) files.delete(path);
+            } else if (!text) {
+                files.set(path, new Y.Text(content));
+            } else {
+                const change = diffText(text.toString(), content);
+                if (!change) continue;
+                if (change.deleteCount > 0) text.delete(change.index, change.deleteCount);
+                if (change.insert) text.insert(change.index, change.insert);
+            }
+        }
+    }, origin);
+};
+
+// Yjs updates travel inside JSON broadcasts.
+export const encodeUpdate = (update: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < update.length; i += 0x8000) {
+        binary += String.fromCharCode(...update.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+export const decodeUpdate = (encoded: string): Uint8Array => {
+    const binary = atob(encoded);
+    const update = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) update[i] = binary.charCodeAt(i);
+    return update;
+};
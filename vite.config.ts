@@ -8,42 +8,18 @@ import react from '@vitejs/plugin-react'
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, process.cwd(), '');
+  // Only VITE_ variables (and NODE_ENV) reach the browser bundle; provider keys and the key
+  // vault secret are read by the functions under api/ alone.
+  const clientEnv = Object.fromEntries(Object.entries(env).filter(([key]) => key.startsWith('VITE_') || key === 'NODE_ENV'));
   return {
     define: {
-      'process.env': env
+      'process.env': clientEnv
     },
     plugins: [react()],
     server: {
       headers: {
         'Cross-Origin-Opener-Policy': 'same-origin',
         'Cross-Origin-Embedder-Policy': 'require-corp',
-      },
-      proxy: {
-        '/api/anthropic': {
-          target: 'https://api.anthropic.com',
-          changeOrigin: true,
-          rewrite: (path) => path.replace(/^\/api\/anthropic/, ''),
-        },
-        '/api/openai': {
-          target: 'https://api.openai.com',
-          changeOrigin: true,
-          rewrite: (path) => path.replace(/^\/api\/openai/, ''),
-        },
-        '/api/groq': {
-          target: 'https://api.groq.com',
-          changeOrigin: true,
-          rewrite: (path) => path.replace(/^\/api\/groq/, ''),
-        },
-        '/api/openrouter': {
-          target: 'https://openrouter.ai/api',
-          changeOrigin: true,
-          rewrite: (path) => path.replace(/^\/api\/openrouter/, ''),
-        },
-        '/api/pexels': {
-          target: 'https://api.pexels.com',
-          changeOrigin: true,
-          rewrite: (path) => path.replace(/^\/api\/pexels/, ''),
-        }
       }
     },
   }